@@ -13,6 +13,10 @@ import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from 'expo-router';
 import { useAuth } from '../../contexts/AuthContext';
 import { analyticsService, AdherenceStats, MedicationStats, TimeAnalytics, WeeklyPattern } from '../../services/analyticsService';
+import { prnService, PrnUsage } from '../../services/prnService';
+import { snoozeService, SnoozeStats } from '../../services/snoozeService';
+import { dateTimeService } from '../../services/dateTimeService';
+import { WEEKDAY_LABELS } from '../../services/doseScheduleService';
 
 export default function AnalyticsScreen() {
   const { user } = useAuth();
@@ -22,6 +26,8 @@ export default function AnalyticsScreen() {
   const [medicationStats, setMedicationStats] = useState<MedicationStats | null>(null);
   const [timeAnalytics, setTimeAnalytics] = useState<TimeAnalytics | null>(null);
   const [weeklyPattern, setWeeklyPattern] = useState<WeeklyPattern[]>([]);
+  const [prnUsage, setPrnUsage] = useState<PrnUsage[]>([]);
+  const [snoozeStats, setSnoozeStats] = useState<SnoozeStats[]>([]);
   const [insights, setInsights] = useState<string[]>([]);
 
   const CURRENT_USER_ID = user?.id;
@@ -41,12 +47,14 @@ export default function AnalyticsScreen() {
       setLoading(true);
 
       // Load all analytics data
-      const [adherence, medStats, timeData, pattern, userInsights] = await Promise.all([
+      const [adherence, medStats, timeData, pattern, userInsights, asNeeded, snoozes] = await Promise.all([
         analyticsService.getAdherenceStats(CURRENT_USER_ID),
         analyticsService.getMedicationStats(CURRENT_USER_ID),
         analyticsService.getTimeAnalytics(CURRENT_USER_ID),
         analyticsService.getWeeklyPattern(CURRENT_USER_ID),
         analyticsService.getInsights(CURRENT_USER_ID),
+        prnService.getUsageTrends(CURRENT_USER_ID),
+        snoozeService.getSnoozeStats(CURRENT_USER_ID),
       ]);
 
       setAdherenceStats(adherence);
@@ -54,6 +62,8 @@ export default function AnalyticsScreen() {
       setTimeAnalytics(timeData);
       setWeeklyPattern(pattern);
       setInsights(userInsights);
+      setPrnUsage(asNeeded);
+      setSnoozeStats(snoozes);
     } catch (error) {
       console.error('Error loading analytics:', error);
     } finally {
@@ -288,6 +298,78 @@ export default function AnalyticsScreen() {
           </View>
         )}
 
+        {/* As-needed (PRN) usage */}
+        {prnUsage.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>As-Needed Use</Text>
+            {prnUsage.map((usage) => {
+              const busiestDay = Math.max(1, usage.maxDailyDoses || 0, ...usage.dailyCounts.map(day => day.doses));
+              const trendIcon = usage.dosesThisWeek > usage.dosesLastWeek
+                ? 'trending-up'
+                : usage.dosesThisWeek < usage.dosesLastWeek ? 'trending-down' : 'remove';
+
+              return (
+                <View key={usage.medicationId} style={[styles.card, { marginBottom: 12 }]}>
+                  <View style={styles.prnHeader}>
+                    <Text style={styles.prnName}>{usage.medicationName}</Text>
+                    <View style={styles.prnTrend}>
+                      <Ionicons name={trendIcon} size={18} color="#6366F1" />
+                      <Text style={styles.prnTrendText}>
+                        {usage.dosesThisWeek} this week ({usage.dosesLastWeek} last week)
+                      </Text>
+                    </View>
+                  </View>
+                  <View style={styles.prnChart}>
+                    {usage.dailyCounts.map((day) => (
+                      <View key={day.date} style={styles.barContainer}>
+                        <View style={[styles.bar, styles.prnBar]}>
+                          <View
+                            style={[
+                              styles.barFill,
+                              {
+                                height: `${(day.doses / busiestDay) * 100}%`,
+                                backgroundColor: usage.maxDailyDoses && day.doses >= usage.maxDailyDoses ? '#EF4444' : '#6366F1'
+                              }
+                            ]}
+                          />
+                        </View>
+                        <Text style={styles.barLabel}>{WEEKDAY_LABELS[dateTimeService.getDayOfWeek(day.date)]}</Text>
+                        <Text style={styles.barValue}>{day.doses}</Text>
+                      </View>
+                    ))}
+                  </View>
+                  {usage.daysAtLimit > 0 && (
+                    <Text style={styles.prnWarning}>
+                      Reached the daily maximum on {usage.daysAtLimit} day{usage.daysAtLimit === 1 ? '' : 's'} this week
+                    </Text>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        {/* Snooze habits */}
+        {snoozeStats.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Snooze Habits</Text>
+            <View style={styles.card}>
+              {snoozeStats.map((stats) => (
+                <View key={stats.medicationId} style={styles.snoozeRow}>
+                  <View style={styles.snoozeInfo}>
+                    <Text style={styles.prnName}>{stats.medicationName}</Text>
+                    <Text style={styles.snoozeDetails}>{snoozeService.describeStats(stats)}</Text>
+                  </View>
+                  <Text style={[styles.snoozeCount, stats.missedAfterSnoozing > 0 && { color: '#EF4444' }]}>
+                    {stats.snoozes}
+                  </Text>
+                </View>
+              ))}
+              <Text style={styles.snoozeFootnote}>Last 30 days</Text>
+            </View>
+          </View>
+        )}
+
         {/* Insights */}
         {insights.length > 0 && (
           <View style={styles.section}>
@@ -498,6 +580,64 @@ const styles = StyleSheet.create({
     width: 45,
     textAlign: 'right',
   },
+  prnHeader: {
+    marginBottom: 12,
+  },
+  prnName: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1F2937',
+    marginBottom: 4,
+  },
+  prnTrend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  prnTrendText: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  prnChart: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    alignItems: 'flex-end',
+  },
+  prnBar: {
+    width: 20,
+    height: 60,
+  },
+  snoozeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  snoozeInfo: {
+    flex: 1,
+  },
+  snoozeDetails: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  snoozeCount: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#6366F1',
+    marginLeft: 12,
+  },
+  snoozeFootnote: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 10,
+  },
+  prnWarning: {
+    fontSize: 12,
+    color: '#EF4444',
+    marginTop: 12,
+  },
   insightCard: {
     flexDirection: 'row',
     alignItems: 'flex-start',
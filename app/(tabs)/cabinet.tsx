@@ -14,35 +14,47 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase } from '../../services/supabaseClient';
+import { medicationRepository, StockedMedication } from '../../services/medicationRepository';
+import { dateTimeService } from '../../services/dateTimeService';
+import { doseScheduleService } from '../../services/doseScheduleService';
+import { inventoryService } from '../../services/medicationEnhancedService';
+import { stockLotService } from '../../services/stockLotService';
+import { refillService, REFILL_STATUS_LABELS } from '../../services/refillService';
+import { packScanService, PackScan } from '../../services/packScanService';
+import PackScanner from '../../components/PackScanner';
+import { StockLot, RefillRequest, RefillStatus } from '../../constants/Types';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import { useFocusEffect } from '@react-navigation/native';
-
-interface Medication {
-  id: string;
-  medication_name: string;
-  dosage: string;
-  dosage_unit: string;
-  total_quantity: number;
-  current_quantity: number;
-  low_stock_threshold: number;
-  expiry_date: string | null;
-  is_active: boolean;
-  created_at: string;
-}
+import { router } from 'expo-router';
 
 type TabType = 'all' | 'low_stock' | 'expired';
 
+const REFILL_STATUS_COLORS: { [status in RefillStatus]: string } = {
+  requested: '#6B7280',
+  acknowledged: '#3B82F6',
+  ready: '#10B981',
+  picked_up: '#10B981',
+  cancelled: '#9CA3AF',
+};
+
 export default function CabinetScreen() {
   const { user } = useAuth();
-  const [medications, setMedications] = useState<Medication[]>([]);
-  const [filteredMedications, setFilteredMedications] = useState<Medication[]>([]);
+  const [medications, setMedications] = useState<StockedMedication[]>([]);
+  const [filteredMedications, setFilteredMedications] = useState<StockedMedication[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState<TabType>('all');
   const [showUpdateModal, setShowUpdateModal] = useState(false);
-  const [selectedMedication, setSelectedMedication] = useState<Medication | null>(null);
+  const [selectedMedication, setSelectedMedication] = useState<StockedMedication | null>(null);
   const [quantityInput, setQuantityInput] = useState('');
   const [updateMode, setUpdateMode] = useState<'add' | 'set'>('add');
+  const [lotsByMedication, setLotsByMedication] = useState<{ [medicationId: string]: StockLot[] }>({});
+  const [openRefills, setOpenRefills] = useState<RefillRequest[]>([]);
+  // Details of the pack being added
+  const [lotNumberInput, setLotNumberInput] = useState('');
+  const [lotExpiryDate, setLotExpiryDate] = useState<Date | null>(null);
+  const [showLotExpiryPicker, setShowLotExpiryPicker] = useState(false);
+  const [showPackScanner, setShowPackScanner] = useState(false);
 
   useFocusEffect(
     useCallback(() => {
@@ -54,20 +66,15 @@ export default function CabinetScreen() {
     if (!user?.id) return;
 
     try {
-      const { data, error } = await supabase
-        .from('medications')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      const medsWithQuantity = (data || []).filter(
-        (med) => med.total_quantity > 0 || med.current_quantity > 0
-      );
+      const [medsWithQuantity, lots] = await Promise.all([
+        medicationRepository.listStockedMedications(user.id),
+        stockLotService.getLotsForUser(user.id),
+      ]);
 
       setMedications(medsWithQuantity);
+      setLotsByMedication(lots);
       filterMedications(medsWithQuantity, activeTab);
+      await loadRefills(medsWithQuantity);
     } catch (error) {
       console.error('Error loading medications:', error);
       Alert.alert('Error', 'Failed to load medications');
@@ -77,8 +84,55 @@ export default function CabinetScreen() {
     }
   };
 
+  // Checks in with the pharmacy so statuses are current
+  const loadRefills = async (meds: StockedMedication[] = medications) => {
+    if (!user?.id) return;
+
+    try {
+      const names = Object.fromEntries(meds.map(med => [med.id, med.medication_name]));
+      setOpenRefills(await refillService.syncWithPharmacy(user.id, names));
+    } catch (error) {
+      console.error('Error loading refills:', error);
+    }
+  };
+
+  const handleRequestRefill = async (medication: StockedMedication) => {
+    await inventoryService.initiateRefill(medication);
+    loadRefills();
+  };
+
+  const handleRefillPickedUp = async (refill: RefillRequest) => {
+    try {
+      await refillService.markPickedUp(refill);
+      Alert.alert('✅ Stock Updated', `The refill of ${refill.quantity_requested} has been added to your cabinet.`);
+      loadMedications();
+    } catch (error) {
+      console.error('Error marking refill picked up:', error);
+      Alert.alert('Error', 'Failed to update refill');
+    }
+  };
+
+  const handleCancelRefill = (refill: RefillRequest, medicationName: string) => {
+    Alert.alert('Cancel Refill', `Cancel the refill of ${medicationName}?`, [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Cancel Refill',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await refillService.cancelRefill(refill);
+            loadRefills();
+          } catch (error) {
+            console.error('Error cancelling refill:', error);
+            Alert.alert('Error', 'Failed to cancel refill');
+          }
+        },
+      },
+    ]);
+  };
+
   // ✅ FIX: Proper tab filtering logic
-  const filterMedications = (meds: Medication[], tab: TabType) => {
+  const filterMedications = (meds: StockedMedication[], tab: TabType) => {
     let filtered = [...meds];
 
     switch (tab) {
@@ -90,13 +144,7 @@ export default function CabinetScreen() {
         break;
       case 'expired':
         // Show medications that are expired
-        filtered = meds.filter((med) => {
-          if (!med.expiry_date) return false;
-          const expiryDate = new Date(med.expiry_date);
-          const today = new Date();
-          today.setHours(0, 0, 0, 0);
-          return expiryDate < today;
-        });
+        filtered = meds.filter((med) => medicationRepository.isExpired(med));
         break;
       case 'all':
       default:
@@ -120,13 +168,50 @@ export default function CabinetScreen() {
   };
 
   // ✅ FIX: Open update modal with proper state
-  const openUpdateModal = (medication: Medication) => {
+  const openUpdateModal = (medication: StockedMedication) => {
     setSelectedMedication(medication);
     setQuantityInput('');
     setUpdateMode('add');
+    setLotNumberInput('');
+    setLotExpiryDate(null);
     setShowUpdateModal(true);
   };
 
+  // A scanned pack restocks the medication it belongs to, with its lot and expiry filled in;
+  // a pack for nothing in the cabinet opens the add-medication screen instead
+  const handlePackScanned = (scan: PackScan) => {
+    const medication = packScanService.findMedication(scan, medications);
+
+    if (!medication) {
+      Alert.alert(
+        'Not in Your Cabinet',
+        scan.product
+          ? `${scan.product.medication_name} ${scan.product.dosage}${scan.product.dosage_unit} isn't being tracked yet. Add it as a new medication?`
+          : 'This pack doesn\'t match a medication being tracked. Add it as a new medication?',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Add Medication',
+            onPress: () => router.push({ pathname: '/modal', params: { pack: JSON.stringify(scan) } }),
+          },
+        ]
+      );
+      return;
+    }
+
+    // Remember the GTIN so the next scan of this pack finds it directly
+    if (scan.gtin && !medication.gtin) {
+      medicationRepository.updateMedication(medication.id, { gtin: scan.gtin }).catch(error =>
+        console.error('Error saving pack GTIN:', error)
+      );
+    }
+
+    openUpdateModal(medication);
+    if (scan.product) setQuantityInput(String(scan.product.pack_size));
+    setLotNumberInput(scan.lotNumber || '');
+    setLotExpiryDate(scan.expiryDate ? new Date(`${scan.expiryDate}T12:00:00`) : null);
+  };
+
   // ✅ FIX: Update quantity functionality
   const handleUpdateQuantity = async () => {
     if (!selectedMedication || !quantityInput.trim()) {
@@ -141,43 +226,53 @@ export default function CabinetScreen() {
     }
 
     try {
+      const hasLots = !!lotsByMedication[selectedMedication.id]?.length;
       let newCurrentQuantity = selectedMedication.current_quantity;
 
       if (updateMode === 'add') {
-        // Add to current quantity
-        newCurrentQuantity = selectedMedication.current_quantity + quantity;
+        // Each pack added is its own lot with its own expiry, used first-expiring-first-out
+        if (!user?.id) return;
+        newCurrentQuantity = await stockLotService.addLot(user.id, selectedMedication, {
+          quantity,
+          expiry_date: lotExpiryDate ? dateTimeService.getDateString(lotExpiryDate) : null,
+          lot_number: lotNumberInput,
+        });
       } else {
         // Set as new quantity
         newCurrentQuantity = quantity;
-      }
-
-      // Don't allow exceeding total quantity
-      if (newCurrentQuantity > selectedMedication.total_quantity) {
-        Alert.alert(
-          'Warning',
-          `New quantity (${newCurrentQuantity}) exceeds total quantity (${selectedMedication.total_quantity}). Update total quantity first or enter a lower amount.`
-        );
-        return;
-      }
 
-      const { error } = await supabase
-        .from('medications')
-        .update({
-          current_quantity: newCurrentQuantity,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', selectedMedication.id);
+        // Don't allow exceeding total quantity
+        if (newCurrentQuantity > selectedMedication.total_quantity) {
+          Alert.alert(
+            'Warning',
+            `New quantity (${newCurrentQuantity}) exceeds total quantity (${selectedMedication.total_quantity}). Update total quantity first or enter a lower amount.`
+          );
+          return;
+        }
 
-      if (error) throw error;
+        if (hasLots) {
+          if (newCurrentQuantity > selectedMedication.current_quantity) {
+            Alert.alert('Add a Pack', 'To add stock to a medication with several packs, use Add to Current so the new pack keeps its own expiry.');
+            return;
+          }
+          await stockLotService.setCount(selectedMedication.id, newCurrentQuantity);
+        } else {
+          await medicationRepository.updateMedication(selectedMedication.id, {
+            current_quantity: newCurrentQuantity,
+          });
+        }
+      }
 
       Alert.alert(
         'Success',
-        `Updated ${selectedMedication.medication_name} to ${newCurrentQuantity} ${selectedMedication.dosage_unit}`
+        `Updated ${selectedMedication.medication_name} to ${newCurrentQuantity} ${doseScheduleService.getPackageUnit(selectedMedication)}`
       );
 
       setShowUpdateModal(false);
       setSelectedMedication(null);
       setQuantityInput('');
+      setLotNumberInput('');
+      setLotExpiryDate(null);
       loadMedications();
     } catch (error) {
       console.error('Error updating quantity:', error);
@@ -185,7 +280,30 @@ export default function CabinetScreen() {
     }
   };
 
-  const getStockStatus = (medication: Medication) => {
+  const handleDisposeLot = (medication: StockedMedication, lot: StockLot) => {
+    Alert.alert(
+      'Dispose of Pack',
+      `Remove ${lot.quantity} ${doseScheduleService.getPackageUnit(medication)} of ${medication.medication_name}${lot.lot_number ? ` (lot ${lot.lot_number})` : ''} from your cabinet?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Dispose',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await stockLotService.disposeLot(lot);
+              loadMedications();
+            } catch (error) {
+              console.error('Error disposing of lot:', error);
+              Alert.alert('Error', 'Failed to dispose of pack');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const getStockStatus = (medication: StockedMedication) => {
     const percentage = (medication.current_quantity / medication.total_quantity) * 100;
     
     if (medication.current_quantity === 0) {
@@ -199,22 +317,9 @@ export default function CabinetScreen() {
     }
   };
 
-  const isExpired = (expiryDate: string | null) => {
-    if (!expiryDate) return false;
-    const expiry = new Date(expiryDate);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    return expiry < today;
-  };
-
-  const getDaysUntilExpiry = (expiryDate: string | null) => {
+  const getDaysUntilExpiry = (expiryDate?: string | null) => {
     if (!expiryDate) return null;
-    const expiry = new Date(expiryDate);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const diffTime = expiry.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    return diffDays;
+    return dateTimeService.getDaysBetween(dateTimeService.getDateString(), expiryDate);
   };
 
   const renderTabButton = (tab: TabType, title: string, icon: string) => (
@@ -242,18 +347,24 @@ export default function CabinetScreen() {
       {tab === 'expired' && (
         <View style={[styles.badge, { backgroundColor: '#EF4444' }]}>
           <Text style={styles.badgeText}>
-            {medications.filter(m => m.expiry_date && isExpired(m.expiry_date)).length}
+            {medications.filter(m => medicationRepository.isExpired(m)).length}
           </Text>
         </View>
       )}
     </Pressable>
   );
 
-  const renderMedicationCard = (medication: Medication) => {
+  const renderMedicationCard = (medication: StockedMedication) => {
     const stockStatus = getStockStatus(medication);
-    const expired = isExpired(medication.expiry_date);
+    const expired = medicationRepository.isExpired(medication);
     const daysUntilExpiry = getDaysUntilExpiry(medication.expiry_date);
     const percentage = (medication.current_quantity / medication.total_quantity) * 100;
+    const packageUnit = doseScheduleService.getPackageUnit(medication);
+    const lots = lotsByMedication[medication.id] || [];
+    // Runout at the actual consumption; as-needed medications have none to forecast
+    const daysOfStock = doseScheduleService.getDailyConsumption(medication, dateTimeService.getDateString()) > 0
+      ? inventoryService.getDaysOfStock(medication)
+      : null;
 
     return (
       <View key={medication.id} style={styles.medicationCard}>
@@ -284,9 +395,50 @@ export default function CabinetScreen() {
             />
           </View>
           <Text style={styles.progressText}>
-            {medication.current_quantity} / {medication.total_quantity}
+            {medication.current_quantity} / {medication.total_quantity} {packageUnit}
           </Text>
         </View>
+        {daysOfStock !== null && (
+          <Text style={styles.runoutText}>
+            ~{daysOfStock} day{daysOfStock === 1 ? '' : 's'} left at{' '}
+            {doseScheduleService.getUnitsPerDose(medication, dateTimeService.getDateString())} {packageUnit} per dose
+          </Text>
+        )}
+
+        {/* Per-pack breakdown, in the order doses use them */}
+        {lots.length > 0 && (
+          <View style={styles.lotList}>
+            {lots.map((lot, index) => {
+              const lotExpired = stockLotService.isLotExpired(lot);
+              return (
+                <View key={lot.id} style={styles.lotRow}>
+                  <Ionicons
+                    name={lotExpired ? 'warning' : index === 0 ? 'arrow-forward-circle' : 'cube-outline'}
+                    size={16}
+                    color={lotExpired ? '#EF4444' : index === 0 ? '#6366F1' : '#9CA3AF'}
+                  />
+                  <View style={styles.lotInfo}>
+                    <Text style={styles.lotTitle}>
+                      {lot.quantity} {packageUnit}
+                      {lot.lot_number ? ` · Lot ${lot.lot_number}` : ''}
+                      {lot.opened_at ? ' · Opened' : ''}
+                    </Text>
+                    <Text style={[styles.lotExpiry, lotExpired && styles.expiredText]}>
+                      {lot.expiry_date
+                        ? `${lotExpired ? 'Expired' : 'Expires'} ${new Date(`${lot.expiry_date.split('T')[0]}T12:00:00`).toLocaleDateString()}`
+                        : 'No expiry date'}
+                    </Text>
+                  </View>
+                  {lotExpired && (
+                    <Pressable style={styles.lotDisposeButton} onPress={() => handleDisposeLot(medication, lot)}>
+                      <Text style={styles.lotDisposeText}>Dispose</Text>
+                    </Pressable>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        )}
 
         {/* Expiry Info */}
         {medication.expiry_date && (
@@ -345,6 +497,10 @@ export default function CabinetScreen() {
                       text: 'Update Now',
                       onPress: () => openUpdateModal(medication),
                     },
+                    {
+                      text: 'Request Refill',
+                      onPress: () => handleRequestRefill(medication),
+                    },
                   ]
                 )
               }
@@ -363,6 +519,36 @@ export default function CabinetScreen() {
     );
   };
 
+  const renderRefill = (refill: RefillRequest) => {
+    const medication = medications.find(med => med.id === refill.medication_id);
+    const medicationName = medication?.medication_name || 'Medication';
+    const packageUnit = medication ? doseScheduleService.getPackageUnit(medication) : 'tablets';
+
+    return (
+      <View key={refill.id} style={styles.refillRow}>
+        <View style={styles.refillInfo}>
+          <Text style={styles.refillName}>{medicationName}</Text>
+          <Text style={styles.refillDetails}>
+            {refill.quantity_requested} {packageUnit} · {refill.pharmacy_name || 'Not sent yet'}
+          </Text>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: REFILL_STATUS_COLORS[refill.status] }]}>
+          <Text style={styles.statusText}>{REFILL_STATUS_LABELS[refill.status]}</Text>
+        </View>
+        <View style={styles.refillActions}>
+          {refill.status === 'ready' && (
+            <Pressable style={styles.refillPickupButton} onPress={() => handleRefillPickedUp(refill)}>
+              <Text style={styles.refillPickupText}>Picked Up</Text>
+            </Pressable>
+          )}
+          <Pressable onPress={() => handleCancelRefill(refill, medicationName)}>
+            <Ionicons name="close-circle-outline" size={22} color="#9CA3AF" />
+          </Pressable>
+        </View>
+      </View>
+    );
+  };
+
   if (loading) {
     return (
       <View style={styles.container}>
@@ -380,8 +566,20 @@ export default function CabinetScreen() {
   return (
     <View style={styles.container}>
       <LinearGradient colors={['#667EEA', '#764BA2']} style={styles.header}>
-        <Text style={styles.headerTitle}>Medicine Cabinet</Text>
-        <Text style={styles.headerSubtitle}>Track your medication inventory</Text>
+        <View style={styles.headerRow}>
+          <View>
+            <Text style={styles.headerTitle}>Medicine Cabinet</Text>
+            <Text style={styles.headerSubtitle}>Track your medication inventory</Text>
+          </View>
+          <View style={styles.headerActions}>
+            <Pressable style={styles.calendarButton} onPress={() => setShowPackScanner(true)}>
+              <Ionicons name="barcode-outline" size={22} color="white" />
+            </Pressable>
+            <Pressable style={styles.calendarButton} onPress={() => router.push('/refill-calendar')}>
+              <Ionicons name="calendar" size={22} color="white" />
+            </Pressable>
+          </View>
+        </View>
       </LinearGradient>
 
       {/* ✅ FIX: Tabs with proper filtering */}
@@ -399,6 +597,13 @@ export default function CabinetScreen() {
         }
         contentContainerStyle={styles.scrollContent}
       >
+        {openRefills.length > 0 && (
+          <View style={styles.refillCard}>
+            <Text style={styles.refillTitle}>🚚 Open Refills</Text>
+            {openRefills.map(renderRefill)}
+          </View>
+        )}
+
         {filteredMedications.length === 0 ? (
           <View style={styles.emptyState}>
             <Ionicons
@@ -450,7 +655,7 @@ export default function CabinetScreen() {
               </View>
               <View style={styles.summaryItem}>
                 <Text style={[styles.summaryValue, { color: '#EF4444' }]}>
-                  {medications.filter(m => m.expiry_date && isExpired(m.expiry_date)).length}
+                  {medications.filter(m => medicationRepository.isExpired(m)).length}
                 </Text>
                 <Text style={styles.summaryLabel}>Expired</Text>
               </View>
@@ -483,7 +688,7 @@ export default function CabinetScreen() {
                   <Text style={styles.modalMedName}>{selectedMedication.medication_name}</Text>
                   <Text style={styles.modalMedDosage}>
                     Current: {selectedMedication.current_quantity} / {selectedMedication.total_quantity}{' '}
-                    {selectedMedication.dosage_unit}
+                    {doseScheduleService.getPackageUnit(selectedMedication)}
                   </Text>
                 </View>
 
@@ -521,11 +726,48 @@ export default function CabinetScreen() {
                   {updateMode === 'add' && quantityInput && (
                     <Text style={styles.resultPreview}>
                       New total: {selectedMedication.current_quantity + parseInt(quantityInput || '0')}{' '}
-                      {selectedMedication.dosage_unit}
+                      {doseScheduleService.getPackageUnit(selectedMedication)}
                     </Text>
                   )}
                 </View>
 
+                {updateMode === 'add' && (
+                  <>
+                    <View style={styles.inputGroup}>
+                      <Text style={styles.inputLabel}>Lot Number (optional)</Text>
+                      <TextInput
+                        style={styles.quantityInput}
+                        value={lotNumberInput}
+                        onChangeText={setLotNumberInput}
+                        placeholder="Printed on the pack"
+                        autoCapitalize="characters"
+                        placeholderTextColor="#9CA3AF"
+                      />
+                    </View>
+
+                    <View style={styles.inputGroup}>
+                      <Text style={styles.inputLabel}>Pack Expiry (optional)</Text>
+                      <Pressable style={styles.lotExpiryButton} onPress={() => setShowLotExpiryPicker(true)}>
+                        <Ionicons name="calendar-outline" size={18} color="#6B7280" />
+                        <Text style={styles.lotExpiryButtonText}>
+                          {lotExpiryDate ? lotExpiryDate.toLocaleDateString() : 'Choose a date'}
+                        </Text>
+                      </Pressable>
+                      {showLotExpiryPicker && (
+                        <DateTimePicker
+                          value={lotExpiryDate || new Date()}
+                          mode="date"
+                          display="default"
+                          onChange={(event, date) => {
+                            setShowLotExpiryPicker(false);
+                            if (date) setLotExpiryDate(date);
+                          }}
+                        />
+                      )}
+                    </View>
+                  </>
+                )}
+
                 <Pressable style={styles.updateButton} onPress={handleUpdateQuantity}>
                   <LinearGradient colors={['#10B981', '#059669']} style={styles.updateButtonGradient}>
                     <Ionicons name="checkmark-circle" size={20} color="white" />
@@ -537,6 +779,12 @@ export default function CabinetScreen() {
           </View>
         </View>
       </Modal>
+
+      <PackScanner
+        visible={showPackScanner}
+        onClose={() => setShowPackScanner(false)}
+        onScanned={handlePackScanned}
+      />
     </View>
   );
 }
@@ -551,6 +799,20 @@ const styles = StyleSheet.create({
     paddingBottom: 30,
     paddingHorizontal: 20,
   },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  calendarButton: {
+    padding: 10,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
   headerTitle: {
     fontSize: 28,
     fontWeight: '700',
@@ -686,6 +948,58 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     fontWeight: '600',
   },
+  lotList: {
+    marginBottom: 12,
+    gap: 8,
+  },
+  lotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  lotInfo: {
+    flex: 1,
+  },
+  lotTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  lotExpiry: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  lotDisposeButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+    backgroundColor: '#FEE2E2',
+  },
+  lotDisposeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  lotExpiryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 12,
+    padding: 16,
+    backgroundColor: 'white',
+  },
+  lotExpiryButtonText: {
+    fontSize: 16,
+    color: '#374151',
+  },
+  runoutText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: -6,
+    marginBottom: 12,
+  },
   expiryInfo: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -742,6 +1056,56 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingHorizontal: 40,
   },
+  refillCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    gap: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  refillTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  refillRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  refillInfo: {
+    flex: 1,
+  },
+  refillName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  refillDetails: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  refillActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  refillPickupButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#D1FAE5',
+  },
+  refillPickupText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#059669',
+  },
   summaryCard: {
     backgroundColor: 'white',
     borderRadius: 16,
@@ -12,17 +12,27 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { router, useFocusEffect } from 'expo-router';
-import { supabase, DatabaseMedication, formatDate } from '../../services/supabaseClient';
+import { supabase, DatabaseMedication, DatabaseMedicationLog, formatDate } from '../../services/supabaseClient';
 import MedicationCard from '../../components/MedicationCard';
 import AIChatHead from '../../components/AIChatHead';
+import AsNeededCard from '../../components/AsNeededCard';
 import { useAuth } from '../../contexts/AuthContext';
 import { useProfile } from '../../contexts/ProfileContext';
 import { 
-  inventoryService, 
   missedDoseService,
   disposalService 
 } from '../../services/medicationEnhancedService';
 import { caregiverService } from '../../services/caregiverService';
+import { analyticsService } from '../../services/analyticsService';
+import { doseLogService } from '../../services/doseLogService';
+import { dateTimeService } from '../../services/dateTimeService';
+import { travelService } from '../../services/travelService';
+import { courseService } from '../../services/courseService';
+import { snoozeService } from '../../services/snoozeService';
+import { medicationRepository } from '../../services/medicationRepository';
+import { escalationService } from '../../services/escalationService';
+import { runoutForecastService } from '../../services/runoutForecastService';
+import { doseScheduleService, DoseRef } from '../../services/doseScheduleService';
 
 interface MedicationStatus {
   taken: boolean;
@@ -31,31 +41,61 @@ interface MedicationStatus {
   status: 'taken' | 'skipped' | 'missed' | null;
 }
 
-const getPhilippineDateString = (): string => {
-  const now = new Date();
-  const phTime = new Date(now.getTime() + (8 * 60 * 60 * 1000));
-  const year = phTime.getUTCFullYear();
-  const month = String(phTime.getUTCMonth() + 1).padStart(2, '0');
-  const day = String(phTime.getUTCDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
+// One scheduled dose of a medication on today's list
+interface TodayDose extends DoseRef {
+  key: string;
+  medication: DatabaseMedication;
+  totalDoses: number;
+  phaseLabel?: string; // Taper/titration step, e.g. "Step 2 of 3"
+}
+
+const EMPTY_STATUS: MedicationStatus = { taken: false, skipped: false, missed: false, status: null };
+
+// Expand medications into today's dose slots, ordered by scheduled time
+const buildTodayDoses = (medications: DatabaseMedication[], date: string): TodayDose[] => {
+  const doses: TodayDose[] = [];
+
+  medications.forEach(med => {
+    const medDoses = doseScheduleService.getDosesForDate(med, date);
+    // Show the dose and frequency of the taper step in effect today
+    const regimen = doseScheduleService.getRegimenForDate(med, date);
+    const medicationForToday = {
+      ...med,
+      dosage: regimen.dosage,
+      dosage_unit: regimen.dosage_unit,
+      frequency: regimen.frequency,
+    };
+
+    medDoses.forEach(dose => {
+      doses.push({
+        ...dose,
+        key: doseLogService.getDoseKey(med.id, dose.doseIndex),
+        medication: medicationForToday,
+        totalDoses: medDoses.length,
+        phaseLabel: regimen.phaseIndex !== null ? `Step ${regimen.phaseIndex + 1} of ${regimen.totalPhases}` : undefined,
+      });
+    });
+  });
+
+  return doses.sort((a, b) => {
+    if (a.scheduledTime === b.scheduledTime) return 0;
+    if (a.scheduledTime === null) return 1;
+    if (b.scheduledTime === null) return -1;
+    return a.scheduledTime.localeCompare(b.scheduledTime);
+  });
 };
 
-const hasMedicationTimePassed = (reminderTime: string): boolean => {
-  const now = new Date();
-  const phTime = new Date(now.getTime() + (8 * 60 * 60 * 1000));
-  
-  const [reminderHour, reminderMinute] = reminderTime.split(':').map(Number);
-  const currentHour = phTime.getUTCHours();
-  const currentMinute = phTime.getUTCMinutes();
-  
-  if (currentHour > reminderHour) return true;
-  if (currentHour === reminderHour && currentMinute >= reminderMinute) return true;
-  
-  return false;
+const getDoseLabel = (dose: TodayDose): string | undefined => {
+  const labels = [
+    dose.phaseLabel,
+    doseScheduleService.isRolling(dose.medication) ? 'Timed from last dose' : undefined,
+    dose.totalDoses > 1 ? `Dose ${dose.doseIndex + 1} of ${dose.totalDoses}` : undefined,
+  ].filter(Boolean);
+  return labels.length > 0 ? labels.join(' • ') : undefined;
 };
 
 export default function HomeScreen() {
-  const [todaysMedications, setTodaysMedications] = useState<DatabaseMedication[]>([]);
+  const [todaysDoses, setTodaysDoses] = useState<TodayDose[]>([]);
   const [medicationLogs, setMedicationLogs] = useState<{[key: string]: MedicationStatus}>({});
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -102,13 +142,16 @@ export default function HomeScreen() {
           setSelectedPatient(patientsList[0]);
           await loadPatientData(patientsList[0].id);
         }
+        showCaregiverAlerts();
       } else {
         setIsCaregiver(false);
+        await checkCompletedCourses();
         await loadTodaysMedications();
-        await loadStats();
         await loadAICompanionStatus();
         checkExpiredMedications();
-        checkLowStockMedications();
+        scheduleRefillReminders();
+        travelService.promptIfTravelling(CURRENT_USER_ID);
+        snoozeService.promptIfWaitingForHome();
       }
     } catch (error) {
       console.error('Error loading user data:', error);
@@ -117,179 +160,38 @@ export default function HomeScreen() {
     }
   };
 
-  // ✅ FIX: Load patient data with robust filtering
+  // A patient's medications and today's logs, read through their caregiver connection
   const loadPatientData = async (patientId: string) => {
     try {
-      const meds = await caregiverService.getPatientMedications(CURRENT_USER_ID, patientId);
-      
-      // ✅ FIX: Robust filtering to prevent undefined errors
-      const validMeds = (meds || []).filter(med => {
-        // Check if medication exists and has required fields
-        if (!med || typeof med !== 'object') {
-          console.warn('⚠️ Invalid medication object:', med);
-          return false;
-        }
-        
-        if (!med.id) {
-          console.warn('⚠️ Medication missing ID:', med);
-          return false;
-        }
-        
-        if (!med.medication_name) {
-          console.warn('⚠️ Medication missing name:', med);
-          return false;
-        }
-        
-        return true;
-      });
-      
-      console.log(`✅ Loaded ${validMeds.length} valid medications for patient`);
-      
-      setTodaysMedications(validMeds);
-      await loadPatientLogs(patientId, validMeds);
-      await loadPatientStats(patientId);
-    } catch (error) {
-      console.error('Error loading patient data:', error);
-      Alert.alert('Error', 'Failed to load patient medications');
-    }
-  };
-
-  // Load patient logs
-  const loadPatientLogs = async (patientId: string, medications: DatabaseMedication[]) => {
-    try {
-      const today = getPhilippineDateString();
-      
-      const { data: logs, error } = await supabase
-        .from('medication_logs')
-        .select('medication_id, status')
-        .eq('user_id', patientId)
-        .eq('log_date', today);
-
-      if (error) throw error;
-
-      const logMap: {[key: string]: MedicationStatus} = {};
-      
-      medications.forEach(med => {
-        logMap[med.id] = {
-          taken: false,
-          skipped: false,
-          missed: false,
-          status: null
-        };
-      });
-      
-      logs?.forEach(log => {
-        if (logMap[log.medication_id]) {
-          logMap[log.medication_id] = {
-            taken: log.status === 'taken',
-            skipped: log.status === 'skipped',
-            missed: log.status === 'missed',
-            status: log.status as 'taken' | 'skipped' | 'missed'
-          };
-        }
-      });
-      
-      setMedicationLogs(logMap);
-    } catch (error) {
-      console.error('Error loading patient logs:', error);
-    }
-  };
-
-  // Load patient stats
-  const loadPatientStats = async (patientId: string) => {
-    try {
-      const today = getPhilippineDateString();
-      
-      const { data: logs, error } = await supabase
-        .from('medication_logs')
-        .select('status')
-        .eq('user_id', patientId)
-        .eq('log_date', today);
-
-      if (error) throw error;
-
-      const taken = logs?.filter(log => log.status === 'taken').length || 0;
-      const missed = logs?.filter(log => log.status === 'missed').length || 0;
-      const total = todaysMedications.length;
-      const logged = logs?.length || 0;
-      const pending = Math.max(0, total - logged);
-      
-      setStats({
-        taken,
-        pending,
-        missed,
-        total,
-      });
-
-      await loadPatientStreak(patientId);
-    } catch (error) {
-      console.error('Error loading patient stats:', error);
-    }
-  };
-
-  // Load patient streak
-  const loadPatientStreak = async (patientId: string) => {
-    try {
-      const { data: medications } = await supabase
-        .from('medications')
-        .select('id')
-        .eq('user_id', patientId)
-        .eq('is_active', true);
-
-      const activeMedsCount = medications?.length || 0;
-      if (activeMedsCount === 0) {
-        setStreak(0);
+      const view = await medicationRepository.getPatientView(CURRENT_USER_ID, patientId);
+      if (!view) {
+        setTodaysDoses([]);
         return;
       }
 
-      let streakCount = 0;
-      let checkDate = new Date();
-
-      for (let i = 0; i < 30; i++) {
-        const phTime = new Date(checkDate.getTime() + (8 * 60 * 60 * 1000));
-        const year = phTime.getUTCFullYear();
-        const month = String(phTime.getUTCMonth() + 1).padStart(2, '0');
-        const day = String(phTime.getUTCDate()).padStart(2, '0');
-        const dateStr = `${year}-${month}-${day}`;
-
-        const { data: logs } = await supabase
-          .from('medication_logs')
-          .select('status')
-          .eq('user_id', patientId)
-          .eq('log_date', dateStr)
-          .eq('status', 'taken');
-
-        const takenCount = logs?.length || 0;
-        
-        if (takenCount >= activeMedsCount) {
-          streakCount++;
-        } else {
-          break;
-        }
-
-        checkDate.setDate(checkDate.getDate() - 1);
-      }
-
-      setStreak(streakCount);
+      console.log(`✅ Loaded ${view.medications.length} valid medications for patient`);
+      
+      const doses = buildTodayDoses(view.medications, dateTimeService.getDateString());
+      setTodaysDoses(doses);
+      await loadDoseLogs(patientId, doses, view.logs);
     } catch (error) {
-      console.error('Error calculating patient streak:', error);
-      setStreak(0);
+      console.error('Error loading patient data:', error);
+      Alert.alert('Error', 'Failed to load patient medications');
     }
   };
 
   useEffect(() => {
     if (!isCaregiver) {
       loadTodaysMedications();
-      loadStats();
       loadAICompanionStatus();
 
+      checkExpiredMedications();
+      scheduleRefillReminders();
+
       const missedCheckInterval = setInterval(() => {
         checkAndMarkMissedMedications();
       }, 60000);
 
-      checkExpiredMedications();
-      checkLowStockMedications();
-
       return () => clearInterval(missedCheckInterval);
     }
   }, [isCaregiver]);
@@ -299,9 +201,29 @@ export default function HomeScreen() {
     await disposalService.alertExpiredMedications(CURRENT_USER_ID);
   };
 
-  const checkLowStockMedications = async () => {
+  // Missed doses reported by patients since the caregiver last looked
+  const showCaregiverAlerts = async () => {
+    const alerts = await caregiverService.getUnreadAlerts(CURRENT_USER_ID);
+    if (alerts.length === 0) return;
+
+    Alert.alert(
+      alerts.length === 1 ? '🚨 Missed Dose' : `🚨 ${alerts.length} Missed Doses`,
+      alerts.map(alert => alert.message).join('\n\n'),
+      [{ text: 'OK', onPress: () => caregiverService.markAlertsRead(alerts.map(alert => alert.id)) }]
+    );
+  };
+
+  // Retire medications whose course has ended before building today's list
+  const checkCompletedCourses = async () => {
+    if (!CURRENT_USER_ID) return;
+    const summaries = await courseService.completeFinishedCourses(CURRENT_USER_ID);
+    courseService.showCompletedCourses(summaries);
+  };
+
+  // Queues one refill reminder per medication ahead of its forecast runout, instead of a popup
+  const scheduleRefillReminders = async () => {
     if (!CURRENT_USER_ID) return;
-    await inventoryService.checkRefillAlerts(CURRENT_USER_ID);
+    await runoutForecastService.scheduleRunoutReminders(CURRENT_USER_ID);
   };
 
   const loadAICompanionStatus = async () => {
@@ -319,243 +241,112 @@ export default function HomeScreen() {
     }
   };
 
-  // ✅ FIX: Load own medications with robust filtering
+  // Own active medications; falls back to the copy saved on this device when offline
   const loadTodaysMedications = async () => {
     try {
-      const { data, error } = await supabase
-        .from('medications')
-        .select('*')
-        .eq('is_active', true)
-        .eq('user_id', CURRENT_USER_ID)
-        .order('reminder_time', { ascending: true });
-
-      if (error) throw error;
-
-      // ✅ FIX: Robust filtering to prevent undefined errors
-      const validMeds = (data || []).filter(med => {
-        if (!med || typeof med !== 'object') {
-          console.warn('⚠️ Invalid medication object:', med);
-          return false;
-        }
-        
-        if (!med.id) {
-          console.warn('⚠️ Medication missing ID:', med);
-          return false;
-        }
-        
-        if (!med.medication_name) {
-          console.warn('⚠️ Medication missing name:', med);
-          return false;
-        }
-        
-        return true;
-      });
+      const validMeds = await medicationRepository.listActiveMedications(CURRENT_USER_ID);
 
-      console.log(`✅ Loaded ${validMeds.length} valid medications`);
+      const doses = buildTodayDoses(validMeds, dateTimeService.getDateString());
+      console.log(`✅ Loaded ${validMeds.length} valid medications (${doses.length} doses today)`);
 
-      setTodaysMedications(validMeds);
-      await loadTodayLogs(validMeds);
+      setTodaysDoses(doses);
+      await loadDoseLogs(CURRENT_USER_ID, doses);
       
     } catch (error) {
       console.error('Error loading medications:', error);
-      setTodaysMedications([]);
+      setTodaysDoses([]);
     } finally {
       setLoading(false);
       setRefreshing(false);
     }
   };
 
-  const loadTodayLogs = async (medications: DatabaseMedication[]) => {
+  // Load today's per-dose logs for the viewed user, unless already loaded, then refresh stats
+  const loadDoseLogs = async (userId: string, doses: TodayDose[], loadedLogs?: { [doseKey: string]: DatabaseMedicationLog }) => {
     try {
-      const today = getPhilippineDateString();
-      
-      const { data: logs, error } = await supabase
-        .from('medication_logs')
-        .select('medication_id, status')
-        .eq('user_id', CURRENT_USER_ID)
-        .eq('log_date', today);
-
-      if (error) throw error;
+      const today = dateTimeService.getDateString();
+      const logs = loadedLogs || await medicationRepository.getLogsForDate(userId, today);
 
       const logMap: {[key: string]: MedicationStatus} = {};
       
-      medications.forEach(med => {
-        logMap[med.id] = {
-          taken: false,
-          skipped: false,
-          missed: false,
-          status: null
-        };
-      });
-      
-      logs?.forEach(log => {
-        if (logMap[log.medication_id]) {
-          logMap[log.medication_id] = {
-            taken: log.status === 'taken',
-            skipped: log.status === 'skipped',
-            missed: log.status === 'missed',
-            status: log.status as 'taken' | 'skipped' | 'missed'
-          };
-        }
+      doses.forEach(dose => {
+        const log = logs[dose.key];
+        logMap[dose.key] = log
+          ? {
+              taken: log.status === 'taken',
+              skipped: log.status === 'skipped',
+              missed: log.status === 'missed',
+              status: log.status,
+            }
+          : EMPTY_STATUS;
       });
       
       setMedicationLogs(logMap);
+      updateStats(doses, logMap);
+      setStreak(await analyticsService.getCurrentStreak(userId));
     } catch (error) {
       console.error('Error loading logs:', error);
     }
   };
 
+  // Count scheduled doses only; as-needed doses never count as pending
+  const updateStats = (doses: TodayDose[], logMap: {[key: string]: MedicationStatus}) => {
+    const scheduled = doses.filter(dose => dose.scheduledTime !== null);
+    const statuses = scheduled.map(dose => logMap[dose.key]?.status || null);
+
+    const taken = statuses.filter(status => status === 'taken').length;
+    const missed = statuses.filter(status => status === 'missed').length;
+    const logged = statuses.filter(status => status !== null).length;
+
+    setStats({
+      taken,
+      pending: Math.max(0, scheduled.length - logged),
+      missed,
+      total: scheduled.length,
+    });
+  };
+
   const checkAndMarkMissedMedications = async () => {
     if (!CURRENT_USER_ID || isCaregiver) return;
 
     try {
-      const today = getPhilippineDateString();
-      
-      for (const med of todaysMedications) {
-        if (medicationLogs[med.id]?.status) continue;
-        
-        if (hasMedicationTimePassed(med.reminder_time)) {
-          const [reminderHour, reminderMinute] = med.reminder_time.split(':').map(Number);
-          const now = new Date();
-          const phTime = new Date(now.getTime() + (8 * 60 * 60 * 1000));
-          const currentHour = phTime.getUTCHours();
-          const currentMinute = phTime.getUTCMinutes();
-          
-          const reminderTimeInMinutes = reminderHour * 60 + reminderMinute;
-          const currentTimeInMinutes = currentHour * 60 + currentMinute;
-          const timeDifference = currentTimeInMinutes - reminderTimeInMinutes;
-          
-          if (timeDifference >= 60) {
-            const { data: existingLog } = await supabase
-              .from('medication_logs')
-              .select('id')
-              .eq('medication_id', med.id)
-              .eq('user_id', CURRENT_USER_ID)
-              .eq('log_date', today)
-              .single();
-
-            if (!existingLog) {
-              const { error } = await supabase
-                .from('medication_logs')
-                .insert({
-                  medication_id: med.id,
-                  user_id: CURRENT_USER_ID,
-                  log_date: today,
-                  status: 'missed',
-                  logged_at: new Date().toISOString(),
-                });
-
-              if (!error) {
-                Alert.alert(
-                  '⚠️ Missed Dose',
-                  `You missed ${med.medication_name} at ${med.reminder_time}.\n\nWould you like to adjust your next reminder?`,
-                  [
-                    { text: 'No', style: 'cancel' },
-                    { 
-                      text: 'Adjust Schedule', 
-                      onPress: () => missedDoseService.adjustNextDose(med.id, med.reminder_time)
-                    }
-                  ]
-                );
-
-                setMedicationLogs(prev => ({
-                  ...prev,
-                  [med.id]: { taken: false, skipped: false, missed: true, status: 'missed' }
-                }));
-              }
-            }
-          }
-        }
-      }
-      
-      await loadStats();
-    } catch (error) {
-      console.error('Error checking missed medications:', error);
-    }
-  };
-
-  const loadStats = async () => {
-    try {
-      const today = getPhilippineDateString();
-      
-      const { data: logs, error } = await supabase
-        .from('medication_logs')
-        .select('status')
-        .eq('user_id', CURRENT_USER_ID)
-        .eq('log_date', today);
+      const today = dateTimeService.getDateString();
 
-      if (error) throw error;
+      // Read schedules and logs fresh: this runs from an interval, so screen state may be stale,
+      // and a dose logged from a notification must not be overwritten
+      const medications = await medicationRepository.listActiveMedications(CURRENT_USER_ID);
 
-      const taken = logs?.filter(log => log.status === 'taken').length || 0;
-      const missed = logs?.filter(log => log.status === 'missed').length || 0;
-      const total = todaysMedications.length;
-      const logged = logs?.length || 0;
-      const pending = Math.max(0, total - logged);
-      
-      setStats({
-        taken,
-        pending,
-        missed,
-        total,
-      });
+      const existingLogs = await medicationRepository.getLogsForDate(CURRENT_USER_ID, today);
+      const snoozedUntil = await snoozeService.getSnoozedUntil(CURRENT_USER_ID, today);
+      const overdueDoses = doseLogService.getOverdueDoses(medications, existingLogs, new Date(), snoozedUntil);
 
-      await loadCurrentStreak();
+      if (overdueDoses.length === 0) return;
       
-    } catch (error) {
-      console.error('Error loading stats:', error);
-    }
-  };
-
-  const loadCurrentStreak = async () => {
-    try {
-      const { data: medications } = await supabase
-        .from('medications')
-        .select('id')
-        .eq('user_id', CURRENT_USER_ID)
-        .eq('is_active', true);
-
-      const activeMedsCount = medications?.length || 0;
-      if (activeMedsCount === 0) {
-        setStreak(0);
-        return;
-      }
-
-      let streakCount = 0;
-      let checkDate = new Date();
-
-      for (let i = 0; i < 30; i++) {
-        const phTime = new Date(checkDate.getTime() + (8 * 60 * 60 * 1000));
-        const year = phTime.getUTCFullYear();
-        const month = String(phTime.getUTCMonth() + 1).padStart(2, '0');
-        const day = String(phTime.getUTCDate()).padStart(2, '0');
-        const dateStr = `${year}-${month}-${day}`;
-
-        const { data: logs } = await supabase
-          .from('medication_logs')
-          .select('status')
-          .eq('user_id', CURRENT_USER_ID)
-          .eq('log_date', dateStr)
-          .eq('status', 'taken');
-
-        const takenCount = logs?.length || 0;
-        
-        if (takenCount >= activeMedsCount) {
-          streakCount++;
-        } else {
-          break;
-        }
-
-        checkDate.setDate(checkDate.getDate() - 1);
+      for (const { medication: med, dose } of overdueDoses) {
+        await medicationRepository.logDose(CURRENT_USER_ID, med.id, today, dose, 'missed');
+        // The end of the escalation chain: let linked caregivers know
+        await escalationService.onDoseMarkedMissed(CURRENT_USER_ID, med, dose);
+
+        Alert.alert(
+          '⚠️ Missed Dose',
+          `You missed ${med.medication_name} at ${dose.scheduledTime}.\n\nWould you like to adjust your next reminder?`,
+          [
+            { text: 'No', style: 'cancel' },
+            { 
+              text: 'Adjust Schedule', 
+              onPress: () => missedDoseService.adjustNextDose(med.id, dose.scheduledTime!)
+            }
+          ]
+        );
       }
-
-      setStreak(streakCount);
+      
+      await loadTodaysMedications();
     } catch (error) {
-      console.error('Error calculating streak:', error);
-      setStreak(0);
+      console.error('Error checking missed medications:', error);
     }
   };
 
-  const handleTakeMedication = async (medicationId: string) => {
+  const logDoseStatus = async (dose: TodayDose, status: 'taken' | 'skipped') => {
     if (isCaregiver) {
       Alert.alert('View Only', 'Caregivers cannot log medications for patients.');
       return;
@@ -564,114 +355,30 @@ export default function HomeScreen() {
     try {
       setMedicationLogs(prev => ({ 
         ...prev, 
-        [medicationId]: { taken: true, skipped: false, missed: false, status: 'taken' } 
+        [dose.key]: {
+          taken: status === 'taken',
+          skipped: status === 'skipped',
+          missed: false,
+          status,
+        }
       }));
       
-      const today = getPhilippineDateString();
-      
-      const { data: existingLog } = await supabase
-        .from('medication_logs')
-        .select('id')
-        .eq('medication_id', medicationId)
-        .eq('user_id', CURRENT_USER_ID)
-        .eq('log_date', today)
-        .single();
-
-      if (existingLog) {
-        const { error } = await supabase
-          .from('medication_logs')
-          .update({
-            status: 'taken',
-            logged_at: new Date().toISOString(),
-          })
-          .eq('id', existingLog.id);
-
-        if (error) throw error;
-      } else {
-        const { error } = await supabase
-          .from('medication_logs')
-          .insert({
-            medication_id: medicationId,
-            user_id: CURRENT_USER_ID,
-            log_date: today,
-            status: 'taken',
-            logged_at: new Date().toISOString(),
-          });
-
-        if (error) throw error;
-      }
+      const today = dateTimeService.getDateString();
+      await medicationRepository.logDose(CURRENT_USER_ID, dose.medication.id, today, dose, status);
 
-      setTimeout(() => {
-        loadTodaysMedications();
-      }, 500);
-      
-      await loadStats();
-      
+      await loadDoseLogs(CURRENT_USER_ID, todaysDoses);
     } catch (error) {
-      console.error('Error logging medication:', error);
+      console.error(`Error logging medication as ${status}:`, error);
       setMedicationLogs(prev => ({ 
         ...prev, 
-        [medicationId]: { taken: false, skipped: false, missed: false, status: null } 
+        [dose.key]: EMPTY_STATUS
       }));
     }
   };
 
-  const handleSkipMedication = async (medicationId: string) => {
-    if (isCaregiver) {
-      Alert.alert('View Only', 'Caregivers cannot log medications for patients.');
-      return;
-    }
-
-    try {
-      setMedicationLogs(prev => ({ 
-        ...prev, 
-        [medicationId]: { taken: false, skipped: true, missed: false, status: 'skipped' } 
-      }));
-      
-      const today = getPhilippineDateString();
-      
-      const { data: existingLog } = await supabase
-        .from('medication_logs')
-        .select('id')
-        .eq('medication_id', medicationId)
-        .eq('user_id', CURRENT_USER_ID)
-        .eq('log_date', today)
-        .single();
+  const handleTakeMedication = (dose: TodayDose) => logDoseStatus(dose, 'taken');
 
-      if (existingLog) {
-        const { error } = await supabase
-          .from('medication_logs')
-          .update({
-            status: 'skipped',
-            logged_at: new Date().toISOString(),
-          })
-          .eq('id', existingLog.id);
-
-        if (error) throw error;
-      } else {
-        const { error } = await supabase
-          .from('medication_logs')
-          .insert({
-            medication_id: medicationId,
-            user_id: CURRENT_USER_ID,
-            log_date: today,
-            status: 'skipped',
-            logged_at: new Date().toISOString(),
-          });
-
-        if (error) throw error;
-      }
-      
-      await loadStats();
-      
-    } catch (error) {
-      console.error('Error skipping medication:', error);
-      setMedicationLogs(prev => ({ 
-        ...prev, 
-        [medicationId]: { taken: false, skipped: false, missed: false, status: null } 
-      }));
-    }
-  };
+  const handleSkipMedication = (dose: TodayDose) => logDoseStatus(dose, 'skipped');
 
   const onRefresh = () => {
     setRefreshing(true);
@@ -679,7 +386,6 @@ export default function HomeScreen() {
       loadPatientData(selectedPatient.id);
     } else {
       loadTodaysMedications();
-      loadStats();
       loadAICompanionStatus();
     }
     setRefreshing(false);
@@ -758,15 +464,26 @@ export default function HomeScreen() {
           <Text style={styles.sectionTitle}>
             {isCaregiver ? "Patient's Medications" : "Today's Medications"}
           </Text>
-          {todaysMedications.length > 0 ? (
-            todaysMedications.map((medication) => (
+          {todaysDoses.length > 0 ? (
+            todaysDoses.map((dose) => dose.scheduledTime === null ? (
+              // As-needed doses are logged whenever taken, within their limits
+              <AsNeededCard
+                key={dose.key}
+                medication={dose.medication}
+                userId={isCaregiver && selectedPatient ? selectedPatient.id : CURRENT_USER_ID}
+                isViewOnly={isCaregiver}
+                onLogged={() => loadDoseLogs(CURRENT_USER_ID, todaysDoses)}
+              />
+            ) : (
               <MedicationCard
-                key={medication.id}
-                medication={medication}
-                onTake={() => handleTakeMedication(medication.id)}
-                onSkip={() => handleSkipMedication(medication.id)}
-                takenToday={medicationLogs[medication.id]?.taken || false}
-                skippedToday={medicationLogs[medication.id]?.skipped || false}
+                key={dose.key}
+                medication={dose.medication}
+                doseTime={dose.scheduledTime || undefined}
+                doseLabel={getDoseLabel(dose)}
+                onTake={() => handleTakeMedication(dose)}
+                onSkip={() => handleSkipMedication(dose)}
+                takenToday={medicationLogs[dose.key]?.taken || false}
+                skippedToday={medicationLogs[dose.key]?.skipped || false}
                 isViewOnly={isCaregiver}
               />
             ))
@@ -13,11 +13,17 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { router, useFocusEffect } from 'expo-router';
-import { supabase, DatabaseMedication, formatTime } from '../../services/supabaseClient';
+import { DatabaseMedication, formatTime } from '../../services/supabaseClient';
 import { useAuth } from '../../contexts/AuthContext';
 import { useProfile } from '../../contexts/ProfileContext';
-import { notificationService } from '../../services/notificationService';
+import { notificationService, MedicationPriority, PRIORITY_OPTIONS } from '../../services/notificationService';
+import { doseScheduleService } from '../../services/doseScheduleService';
+import { prnService } from '../../services/prnService';
+import { courseService } from '../../services/courseService';
+import { dateTimeService } from '../../services/dateTimeService';
+import { reminderReconciliationService } from '../../services/reminderReconciliationService';
 import { caregiverService } from '../../services/caregiverService';
+import { medicationRepository } from '../../services/medicationRepository';
 
 export default function MedicationsScreen() {
   const { user } = useAuth();
@@ -74,33 +80,14 @@ export default function MedicationsScreen() {
     }
   };
 
-  // ✅ FIXED: Load patient medications with robust filtering
+  // A patient's medications, read through the caregiver's connection
   const loadPatientMedications = async (patientId: string) => {
     try {
-      const meds = await caregiverService.getPatientMedications(CURRENT_USER_ID, patientId);
-      
-      // ✅ FIX: Add robust filtering to prevent undefined errors
-      const validMeds = (meds || []).filter(med => {
-        if (!med || typeof med !== 'object') {
-          console.warn('⚠️ Invalid medication object:', med);
-          return false;
-        }
-        
-        if (!med.id) {
-          console.warn('⚠️ Medication missing ID:', med);
-          return false;
-        }
-        
-        if (!med.medication_name) {
-          console.warn('⚠️ Medication missing name:', med);
-          return false;
-        }
-        
-        return true;
-      });
-      
-      console.log(`✅ Loaded ${validMeds.length} valid medications for patient`);
-      setMedications(validMeds);
+      const view = await medicationRepository.getPatientView(CURRENT_USER_ID, patientId);
+      const meds = view?.medications || [];
+
+      console.log(`✅ Loaded ${meds.length} valid medications for patient`);
+      setMedications(meds);
     } catch (error) {
       console.error('Error loading patient medications:', error);
       Alert.alert('Error', 'Failed to load medications');
@@ -108,39 +95,12 @@ export default function MedicationsScreen() {
     }
   };
 
-  // ✅ FIXED: Load own medications with robust filtering
   const loadMedications = async () => {
     try {
-      const { data, error } = await supabase
-        .from('medications')
-        .select('*')
-        .eq('user_id', CURRENT_USER_ID)
-        .order('created_at', { ascending: false });
+      const meds = await medicationRepository.listMedications(CURRENT_USER_ID);
 
-      if (error) throw error;
-      
-      // ✅ FIX: Add robust filtering to prevent undefined errors
-      const validMeds = (data || []).filter(med => {
-        if (!med || typeof med !== 'object') {
-          console.warn('⚠️ Invalid medication object:', med);
-          return false;
-        }
-        
-        if (!med.id) {
-          console.warn('⚠️ Medication missing ID:', med);
-          return false;
-        }
-        
-        if (!med.medication_name) {
-          console.warn('⚠️ Medication missing name:', med);
-          return false;
-        }
-        
-        return true;
-      });
-      
-      console.log(`✅ Loaded ${validMeds.length} valid own medications`);
-      setMedications(validMeds);
+      console.log(`✅ Loaded ${meds.length} valid own medications`);
+      setMedications(meds);
     } catch (error) {
       console.error('Error loading medications:', error);
     } finally {
@@ -167,13 +127,9 @@ export default function MedicationsScreen() {
             try {
               await notificationService.cancelMedicationNotifications(id);
               
-              const { error } = await supabase
-                .from('medications')
-                .delete()
-                .eq('id', id);
-
-              if (error) throw error;
+              await medicationRepository.deleteMedication(id);
 
+              await reminderReconciliationService.reconcile(CURRENT_USER_ID);
               setMedications(medications.filter(med => med.id !== id));
               Alert.alert('Success', 'Medication deleted successfully');
             } catch (error) {
@@ -193,31 +149,22 @@ export default function MedicationsScreen() {
       return;
     }
 
-    try {
-      const newStatus = !currentStatus;
-      
-      const { error } = await supabase
-        .from('medications')
-        .update({ 
-          is_active: newStatus,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', id);
+    const newStatus = !currentStatus;
+    if (newStatus && doseScheduleService.isCourseComplete(medication, dateTimeService.getDateString())) {
+      Alert.alert(
+        'Course Ended',
+        `${medication.medication_name} ended on ${courseService.formatCourseDate(doseScheduleService.getCourseEndDate(medication)!)}. Add it again to start a new course.`
+      );
+      return;
+    }
 
-      if (error) throw error;
+    try {
+      await medicationRepository.setMedicationActive(id, newStatus);
 
-      // Update notifications
+      // Update notifications, then settle the rest of the queue
       if (newStatus) {
-        const [hour, minute] = medication.reminder_time.split(':').map(Number);
-        await notificationService.scheduleMedicationReminder(
-          id,
-          medication.medication_name,
-          medication.dosage,
-          medication.dosage_unit,
-          hour,
-          minute,
-          medication.notes || undefined
-        );
+        // Picks up the current taper step and cycle days
+        await notificationService.rescheduleMedicationReminders([medication]);
         
         Alert.alert(
           'Activated',
@@ -227,10 +174,11 @@ export default function MedicationsScreen() {
         await notificationService.cancelMedicationNotifications(id);
         Alert.alert('Paused', `${medication.medication_name} reminders have been turned off`);
       }
+      await reminderReconciliationService.reconcile(CURRENT_USER_ID);
       
       setMedications(
         medications.map(med =>
-          med.id === id ? { ...med, is_active: newStatus } : med
+          med.id === id ? { ...med, is_active: newStatus, status: newStatus ? 'active' : 'paused' } : med
         )
       );
     } catch (error) {
@@ -239,6 +187,47 @@ export default function MedicationsScreen() {
     }
   };
 
+  // Priority sets the notification channel and how quiet hours apply, so rebuild reminders after a change
+  const handleChangePriority = (medication: DatabaseMedication) => {
+    if (isCaregiver) {
+      Alert.alert('View Only', 'Caregivers can only view medications, not edit them.');
+      return;
+    }
+
+    const savePriority = async (priority: MedicationPriority) => {
+      try {
+        await medicationRepository.updateMedication(medication.id, { priority });
+
+        setMedications(medications.map(med => med.id === medication.id ? { ...med, priority } : med));
+        await reminderReconciliationService.reconcile(CURRENT_USER_ID);
+      } catch (error) {
+        console.error('Error updating medication priority:', error);
+        Alert.alert('Error', 'Failed to update reminder priority');
+      }
+    };
+
+    Alert.alert(
+      'Reminder Priority',
+      PRIORITY_OPTIONS.map(option => `${option.label}: ${option.description}`).join('\n\n'),
+      [
+        ...PRIORITY_OPTIONS.map(option => ({
+          text: option.value === (medication.priority || 'normal') ? `${option.label} ✓` : option.label,
+          onPress: () => savePriority(option.value),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const showCourseSummary = async (medication: DatabaseMedication) => {
+    const summary = await courseService.getCourseSummary(medication);
+    if (summary) {
+      courseService.showCourseSummary(summary);
+    } else {
+      Alert.alert('Error', 'Failed to load the course summary');
+    }
+  };
+
   const onRefresh = () => {
     setRefreshing(true);
     if (isCaregiver && selectedPatient) {
@@ -283,74 +272,100 @@ export default function MedicationsScreen() {
     );
   };
 
-  const renderMedicationItem = (medication: DatabaseMedication) => (
-    <View key={medication.id} style={styles.medicationItem}>
-      <LinearGradient
-        colors={medication.is_active ? ['#6366F1', '#8B5CF6'] : ['#9CA3AF', '#6B7280']}
-        style={styles.medicationCard}
-      >
-        <View style={styles.medicationHeader}>
-          <View style={styles.medicationInfo}>
-            <Text style={styles.medicationName}>{medication.medication_name}</Text>
-            <Text style={styles.medicationDetails}>
-              {medication.dosage} {medication.dosage_unit} • {medication.frequency}
-            </Text>
-            <View style={styles.timeRow}>
-              <Ionicons name="notifications-outline" size={14} color="rgba(255,255,255,0.8)" />
-              <Text style={styles.medicationTime}>
-                {formatTime(medication.reminder_time)}
+  const renderMedicationItem = (medication: DatabaseMedication) => {
+    const completed = medication.status === 'completed';
+
+    return (
+      <View key={medication.id} style={styles.medicationItem}>
+        <LinearGradient
+          colors={medication.is_active ? ['#6366F1', '#8B5CF6'] : completed ? ['#0EA5E9', '#0284C7'] : ['#9CA3AF', '#6B7280']}
+          style={styles.medicationCard}
+        >
+          <View style={styles.medicationHeader}>
+            <View style={styles.medicationInfo}>
+              <Text style={styles.medicationName}>{medication.medication_name}</Text>
+              <Text style={styles.medicationDetails}>
+                {medication.dosage} {medication.dosage_unit} • {[medication.frequency, doseScheduleService.isRolling(medication) ? 'from last dose' : null, doseScheduleService.describeWeekdays(medication), doseScheduleService.describeCycle(medication), prnService.describeLimits(medication), medication.is_active ? courseService.describeCourseEnd(medication) : null, medication.priority && medication.priority !== 'normal' ? `${PRIORITY_OPTIONS.find(option => option.value === medication.priority)?.label} priority` : null].filter(Boolean).join(' • ')}
               </Text>
+              <View style={styles.timeRow}>
+                <Ionicons name="notifications-outline" size={14} color="rgba(255,255,255,0.8)" />
+                <Text style={styles.medicationTime}>
+                  {formatTime(medication.reminder_time)}
+                </Text>
+              </View>
             </View>
+            
+            {/* ✅ ONLY SHOW CONTROLS FOR PATIENTS */}
+            {!isCaregiver && (
+              <View style={styles.medicationActions}>
+                {completed ? (
+                  <Pressable
+                    style={styles.actionButton}
+                    onPress={() => showCourseSummary(medication)}
+                  >
+                    <Ionicons name="ribbon-outline" size={20} color="white" />
+                  </Pressable>
+                ) : (
+                  <Switch
+                    value={medication.is_active}
+                    onValueChange={() => toggleMedicationStatus(medication.id, medication.is_active, medication)}
+                    trackColor={{ false: 'rgba(255,255,255,0.3)', true: '#10B981' }}
+                    thumbColor="white"
+                  />
+                )}
+
+                {!completed && !doseScheduleService.isAsNeeded(medication) && (
+                  <Pressable
+                    style={styles.actionButton}
+                    onPress={() => handleChangePriority(medication)}
+                  >
+                    <Ionicons name={medication.priority === 'critical' ? 'flag' : 'flag-outline'} size={20} color="white" />
+                  </Pressable>
+                )}
+                
+                <Pressable
+                  style={[styles.actionButton, styles.deleteButton]}
+                  onPress={() => handleDeleteMedication(medication.id, medication.medication_name)}
+                >
+                  <Ionicons name="trash-outline" size={20} color="white" />
+                </Pressable>
+              </View>
+            )}
           </View>
-          
-          {/* ✅ ONLY SHOW CONTROLS FOR PATIENTS */}
-          {!isCaregiver && (
-            <View style={styles.medicationActions}>
-              <Switch
-                value={medication.is_active}
-                onValueChange={() => toggleMedicationStatus(medication.id, medication.is_active, medication)}
-                trackColor={{ false: 'rgba(255,255,255,0.3)', true: '#10B981' }}
-                thumbColor="white"
-              />
-              
-              <Pressable
-                style={[styles.actionButton, styles.deleteButton]}
-                onPress={() => handleDeleteMedication(medication.id, medication.medication_name)}
-              >
-                <Ionicons name="trash-outline" size={20} color="white" />
-              </Pressable>
+
+          {medication.notes && (
+            <View style={styles.notesContainer}>
+              <Ionicons name="document-text-outline" size={16} color="rgba(255,255,255,0.8)" />
+              <Text style={styles.notes}>{medication.notes}</Text>
             </View>
           )}
-        </View>
 
-        {medication.notes && (
-          <View style={styles.notesContainer}>
-            <Ionicons name="document-text-outline" size={16} color="rgba(255,255,255,0.8)" />
-            <Text style={styles.notes}>{medication.notes}</Text>
-          </View>
-        )}
-
-        <View style={styles.statusContainer}>
-          <View style={[
-            styles.statusBadge,
-            { backgroundColor: medication.is_active ? '#10B981' : '#6B7280' }
-          ]}>
-            <Ionicons 
-              name={medication.is_active ? "notifications" : "notifications-off"} 
-              size={12} 
-              color="white" 
-            />
-            <Text style={styles.statusText}>
-              {medication.is_active ? 'Active • Reminders On' : 'Paused • Reminders Off'}
+          <View style={styles.statusContainer}>
+            <View style={[
+              styles.statusBadge,
+              { backgroundColor: medication.is_active ? '#10B981' : completed ? '#0369A1' : '#6B7280' }
+            ]}>
+              <Ionicons 
+                name={medication.is_active ? "notifications" : completed ? "checkmark-done" : "notifications-off"} 
+                size={12} 
+                color="white" 
+              />
+              <Text style={styles.statusText}>
+                {medication.is_active
+                  ? 'Active • Reminders On'
+                  : completed
+                    ? `Course Completed${medication.completed_at ? ` • ${courseService.formatCourseDate(dateTimeService.getDateString(new Date(medication.completed_at)))}` : ''}`
+                    : 'Paused • Reminders Off'}
+              </Text>
+            </View>
+            <Text style={styles.createdDate}>
+              Added {new Date(medication.created_at).toLocaleDateString()}
             </Text>
           </View>
-          <Text style={styles.createdDate}>
-            Added {new Date(medication.created_at).toLocaleDateString()}
-          </Text>
-        </View>
-      </LinearGradient>
-    </View>
-  );
+        </LinearGradient>
+      </View>
+    );
+  };
 
   return (
     <View style={styles.container}>
@@ -13,12 +13,18 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import { useAuth } from '../../contexts/AuthContext';
 import { useProfile } from '../../contexts/ProfileContext';
 import { profileService } from '../../services/profileService';
 import { caregiverService, CaregiverConnection } from '../../services/caregiverService';
-import { notificationService } from '../../services/notificationService';
+import { notificationService, DEFAULT_QUIET_HOURS, QuietHours, SNOOZE_OPTIONS, SnoozeOption } from '../../services/notificationService';
 import { supabase } from '../../services/supabaseClient';
+import { dateTimeService } from '../../services/dateTimeService';
+import { travelService, TravelPlan } from '../../services/travelService';
+import { doseScheduleService, RoutineEvent } from '../../services/doseScheduleService';
+import { routineService, ROUTINE_EVENTS } from '../../services/routineService';
+import { reminderReconciliationService } from '../../services/reminderReconciliationService';
 import EditProfileModal from '../../components/EditProfileModal';
 import QRCodeGenerator from '../../components/QRCodeGenerator';
 import QRCodeScanner from '../../components/QRCodeScanner';
@@ -117,29 +123,23 @@ const FAQ_DATA = [
 
 export default function ProfileScreen() {
   const { signOut, user } = useAuth();
-  const { profile, refreshProfile } = useProfile();
+  const { profile, refreshProfile, updateProfile } = useProfile();
   const [showEditModal, setShowEditModal] = useState(false);
   const [showQRGenerator, setShowQRGenerator] = useState(false);
   const [showQRScanner, setShowQRScanner] = useState(false);
-  const [notificationsEnabled, setNotificationsEnabled] = useState(true);
-  const [soundEnabled, setSoundEnabled] = useState(true);
-  const [vibrationEnabled, setVibrationEnabled] = useState(true);
   const [aiCompanionEnabled, setAiCompanionEnabled] = useState(true);
   const [connections, setConnections] = useState<CaregiverConnection[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const [expandedFAQ, setExpandedFAQ] = useState<string | null>(null);
-
-  useEffect(() => {
-    notificationService.updateSettings({
-      soundEnabled,
-      vibrationEnabled,
-    });
-  }, [soundEnabled, vibrationEnabled]);
+  const [travelPlan, setTravelPlan] = useState<TravelPlan | null>(null);
+  const [editingRoutineEvent, setEditingRoutineEvent] = useState<RoutineEvent | null>(null);
+  const [editingQuietHours, setEditingQuietHours] = useState<keyof QuietHours | null>(null);
 
   useEffect(() => {
     if (user?.id && profile?.role) {
       loadConnections();
       loadAICompanionStatus();
+      loadTravelPlan();
     }
   }, [user?.id, profile?.role]);
 
@@ -193,6 +193,79 @@ export default function ProfileScreen() {
     }
   };
 
+  const loadTravelPlan = async () => {
+    if (!user?.id) return;
+    setTravelPlan(await travelService.getActivePlan(user.id));
+  };
+
+  const handleCheckReminders = async () => {
+    if (!user?.id) return;
+    const report = await reminderReconciliationService.reconcile(user.id);
+    if (report) {
+      Alert.alert('🔄 Reminders Checked', reminderReconciliationService.describeReport(report));
+    } else {
+      Alert.alert('Error', 'Failed to check reminders');
+    }
+  };
+
+  const handleChangeTimeZone = () => {
+    if (!user?.id) return;
+    const userId = user.id;
+    const currentZone = profile?.timezone || dateTimeService.getTimeZone();
+    const deviceZone = dateTimeService.getDeviceTimeZone();
+
+    if (travelPlan) {
+      Alert.alert(
+        '✈️ Travel Mode',
+        `${travelService.getStrategyLabel(travelPlan.strategy)} while in ${travelPlan.destination_timezone}.\n\nYour schedule is still based on ${travelPlan.home_timezone}.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'End Travel Mode',
+            style: 'destructive',
+            onPress: async () => {
+              await travelService.endTravel(userId);
+              setTravelPlan(null);
+            },
+          },
+        ]
+      );
+      return;
+    }
+
+    if (currentZone === deviceZone) {
+      Alert.alert('Time Zone', `Your reminders and daily logs follow ${currentZone}, which matches this device.`);
+      return;
+    }
+
+    Alert.alert(
+      'Time Zone',
+      `Your reminders and daily logs follow ${currentZone}.\n\nThis device is set to ${deviceZone}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Travel Mode',
+          onPress: () => travelService.showTravelOptions(userId, deviceZone, undefined, setTravelPlan),
+        },
+        {
+          text: `Move to ${deviceZone}`,
+          onPress: async () => {
+            const success = await updateProfile({ timezone: deviceZone });
+            if (!success) {
+              Alert.alert('Error', 'Failed to update time zone');
+              return;
+            }
+
+            // Reminder triggers fire on the device clock, so rebuild them for the new zone
+            await travelService.syncReminders(userId, true);
+
+            Alert.alert('Time Zone Updated', `Reminders and daily logs now follow ${deviceZone}.`);
+          },
+        },
+      ]
+    );
+  };
+
   const handleRefresh = () => {
     setRefreshing(true);
     loadConnections();
@@ -305,6 +378,124 @@ export default function ProfileScreen() {
     setExpandedFAQ(expandedFAQ === id ? null : id);
   };
 
+  // Saving the routine moves every meal- and sleep-anchored reminder with it
+  const handleRoutineTimeChange = async (event: RoutineEvent, date?: Date) => {
+    setEditingRoutineEvent(null);
+    if (!date) return;
+
+    const time = `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+    const success = await updateProfile({ daily_routine: { ...doseScheduleService.getRoutine(), [event]: time } });
+    if (!success) {
+      Alert.alert('Error', 'Failed to update your routine');
+    }
+  };
+
+  const handleChangeMealOffset = () => {
+    const options = [15, 30, 45, 60];
+    Alert.alert(
+      'Before/After Meals',
+      'How long before or after a meal should meal-timed medications be taken?',
+      [
+        ...options.map(minutes => ({
+          text: `${minutes} minutes`,
+          onPress: async () => {
+            const success = await updateProfile({
+              daily_routine: { ...doseScheduleService.getRoutine(), meal_offset_minutes: minutes },
+            });
+            if (!success) Alert.alert('Error', 'Failed to update your routine');
+          },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  // Low-priority reminders inside the window are held until it ends
+  const handleToggleQuietHours = async (enabled: boolean) => {
+    const success = await updateProfile({ quiet_hours: enabled ? DEFAULT_QUIET_HOURS : null });
+    if (!success) {
+      Alert.alert('Error', 'Failed to update quiet hours');
+    }
+  };
+
+  const handleQuietHoursChange = async (edge: keyof QuietHours, date?: Date) => {
+    setEditingQuietHours(null);
+    const quietHours = notificationService.getQuietHours();
+    if (!date || !quietHours) return;
+
+    const time = `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+    const updated = { ...quietHours, [edge]: time };
+    if (updated.start === updated.end) {
+      Alert.alert('Quiet Hours', 'Quiet hours need to start and end at different times.');
+      return;
+    }
+
+    const success = await updateProfile({ quiet_hours: updated });
+    if (!success) {
+      Alert.alert('Error', 'Failed to update quiet hours');
+    }
+  };
+
+  // Saved to the profile; reminders are rebuilt to match
+  const handleToggleNotificationPreference = async (
+    field: 'notifications_enabled' | 'sound_enabled' | 'vibration_enabled',
+    enabled: boolean
+  ) => {
+    const success = await updateProfile({ [field]: enabled });
+    if (!success) {
+      Alert.alert('Error', 'Failed to update notification settings');
+    }
+  };
+
+  const handleChangeSnoozeOption = () => {
+    Alert.alert(
+      'Snooze Duration',
+      'How long should the Snooze button on a reminder wait?',
+      [
+        ...SNOOZE_OPTIONS.map(option => ({
+          text: option.label,
+          onPress: () => saveSnoozeSettings({ snooze_option: option.value }),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleChangeMaxSnoozes = () => {
+    Alert.alert(
+      'Snooze Limit',
+      'After this many snoozes, the dose is marked as missed.',
+      [
+        ...[1, 2, 3, 5].map(limit => ({
+          text: `${limit} snooze${limit === 1 ? '' : 's'}`,
+          onPress: () => saveSnoozeSettings({ max_snoozes: limit }),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const saveSnoozeSettings = async (updates: { snooze_option?: SnoozeOption; max_snoozes?: number }) => {
+    const success = await updateProfile(updates);
+    if (!success) {
+      Alert.alert('Error', 'Failed to update snooze settings');
+    }
+  };
+
+  const getQuietHoursPickerValue = (edge: keyof QuietHours): Date => {
+    const [hour, minute] = (notificationService.getQuietHours() || DEFAULT_QUIET_HOURS)[edge].split(':').map(Number);
+    const date = new Date();
+    date.setHours(hour, minute, 0, 0);
+    return date;
+  };
+
+  const getRoutinePickerValue = (event: RoutineEvent): Date => {
+    const [hour, minute] = doseScheduleService.getRoutine()[event].split(':').map(Number);
+    const date = new Date();
+    date.setHours(hour, minute, 0, 0);
+    return date;
+  };
+
   const displayName = profile?.display_name || 'Loading...';
   const initials = profile ? profileService.getInitials(displayName) : 'U';
   const avatarColor = profile ? profileService.getAvatarColor(displayName) : '#667EEA';
@@ -509,6 +700,38 @@ export default function ProfileScreen() {
           </View>
         )}
 
+        {/* Daily Routine Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Daily Routine</Text>
+          <View style={styles.settingsGroup}>
+            {ROUTINE_EVENTS.map(({ event, label, icon }) => (
+              <SettingItem
+                key={event}
+                title={label}
+                subtitle={routineService.formatTime(doseScheduleService.getRoutine()[event])}
+                onPress={() => setEditingRoutineEvent(event)}
+                showArrow
+                icon={icon}
+              />
+            ))}
+            <SettingItem
+              title="Before/After Meals"
+              subtitle={`${doseScheduleService.getRoutine().meal_offset_minutes} minutes from mealtime`}
+              onPress={handleChangeMealOffset}
+              showArrow
+              icon="timer-outline"
+            />
+          </View>
+          {editingRoutineEvent && (
+            <DateTimePicker
+              value={getRoutinePickerValue(editingRoutineEvent)}
+              mode="time"
+              display="default"
+              onChange={(_, date) => handleRoutineTimeChange(editingRoutineEvent, date)}
+            />
+          )}
+        </View>
+
         {/* Notifications Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Notification Settings</Text>
@@ -516,25 +739,90 @@ export default function ProfileScreen() {
             <SettingItem
               title="Push Notifications"
               subtitle="Get reminded when it's time to take medication"
-              value={notificationsEnabled}
-              onValueChange={setNotificationsEnabled}
+              value={profile?.notifications_enabled !== false}
+              onValueChange={(enabled) => handleToggleNotificationPreference('notifications_enabled', enabled)}
               icon="notifications"
             />
             <SettingItem
               title="Sound"
               subtitle="Play sound with notifications"
-              value={soundEnabled}
-              onValueChange={setSoundEnabled}
+              value={profile?.sound_enabled !== false}
+              onValueChange={(enabled) => handleToggleNotificationPreference('sound_enabled', enabled)}
               icon="volume-high"
             />
             <SettingItem
               title="Vibration"
               subtitle="Vibrate when receiving notifications"
-              value={vibrationEnabled}
-              onValueChange={setVibrationEnabled}
+              value={profile?.vibration_enabled !== false}
+              onValueChange={(enabled) => handleToggleNotificationPreference('vibration_enabled', enabled)}
               icon="phone-portrait"
             />
+            <SettingItem
+              title="Time Zone"
+              subtitle={travelPlan
+                ? `✈️ ${travelService.getStrategyLabel(travelPlan.strategy)} (${travelPlan.destination_timezone})`
+                : profile?.timezone || dateTimeService.getTimeZone()}
+              onPress={handleChangeTimeZone}
+              showArrow
+              icon="globe"
+            />
+            <SettingItem
+              title="Quiet Hours"
+              subtitle={profile?.quiet_hours
+                ? `${routineService.formatTime(profile.quiet_hours.start)} – ${routineService.formatTime(profile.quiet_hours.end)} • only critical medications alert`
+                : 'Low-priority reminders arrive whenever they are due'}
+              value={!!profile?.quiet_hours}
+              onValueChange={handleToggleQuietHours}
+              icon="moon"
+            />
+            {profile?.quiet_hours && (
+              <>
+                <SettingItem
+                  title="Quiet From"
+                  subtitle={routineService.formatTime(profile.quiet_hours.start)}
+                  onPress={() => setEditingQuietHours('start')}
+                  showArrow
+                  icon="bed-outline"
+                />
+                <SettingItem
+                  title="Quiet Until"
+                  subtitle={routineService.formatTime(profile.quiet_hours.end)}
+                  onPress={() => setEditingQuietHours('end')}
+                  showArrow
+                  icon="alarm-outline"
+                />
+              </>
+            )}
+            <SettingItem
+              title="Snooze Duration"
+              subtitle={SNOOZE_OPTIONS.find(option => option.value === notificationService.getSettings().snoozeOption)?.label}
+              onPress={handleChangeSnoozeOption}
+              showArrow
+              icon="time"
+            />
+            <SettingItem
+              title="Snooze Limit"
+              subtitle={`${notificationService.getSettings().maxSnoozes} per dose, then it counts as missed`}
+              onPress={handleChangeMaxSnoozes}
+              showArrow
+              icon="repeat"
+            />
+            <SettingItem
+              title="Check Reminders"
+              subtitle="Match scheduled reminders to your medications"
+              onPress={handleCheckReminders}
+              showArrow
+              icon="sync"
+            />
           </View>
+          {editingQuietHours && (
+            <DateTimePicker
+              value={getQuietHoursPickerValue(editingQuietHours)}
+              mode="time"
+              display="default"
+              onChange={(_, date) => handleQuietHoursChange(editingQuietHours, date)}
+            />
+          )}
         </View>
 
         {/* ✅ FAQ Section - Official Mediminder FAQ */}
@@ -13,34 +13,18 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from 'expo-router';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase } from '../../services/supabaseClient';
 import { 
   safetyService, 
   disposalService, 
   inventoryService 
 } from '../../services/medicationEnhancedService';
-
-interface ExpiredMedication {
-  id: string;
-  medication_name: string;
-  expiry_date: string;
-  days_expired: number;
-}
-
-interface LowStockMedication {
-  id: string;
-  medication_name: string;
-  current_quantity: number;
-  low_stock_threshold: number;
-  days_until_empty: number;
-}
-
-interface DrugInteraction {
-  medication1: string;
-  medication2: string;
-  severity: string;
-  description: string;
-}
+import {
+  medicationRepository,
+  ExpiredMedication,
+  LowStockMedication,
+  DrugInteraction,
+} from '../../services/medicationRepository';
+import { refillService } from '../../services/refillService';
 
 export default function SafetyDashboardScreen() {
   const { user } = useAuth();
@@ -68,42 +52,18 @@ export default function SafetyDashboardScreen() {
     try {
       setLoading(true);
 
-      // Load expired medications
-      const { data: expired, error: expiredError } = await supabase
-        .rpc('check_expired_medications', { p_user_id: CURRENT_USER_ID });
-
-      if (!expiredError && expired) {
-        setExpiredMeds(expired);
-      }
-
-      // Load low stock medications
-      const { data: lowStock, error: lowStockError } = await supabase
-        .rpc('get_low_stock_medications', { p_user_id: CURRENT_USER_ID });
+      const [expired, lowStock, interactionData, expiring] = await Promise.all([
+        medicationRepository.getExpiredMedications(CURRENT_USER_ID),
+        medicationRepository.getLowStockMedications(CURRENT_USER_ID),
+        medicationRepository.getDrugInteractions(CURRENT_USER_ID),
+        // Expiring soon (30 days)
+        medicationRepository.countExpiringMedications(CURRENT_USER_ID, 30),
+      ]);
 
-      if (!lowStockError && lowStock) {
-        setLowStockMeds(lowStock);
-      }
-
-      // Load drug interactions
-      const { data: interactionData, error: interactionError } = await supabase
-        .rpc('check_user_drug_interactions', { p_user_id: CURRENT_USER_ID });
-
-      if (!interactionError && interactionData) {
-        setInteractions(interactionData);
-      }
-
-      // Count expiring soon (30 days)
-      const thirtyDaysFromNow = new Date();
-      thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
-      const { count } = await supabase
-        .from('medications')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', CURRENT_USER_ID)
-        .eq('is_active', true)
-        .gte('expiry_date', new Date().toISOString().split('T')[0])
-        .lte('expiry_date', thirtyDaysFromNow.toISOString().split('T')[0]);
-
-      setExpiringCount(count || 0);
+      setExpiredMeds(expired);
+      setLowStockMeds(lowStock);
+      setInteractions(interactionData);
+      setExpiringCount(expiring);
 
     } catch (error) {
       console.error('Error loading safety data:', error);
@@ -153,27 +113,10 @@ export default function SafetyDashboardScreen() {
   };
 
   const markAsDisposed = async (medication: ExpiredMedication) => {
-    try {
-      // Log disposal
-      await supabase
-        .from('disposal_logs')
-        .insert({
-          medication_id: medication.id,
-          user_id: CURRENT_USER_ID,
-          medication_name: medication.medication_name,
-          disposal_method: 'user_reported',
-          disposal_date: new Date().toISOString().split('T')[0],
-          notes: 'Disposed via app tracking'
-        });
+    if (!CURRENT_USER_ID) return;
 
-      // Deactivate medication
-      await supabase
-        .from('medications')
-        .update({ 
-          is_active: false,
-          disposed_at: new Date().toISOString()
-        })
-        .eq('id', medication.id);
+    try {
+      await medicationRepository.markDisposed(CURRENT_USER_ID, medication);
 
       Alert.alert('✅ Success', 'Medication marked as disposed');
       loadSafetyData();
@@ -186,26 +129,22 @@ export default function SafetyDashboardScreen() {
   const handleRefillRequest = async (medication: LowStockMedication) => {
     Alert.alert(
       'Request Refill',
-      `Request refill for ${medication.medication_name}?\n\nCurrent: ${medication.current_quantity}\nDays left: ~${medication.days_until_empty}`,
+      `Request refill for ${medication.medication_name}?\n\nCurrent: ${medication.current_quantity} ${medication.package_unit}\nDays left: ~${medication.days_until_empty}`,
       [
         { text: 'Cancel', style: 'cancel' },
         { 
           text: 'Request Refill', 
           onPress: async () => {
+            if (!CURRENT_USER_ID) return;
+
             try {
-              await supabase
-                .from('refill_requests')
-                .insert({
-                  medication_id: medication.id,
-                  user_id: CURRENT_USER_ID,
-                  quantity_requested: 30, // Default
-                  status: 'pending',
-                  requested_at: new Date().toISOString()
-                });
+              const refill = await refillService.requestRefill(CURRENT_USER_ID, medication, 30); // Default
 
               Alert.alert(
                 '✅ Refill Requested',
-                'Your refill request has been logged. In production, this would notify your pharmacy.',
+                refill.pharmacy_name
+                  ? `Sent to ${refill.pharmacy_name}. Track it in the Cabinet tab.`
+                  : 'Your refill request has been saved and will be sent to your pharmacy when it can be reached.',
                 [{ text: 'OK' }]
               );
             } catch (error) {
@@ -370,7 +309,7 @@ export default function SafetyDashboardScreen() {
                   <View style={styles.medicationInfo}>
                     <Text style={styles.medicationName}>{med.medication_name}</Text>
                     <Text style={styles.stockText}>
-                      {med.current_quantity} remaining (threshold: {med.low_stock_threshold})
+                      {med.current_quantity} {med.package_unit} remaining (threshold: {med.low_stock_threshold})
                     </Text>
                     <Text style={styles.daysText}>
                       ~{med.days_until_empty} days until empty
@@ -2,18 +2,24 @@
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
-import { Stack } from 'expo-router';
+import { Stack, router } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { useEffect } from 'react';
-import { useColorScheme } from 'react-native';
+import { AppState, useColorScheme } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import * as Notifications from 'expo-notifications';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { AuthProvider } from '../contexts/AuthContext';
 import AuthWrapper from '../components/AuthWrapper';
 import { ProfileProvider } from '../contexts/ProfileContext';
-import { notificationService } from '../services/notificationService';
+import { notificationService, GroupedDose } from '../services/notificationService';
 import { supabase } from '../services/supabaseClient';
+import { doseLogService } from '../services/doseLogService';
+import { medicationRepository } from '../services/medicationRepository';
+import { snoozeService } from '../services/snoozeService';
+import { profileService } from '../services/profileService';
+import { dateTimeService } from '../services/dateTimeService';
+import { DoseRef } from '../services/doseScheduleService';
 
 export {
   ErrorBoundary,
@@ -25,6 +31,8 @@ export const unstable_settings = {
 
 SplashScreen.preventAutoHideAsync();
 
+const OFFLINE_SYNC_RETRY_MS = 60 * 1000;
+
 export default function RootLayout() {
   const [loaded, error] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
@@ -42,9 +50,30 @@ export default function RootLayout() {
     }
   }, [loaded]);
 
+  // Send dose logs made offline when the app returns to the foreground, and keep retrying while it's open
+  useEffect(() => {
+    doseLogService.syncPendingLogs();
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') doseLogService.syncPendingLogs();
+    });
+    const retry = setInterval(() => doseLogService.syncPendingLogs(), OFFLINE_SYNC_RETRY_MS);
+
+    return () => {
+      subscription.remove();
+      clearInterval(retry);
+    };
+  }, []);
+
   const initializeNotifications = async () => {
     try {
       console.log('🔔 Initializing notification system...');
+
+      // Saved sound, vibration and snooze choices apply before any reminder is handled
+      const { data: { session } } = await supabase.auth.getSession();
+      if (session?.user?.id) {
+        notificationService.applyPreferences(await profileService.getNotificationPreferences(session.user.id));
+        console.log('✅ Notification preferences loaded');
+      }
       
       await notificationService.setupNotificationCategories();
       console.log('✅ Notification categories set up');
@@ -52,7 +81,10 @@ export default function RootLayout() {
       notificationService.setupNotificationResponseHandler(
         handleTakeMedication,
         handleSnoozeMedication,
-        handleSkipMedication
+        handleSkipMedication,
+        handleTakeAll,
+        handleOpenChecklist,
+        handleSnoozeAll
       );
       console.log('✅ Notification response handlers set up');
       
@@ -61,50 +93,28 @@ export default function RootLayout() {
     }
   };
 
-  const handleTakeMedication = async (medicationId: string) => {
+  // Follow-ups and snoozed reminders carry the day their dose was due, which may be yesterday by now;
+  // the daily repeating reminders don't, and are for today
+  const handleTakeMedication = async (medicationId: string, dose?: DoseRef, doseDate?: string) => {
     try {
       console.log(`💊 Taking medication from notification: ${medicationId}`);
-      const today = new Date().toISOString().split('T')[0];
-      
       const { data: { session } } = await supabase.auth.getSession();
       if (!session?.user?.id) {
         console.warn('⚠️ No user session');
         return;
       }
 
-      const { data: existingLog } = await supabase
-        .from('medication_logs')
-        .select('id')
-        .eq('medication_id', medicationId)
-        .eq('user_id', session.user.id)
-        .eq('log_date', today)
-        .single();
-
-      if (existingLog) {
-        const { error } = await supabase
-          .from('medication_logs')
-          .update({
-            status: 'taken',
-            logged_at: new Date().toISOString(),
-          })
-          .eq('id', existingLog.id);
-
-        if (error) throw error;
-        console.log('✅ Updated existing log to taken');
-      } else {
-        const { error } = await supabase
-          .from('medication_logs')
-          .insert({
-            medication_id: medicationId,
-            user_id: session.user.id,
-            log_date: today,
-            status: 'taken',
-            logged_at: new Date().toISOString(),
-          });
-
-        if (error) throw error;
-        console.log('✅ Created new log as taken');
-      }
+      // The app may have been opened by this notification before the profile loaded
+      await dateTimeService.loadUserTimeZone(session.user.id);
+      const logDate = doseDate || dateTimeService.getDateString();
+
+      await medicationRepository.logDose(
+        session.user.id,
+        medicationId,
+        logDate,
+        dose || { doseIndex: 0, scheduledTime: null },
+        'taken'
+      );
       
       console.log('✅ Medication marked as taken from notification');
     } catch (error) {
@@ -112,76 +122,48 @@ export default function RootLayout() {
     }
   };
 
-  const handleSnoozeMedication = async (medicationId: string) => {
+  const handleSnoozeMedication = async (medicationId: string, dose: DoseRef | undefined, snoozeCount: number, doseDate?: string) => {
     try {
       console.log(`⏰ Snoozing medication: ${medicationId}`);
-      
-      const { data: medication, error } = await supabase
-        .from('medications')
-        .select('medication_name, dosage, dosage_unit')
-        .eq('id', medicationId)
-        .single();
-
-      if (error) throw error;
-
-      if (medication) {
-        await notificationService.snoozeNotification(
-          medicationId,
-          medication.medication_name,
-          medication.dosage,
-          medication.dosage_unit
-        );
-        console.log('⏰ Medication snoozed for 10 minutes');
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user?.id) {
+        console.warn('⚠️ No user session');
+        return;
       }
+
+      await dateTimeService.loadUserTimeZone(session.user.id);
+      await snoozeService.snoozeDose(
+        session.user.id,
+        medicationId,
+        dose || { doseIndex: 0, scheduledTime: null },
+        snoozeCount,
+        doseDate
+      );
     } catch (error) {
       console.error('❌ Error snoozing medication:', error);
     }
   };
 
-  const handleSkipMedication = async (medicationId: string) => {
+  const handleSkipMedication = async (medicationId: string, dose?: DoseRef, doseDate?: string) => {
     try {
       console.log(`⏭️ Skipping medication from notification: ${medicationId}`);
-      const today = new Date().toISOString().split('T')[0];
-      
       const { data: { session } } = await supabase.auth.getSession();
       if (!session?.user?.id) {
         console.warn('⚠️ No user session');
         return;
       }
 
-      const { data: existingLog } = await supabase
-        .from('medication_logs')
-        .select('id')
-        .eq('medication_id', medicationId)
-        .eq('user_id', session.user.id)
-        .eq('log_date', today)
-        .single();
-
-      if (existingLog) {
-        const { error } = await supabase
-          .from('medication_logs')
-          .update({
-            status: 'skipped',
-            logged_at: new Date().toISOString(),
-          })
-          .eq('id', existingLog.id);
-
-        if (error) throw error;
-        console.log('✅ Updated existing log to skipped');
-      } else {
-        const { error } = await supabase
-          .from('medication_logs')
-          .insert({
-            medication_id: medicationId,
-            user_id: session.user.id,
-            log_date: today,
-            status: 'skipped',
-            logged_at: new Date().toISOString(),
-          });
-
-        if (error) throw error;
-        console.log('✅ Created new log as skipped');
-      }
+      // The app may have been opened by this notification before the profile loaded
+      await dateTimeService.loadUserTimeZone(session.user.id);
+      const logDate = doseDate || dateTimeService.getDateString();
+
+      await medicationRepository.logDose(
+        session.user.id,
+        medicationId,
+        logDate,
+        dose || { doseIndex: 0, scheduledTime: null },
+        'skipped'
+      );
       
       console.log('⏭️ Medication marked as skipped from notification');
     } catch (error) {
@@ -189,6 +171,59 @@ export default function RootLayout() {
     }
   };
 
+  const handleTakeAll = async (doses: GroupedDose[], doseDate?: string) => {
+    try {
+      console.log(`💊 Taking ${doses.length} medications from grouped notification`);
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user?.id) {
+        console.warn('⚠️ No user session');
+        return;
+      }
+
+      await dateTimeService.loadUserTimeZone(session.user.id);
+      const logDate = doseDate || dateTimeService.getDateString();
+
+      await medicationRepository.logDoses(
+        session.user.id,
+        logDate,
+        doses.map(dose => ({
+          medicationId: dose.medicationId,
+          dose: { doseIndex: dose.reminderIndex, scheduledTime: dose.scheduledTime },
+        })),
+        'taken'
+      );
+
+      console.log('✅ Grouped medications marked as taken from notification');
+    } catch (error) {
+      console.error('❌ Error marking grouped medications as taken:', error);
+    }
+  };
+
+  const handleSnoozeAll = async (groupTitle: string, doses: GroupedDose[], snoozeCount: number, doseDate?: string) => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user?.id) {
+        console.warn('⚠️ No user session');
+        return;
+      }
+
+      await dateTimeService.loadUserTimeZone(session.user.id);
+      await snoozeService.snoozeGroup(
+        session.user.id,
+        groupTitle,
+        doses,
+        snoozeCount,
+        doseDate
+      );
+    } catch (error) {
+      console.error('❌ Error snoozing grouped medications:', error);
+    }
+  };
+
+  const handleOpenChecklist = (doses: GroupedDose[]) => {
+    router.push({ pathname: '/dose-checklist', params: { doses: JSON.stringify(doses) } });
+  };
+
   if (!loaded) {
     return null;
   }
@@ -211,6 +246,14 @@ function RootLayoutNav() {
                   presentation: 'modal',
                   headerShown: false
                 }} />
+                <Stack.Screen name="dose-checklist" options={{
+                  presentation: 'modal',
+                  headerShown: false
+                }} />
+                <Stack.Screen name="refill-calendar" options={{
+                  presentation: 'modal',
+                  headerShown: false
+                }} />
               </Stack>
               <StatusBar style="light" />
             </AuthWrapper>
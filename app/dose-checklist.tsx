@@ -0,0 +1,188 @@
+// app/dose-checklist.tsx - Checklist for a grouped reminder: tick off the doses taken together
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  Pressable,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../contexts/AuthContext';
+import { GroupedDose } from '../services/notificationService';
+import { doseLogService, DoseLogStatus } from '../services/doseLogService';
+import { medicationRepository } from '../services/medicationRepository';
+import { dateTimeService } from '../services/dateTimeService';
+import { DatabaseMedicationLog } from '../services/supabaseClient';
+
+const getKey = (dose: GroupedDose) => doseLogService.getDoseKey(dose.medicationId, dose.reminderIndex);
+
+export default function DoseChecklistScreen() {
+  const { user } = useAuth();
+  const params = useLocalSearchParams<{ doses?: string }>();
+  const [doses] = useState<GroupedDose[]>(() => {
+    try {
+      return params.doses ? JSON.parse(params.doses) : [];
+    } catch {
+      return [];
+    }
+  });
+  const [logs, setLogs] = useState<{ [doseKey: string]: DatabaseMedicationLog }>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+
+  // Doses not logged yet start ticked
+  const loadLogs = useCallback(async () => {
+    if (!user?.id) return;
+    try {
+      const logMap = await medicationRepository.getLogsForDate(user.id, dateTimeService.getDateString());
+      setLogs(logMap);
+      setSelected(new Set(doses.map(getKey).filter(key => !logMap[key])));
+    } catch (error) {
+      console.error('Error loading checklist logs:', error);
+    }
+  }, [user?.id, doses]);
+
+  useEffect(() => {
+    loadLogs();
+  }, [loadLogs]);
+
+  const toggleDose = (key: string) => {
+    const next = new Set(selected);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setSelected(next);
+  };
+
+  const handleLog = async (status: DoseLogStatus) => {
+    if (!user?.id || selected.size === 0) return;
+
+    setLoading(true);
+    try {
+      const chosen = doses.filter(dose => selected.has(getKey(dose)));
+      await medicationRepository.logDoses(
+        user.id,
+        dateTimeService.getDateString(),
+        chosen.map(dose => ({
+          medicationId: dose.medicationId,
+          dose: { doseIndex: dose.reminderIndex, scheduledTime: dose.scheduledTime },
+        })),
+        status
+      );
+
+      Alert.alert(
+        status === 'taken' ? '✅ Logged' : '⏭️ Skipped',
+        `${chosen.length} dose${chosen.length === 1 ? '' : 's'} marked as ${status}.`,
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error) {
+      console.error('Error logging checklist doses:', error);
+      Alert.alert('Error', 'Failed to log medications');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient colors={['#6366F1', '#8B5CF6']} style={styles.header}>
+        <View style={styles.headerContent}>
+          <Pressable onPress={() => router.back()} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color="white" />
+          </Pressable>
+          <Text style={styles.title}>Medication Checklist</Text>
+          <View style={{ width: 24 }} />
+        </View>
+      </LinearGradient>
+
+      <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+        {doses.length === 0 ? (
+          <Text style={styles.emptyText}>No doses in this reminder.</Text>
+        ) : (
+          doses.map(dose => {
+            const key = getKey(dose);
+            const log = logs[key];
+            const checked = selected.has(key);
+
+            return (
+              <Pressable
+                key={key}
+                style={[styles.doseRow, checked && styles.doseRowChecked]}
+                onPress={() => toggleDose(key)}
+              >
+                <Ionicons
+                  name={checked ? 'checkbox' : 'square-outline'}
+                  size={26}
+                  color={checked ? '#6366F1' : '#9CA3AF'}
+                />
+                <View style={styles.doseInfo}>
+                  <Text style={styles.doseName}>{dose.medicationName}</Text>
+                  <Text style={styles.doseDetails}>
+                    {dose.dosage}{dose.dosageUnit}{dose.scheduledTime ? ` • ${dose.scheduledTime}` : ''}
+                  </Text>
+                </View>
+                {log && (
+                  <Text style={[styles.logBadge, log.status === 'taken' ? styles.logBadgeTaken : styles.logBadgeOther]}>
+                    {log.status}
+                  </Text>
+                )}
+              </Pressable>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <Pressable
+          style={[styles.skipButton, (loading || selected.size === 0) && styles.buttonDisabled]}
+          onPress={() => handleLog('skipped')}
+          disabled={loading || selected.size === 0}
+        >
+          <Text style={styles.skipButtonText}>Skip</Text>
+        </Pressable>
+        <Pressable
+          style={[styles.takeButton, (loading || selected.size === 0) && styles.buttonDisabled]}
+          onPress={() => handleLog('taken')}
+          disabled={loading || selected.size === 0}
+        >
+          <LinearGradient colors={['#10B981', '#059669']} style={styles.takeButtonGradient}>
+            <Ionicons name="checkmark-done" size={22} color="white" />
+            <Text style={styles.takeButtonText}>Take {selected.size} Selected</Text>
+          </LinearGradient>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#F8FAFC' },
+  header: { paddingTop: 50, paddingBottom: 20, paddingHorizontal: 20 },
+  headerContent: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  closeButton: { padding: 4 },
+  title: { fontSize: 20, fontWeight: '700', color: 'white' },
+  list: { flex: 1 },
+  listContent: { padding: 20, gap: 12 },
+  emptyText: { fontSize: 16, color: '#6B7280', textAlign: 'center', marginTop: 40 },
+  doseRow: { flexDirection: 'row', alignItems: 'center', padding: 16, borderRadius: 12, backgroundColor: 'white', borderWidth: 2, borderColor: '#E5E7EB', gap: 12 },
+  doseRowChecked: { borderColor: '#6366F1', backgroundColor: '#EEF2FF' },
+  doseInfo: { flex: 1 },
+  doseName: { fontSize: 16, fontWeight: '700', color: '#1F2937' },
+  doseDetails: { fontSize: 14, color: '#6B7280', marginTop: 2 },
+  logBadge: { fontSize: 12, fontWeight: '600', paddingHorizontal: 8, paddingVertical: 4, borderRadius: 8, overflow: 'hidden', textTransform: 'capitalize' },
+  logBadgeTaken: { backgroundColor: '#D1FAE5', color: '#047857' },
+  logBadgeOther: { backgroundColor: '#F3F4F6', color: '#6B7280' },
+  footer: { flexDirection: 'row', padding: 20, paddingBottom: 36, gap: 12, backgroundColor: 'white', borderTopWidth: 1, borderTopColor: '#E5E7EB' },
+  skipButton: { flex: 1, alignItems: 'center', justifyContent: 'center', borderRadius: 12, backgroundColor: '#F3F4F6' },
+  skipButtonText: { fontSize: 16, fontWeight: '600', color: '#6B7280' },
+  takeButton: { flex: 2, borderRadius: 12, overflow: 'hidden' },
+  takeButtonGradient: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', paddingVertical: 16, gap: 8 },
+  takeButtonText: { fontSize: 16, fontWeight: '700', color: 'white' },
+  buttonDisabled: { opacity: 0.5 },
+});
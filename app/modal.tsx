@@ -10,17 +10,26 @@ import {
   Pressable,
   Switch,
 } from 'react-native';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
-import { supabase } from '../services/supabaseClient';
+import { supabase, DosePhase } from '../services/supabaseClient';
 import { useAuth } from '../contexts/AuthContext';
-import { notificationService } from '../services/notificationService';
+import { notificationService, MedicationPriority, PRIORITY_OPTIONS } from '../services/notificationService';
 import { smartReminderService } from '../services/smartReminderService';
 import { safetyService } from '../services/medicationEnhancedService';
+import { dateTimeService } from '../services/dateTimeService';
+import { doseScheduleService, WEEKDAY_LABELS, PackageUnit, PACKAGE_UNITS } from '../services/doseScheduleService';
+import { reminderReconciliationService } from '../services/reminderReconciliationService';
+import { medicationRepository } from '../services/medicationRepository';
+import { escalationService, EscalationPreset, ESCALATION_PRESETS } from '../services/escalationService';
+import { PackScan } from '../services/packScanService';
+import { stockLotService } from '../services/stockLotService';
+import PackScanner from '../components/PackScanner';
 
 type TabType = 'basic' | 'inventory' | 'safety';
+type CyclePattern = 'daily' | 'weekdays' | 'alternate' | '21_7' | 'custom';
 
 interface MedicationToAdd {
   id: string;
@@ -33,14 +42,78 @@ interface MedicationToAdd {
   totalQuantity: string;
   currentQuantity: string;
   lowStockThreshold: string;
+  // What the quantities count (null = follow the dosage unit) and how many one dose uses
+  packageUnit: PackageUnit | null;
+  unitsPerDose: string;
   expiryDate: Date;
+  // From a scanned pack: saved so restock scans find it, and the lot its stock starts as
+  gtin: string;
+  lotNumber: string;
   // ✅ FIX 3: Track start time per medication
   startTime: Date;
+  // Which days to take it: every day, chosen weekdays, alternate days or an on/off cycle
+  cyclePattern: CyclePattern;
+  weekdays: number[]; // 1 = Sunday ... 7 = Saturday
+  cycleOnDays: string;
+  cycleOffDays: string;
+  // Time each dose from the previous one instead of fixed clock times
+  rollingInterval: boolean;
+  // As needed: optional dose limits
+  prnMinIntervalHours: string;
+  prnMaxDailyDoses: string;
+  // Fixed-length course, e.g. a 7-day antibiotic; blank = ongoing
+  courseDays: string;
+  // How insistently reminders interrupt: critical breaks through Do Not Disturb
+  priority: MedicationPriority;
+  // Follow-ups when a reminder is ignored, then a missed-dose alert
+  escalationPreset: EscalationPreset;
+  escalationAlertCaregivers: boolean;
+  // Taper/titration: step 1 uses the dosage and frequency above
+  taperEnabled: boolean;
+  firstStepDays: string;
+  taperSteps: TaperStepToAdd[];
 }
 
+interface TaperStepToAdd {
+  id: string;
+  dosage: string;
+  frequency: string;
+  durationDays: string; // Blank on the last step = continue indefinitely
+}
+
+// Fill a medication from a scanned pack: the catalog's name, strength and pack size, and the pack's expiry and lot
+const withPackScan = (med: MedicationToAdd, scan: PackScan | null): MedicationToAdd => {
+  if (!scan) return med;
+  const product = scan.product;
+  return {
+    ...med,
+    ...(product && {
+      name: product.medication_name,
+      dosage: product.dosage,
+      unit: product.dosage_unit,
+      packageUnit: product.package_unit,
+      totalQuantity: String(product.pack_size),
+      currentQuantity: String(product.pack_size),
+    }),
+    ...(scan.expiryDate && { expiryDate: new Date(`${scan.expiryDate}T12:00:00`) }),
+    gtin: scan.gtin || med.gtin,
+    lotNumber: scan.lotNumber || med.lotNumber,
+  };
+};
+
+const readPackParam = (value?: string): PackScan | null => {
+  try {
+    return value ? JSON.parse(value) : null;
+  } catch {
+    return null;
+  }
+};
+
 export default function BulkAddMedicationModal() {
   const { user } = useAuth();
   const CURRENT_USER_ID = user?.id;
+  // Opened from a pack scan in the cabinet
+  const params = useLocalSearchParams<{ pack?: string }>();
 
   const [activeTab, setActiveTab] = useState<TabType>('basic');
   const [loading, setLoading] = useState(false);
@@ -48,8 +121,8 @@ export default function BulkAddMedicationModal() {
   // ✅ FIX 3: Initialize with current time instead of fixed time
   const getCurrentTime = () => new Date();
 
-  const [medications, setMedications] = useState<MedicationToAdd[]>([
-    {
+  const [medications, setMedications] = useState<MedicationToAdd[]>(() => [
+    withPackScan({
       id: '1',
       name: '',
       dosage: '',
@@ -59,9 +132,27 @@ export default function BulkAddMedicationModal() {
       totalQuantity: '', // ✅ FIX 5: Empty by default
       currentQuantity: '', // ✅ FIX 5: Empty by default
       lowStockThreshold: '5',
+      packageUnit: null,
+      unitsPerDose: '',
       expiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // ✅ FIX 6: Per medication
+      gtin: '',
+      lotNumber: '',
       startTime: getCurrentTime(), // ✅ FIX 3: Current time
-    }
+      cyclePattern: 'daily',
+      weekdays: [],
+      cycleOnDays: '',
+      cycleOffDays: '',
+      rollingInterval: false,
+      prnMinIntervalHours: '',
+      prnMaxDailyDoses: '',
+      courseDays: '',
+      priority: 'normal',
+      escalationPreset: 'off',
+      escalationAlertCaregivers: true,
+      taperEnabled: false,
+      firstStepDays: '',
+      taperSteps: [],
+    }, readPackParam(params.pack)),
   ]);
 
   // Shared settings
@@ -70,6 +161,7 @@ export default function BulkAddMedicationModal() {
   const [checkInteractions, setCheckInteractions] = useState(true);
   const [showExpiryDatePicker, setShowExpiryDatePicker] = useState<string | null>(null);
   const [showStartTimePicker, setShowStartTimePicker] = useState<string | null>(null);
+  const [scanningFor, setScanningFor] = useState<string | null>(null); // Medication the pack scanner fills
 
   const dosageUnits = ['mg', 'g', 'mcg', 'ml', 'tablets', 'capsules', 'drops', 'puffs'];
   
@@ -79,9 +171,24 @@ export default function BulkAddMedicationModal() {
     { label: 'Every 6hrs', value: 'Every 6 hours', icon: '⏰' },
     { label: 'Every 8hrs', value: 'Every 8 hours', icon: '⏰' },
     { label: 'Every 12hrs', value: 'Every 12 hours', icon: '⏰' },
+    { label: 'On waking', value: 'On waking', icon: '🌅' },
+    { label: 'Before breakfast', value: 'Before breakfast', icon: '☕' },
+    { label: 'Before meals', value: 'Before meals', icon: '🍽️' },
+    { label: 'After meals', value: 'After meals', icon: '🍽️' },
+    { label: 'Bedtime', value: 'Bedtime', icon: '🌙' },
+    { label: 'Weekly', value: 'Weekly', icon: '📆' },
+    { label: 'As needed', value: 'As needed', icon: '🆘' },
     { label: 'Custom', value: 'Custom', icon: '⚙️' },
   ];
 
+  const cyclePatterns: { label: string; value: CyclePattern; icon: string }[] = [
+    { label: 'Every day', value: 'daily', icon: '📅' },
+    { label: 'Specific days', value: 'weekdays', icon: '🗓️' },
+    { label: 'Every other day', value: 'alternate', icon: '🔁' },
+    { label: '21 on / 7 off', value: '21_7', icon: '💊' },
+    { label: 'Custom cycle', value: 'custom', icon: '⚙️' },
+  ];
+
   const advanceReminderOptions = [
     { label: 'On time', value: 0, icon: '⏱️' },
     { label: '3 min', value: 3, icon: '🔔' },
@@ -104,8 +211,26 @@ export default function BulkAddMedicationModal() {
       totalQuantity: '',
       currentQuantity: '',
       lowStockThreshold: '5',
+      packageUnit: null,
+      unitsPerDose: '',
       expiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
+      gtin: '',
+      lotNumber: '',
       startTime: getCurrentTime(), // ✅ FIX 3: Current time for new meds
+      cyclePattern: 'daily',
+      weekdays: [],
+      cycleOnDays: '',
+      cycleOffDays: '',
+      rollingInterval: false,
+      prnMinIntervalHours: '',
+      prnMaxDailyDoses: '',
+      courseDays: '',
+      priority: 'normal',
+      escalationPreset: 'off',
+      escalationAlertCaregivers: true,
+      taperEnabled: false,
+      firstStepDays: '',
+      taperSteps: [],
     }]);
   };
 
@@ -121,6 +246,97 @@ export default function BulkAddMedicationModal() {
     setMedications(medications.map(m => m.id === id ? { ...m, ...updates } : m));
   };
 
+  const handlePackScanned = (scan: PackScan) => {
+    if (!scanningFor) return;
+    setMedications(medications.map(m => m.id === scanningFor ? withPackScan(m, scan) : m));
+    if (!scan.product) {
+      Alert.alert(
+        'Pack Not in Catalog',
+        `${scan.expiryDate || scan.lotNumber ? 'The expiry and lot number were filled in. ' : ''}Enter the medication name and strength yourself.`
+      );
+    }
+  };
+
+  // Weekly medications pick their day(s); default to the weekday of the start date
+  const selectFrequency = (med: MedicationToAdd, frequency: string) => {
+    if (frequency === 'Weekly' && med.cyclePattern !== 'weekdays') {
+      updateMedication(med.id, { frequency, cyclePattern: 'weekdays', weekdays: [med.startTime.getDay() + 1] });
+      return;
+    }
+    updateMedication(med.id, { frequency });
+  };
+
+  const getPackageUnit = (med: MedicationToAdd): PackageUnit =>
+    doseScheduleService.getPackageUnit({ dosage_unit: med.unit, package_unit: med.packageUnit });
+
+  // Rolling timing only applies to "Every N hours" frequencies
+  const isRollingFrequency = (frequency: string): boolean => {
+    const schedule = doseScheduleService.getSchedule(frequency);
+    return schedule.kind === 'interval' && schedule.intervalHours < 24;
+  };
+
+  const toggleWeekday = (med: MedicationToAdd, weekday: number) => {
+    const weekdays = med.weekdays.includes(weekday)
+      ? med.weekdays.filter(day => day !== weekday)
+      : [...med.weekdays, weekday].sort((a, b) => a - b);
+    updateMedication(med.id, { weekdays });
+  };
+
+  // On/off days for the chosen pattern; null when taken every day
+  const getCycleDays = (med: MedicationToAdd): { onDays: number; offDays: number } | null => {
+    switch (med.cyclePattern) {
+      case 'alternate':
+        return { onDays: 1, offDays: 1 };
+      case '21_7':
+        return { onDays: 21, offDays: 7 };
+      case 'custom':
+        return { onDays: parseInt(med.cycleOnDays), offDays: parseInt(med.cycleOffDays) };
+      default:
+        return null;
+    }
+  };
+
+  const addTaperStep = (med: MedicationToAdd) => {
+    const lastStep = med.taperSteps[med.taperSteps.length - 1];
+    updateMedication(med.id, {
+      taperSteps: [...med.taperSteps, {
+        id: `${med.id}-${Date.now()}`,
+        dosage: '',
+        frequency: lastStep?.frequency || med.frequency,
+        durationDays: '',
+      }],
+    });
+  };
+
+  const updateTaperStep = (med: MedicationToAdd, stepId: string, updates: Partial<TaperStepToAdd>) => {
+    updateMedication(med.id, {
+      taperSteps: med.taperSteps.map(step => step.id === stepId ? { ...step, ...updates } : step),
+    });
+  };
+
+  const removeTaperStep = (med: MedicationToAdd, stepId: string) => {
+    updateMedication(med.id, { taperSteps: med.taperSteps.filter(step => step.id !== stepId) });
+  };
+
+  // Build dose phases from the form; step 1 is the medication's own dosage and frequency
+  const buildDosePhases = (med: MedicationToAdd): DosePhase[] | null => {
+    if (!med.taperEnabled || med.taperSteps.length === 0) return null;
+
+    const steps = [
+      { dosage: med.dosage, frequency: med.frequency, durationDays: med.firstStepDays },
+      ...med.taperSteps,
+    ];
+
+    return steps.map((step, index) => ({
+      dosage: step.dosage.trim(),
+      dosage_unit: med.unit,
+      frequency: step.frequency,
+      duration_days: index === steps.length - 1 && !step.durationDays.trim()
+        ? null
+        : parseInt(step.durationDays),
+    }));
+  };
+
   const handleSave = async () => {
     // Validate all medications
     for (const med of medications) {
@@ -144,6 +360,47 @@ export default function BulkAddMedicationModal() {
           return;
         }
       }
+
+      if (med.unitsPerDose.trim() && !(parseFloat(med.unitsPerDose) > 0)) {
+        Alert.alert('Error', `Please enter how much one dose of ${med.name} uses`);
+        return;
+      }
+
+      if (med.cyclePattern === 'weekdays' && med.weekdays.length === 0) {
+        Alert.alert('Error', `Please choose at least one day for ${med.name}`);
+        return;
+      }
+
+      const minInterval = med.prnMinIntervalHours.trim() ? parseFloat(med.prnMinIntervalHours) : null;
+      const maxDoses = med.prnMaxDailyDoses.trim() ? parseInt(med.prnMaxDailyDoses) : null;
+      if (med.frequency === 'As needed' && [minInterval, maxDoses].some(limit => limit !== null && !(limit > 0))) {
+        Alert.alert('Error', `Please enter valid dose limits for ${med.name}`);
+        return;
+      }
+
+      if (med.courseDays.trim() && !(parseInt(med.courseDays) > 0)) {
+        Alert.alert('Error', `Please enter a valid course length for ${med.name}`);
+        return;
+      }
+
+      const cycleDays = getCycleDays(med);
+      if (cycleDays && !(cycleDays.onDays > 0 && cycleDays.offDays > 0)) {
+        Alert.alert('Error', `Please enter the days on and days off for ${med.name}`);
+        return;
+      }
+
+      // Every taper step needs a dose and a length; only the last may run on indefinitely
+      const phases = buildDosePhases(med);
+      if (phases) {
+        const invalidStep = phases.findIndex((phase, index) =>
+          !phase.dosage ||
+          (phase.duration_days === null ? index !== phases.length - 1 : isNaN(phase.duration_days) || phase.duration_days <= 0)
+        );
+        if (invalidStep !== -1) {
+          Alert.alert('Error', `Please enter a dosage and number of days for step ${invalidStep + 1} of ${med.name}`);
+          return;
+        }
+      }
     }
 
     if (!CURRENT_USER_ID) {
@@ -213,8 +470,29 @@ export default function BulkAddMedicationModal() {
             is_active: true,
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
-            start_date: med.startTime.toISOString().split('T')[0], // ✅ FIX 3: Use start time
+            start_date: dateTimeService.getDateString(med.startTime), // ✅ FIX 3: Use start time
+            end_date: med.courseDays.trim()
+              ? dateTimeService.addDays(dateTimeService.getDateString(med.startTime), parseInt(med.courseDays) - 1)
+              : null,
+            dose_phases: buildDosePhases(med),
+            cycle_on_days: getCycleDays(med)?.onDays ?? null,
+            cycle_off_days: getCycleDays(med)?.offDays ?? null,
+            weekdays: med.cyclePattern === 'weekdays' ? med.weekdays : null,
+            schedule_mode: med.rollingInterval && isRollingFrequency(med.frequency) ? 'rolling' : 'clock',
+            next_dose_at: med.rollingInterval && isRollingFrequency(med.frequency) ? med.startTime.toISOString() : null,
+            next_dose_index: med.rollingInterval && isRollingFrequency(med.frequency) ? 0 : null,
+            prn_min_interval_hours: med.frequency === 'As needed' && med.prnMinIntervalHours.trim()
+              ? parseFloat(med.prnMinIntervalHours)
+              : null,
+            prn_max_daily_doses: med.frequency === 'As needed' && med.prnMaxDailyDoses.trim()
+              ? parseInt(med.prnMaxDailyDoses)
+              : null,
+            priority: med.priority,
+            escalation: med.frequency === 'As needed'
+              ? null
+              : escalationService.buildPolicy(med.escalationPreset, med.escalationAlertCaregivers),
             expiry_date: med.expiryDate.toISOString().split('T')[0], // ✅ FIX 6: Per medication
+            gtin: med.gtin || null,
           };
 
           // ✅ FIX 5: Only add quantities if provided
@@ -222,31 +500,46 @@ export default function BulkAddMedicationModal() {
             medicationData.total_quantity = parseInt(med.totalQuantity);
             medicationData.current_quantity = parseInt(med.currentQuantity);
             medicationData.low_stock_threshold = parseInt(med.lowStockThreshold);
+            medicationData.package_unit = getPackageUnit(med);
+            medicationData.units_per_dose = med.unitsPerDose.trim() ? parseFloat(med.unitsPerDose) : null;
           } else {
             medicationData.total_quantity = 0;
             medicationData.current_quantity = 0;
             medicationData.low_stock_threshold = 0;
           }
 
-          const { data: newMedication, error } = await supabase
-            .from('medications')
-            .insert(medicationData)
-            .select()
-            .single();
-
-          if (error) throw error;
-
-          const notificationIds = await smartReminderService.scheduleSmartReminders(
-            newMedication.id,
-            med.name.trim(),
-            med.dosage.trim(),
-            med.unit,
-            med.frequency,
-            advanceMinutes,
-            med.notes.trim() || undefined
-          );
-
-          if (notificationIds.length === 0 && med.frequency !== 'As needed') {
+          const newMedication = await medicationRepository.createMedication(medicationData);
+
+          // A lot number starts the stock as a lot, so later packs are used after it
+          if (med.lotNumber.trim() && newMedication.current_quantity) {
+            await stockLotService.addLot(CURRENT_USER_ID, { id: newMedication.id }, {
+              quantity: newMedication.current_quantity,
+              expiry_date: newMedication.expiry_date,
+              lot_number: med.lotNumber,
+            });
+          }
+
+          // Rolling medications start with one reminder for the first dose (none if it's due now)
+          const rolling = doseScheduleService.isRolling(newMedication);
+          const notificationIds = rolling
+            ? [await notificationService.scheduleRollingReminder(newMedication)].filter((id): id is string => !!id)
+            : await smartReminderService.scheduleSmartReminders(
+              newMedication.id,
+              med.name.trim(),
+              med.dosage.trim(),
+              med.unit,
+              med.frequency,
+              advanceMinutes,
+              med.notes.trim() || undefined,
+              startTimeStr,
+              doseScheduleService.getCycle(newMedication),
+              doseScheduleService.getWeekdays(newMedication),
+              doseScheduleService.getCourseEndDate(newMedication),
+              newMedication.priority
+            );
+
+          // A cycle may be in its off days, with nothing to remind about this week
+          if (notificationIds.length === 0 && med.frequency !== 'As needed' && !getCycleDays(med) && !rolling) {
             throw new Error('Failed to schedule notifications');
           }
 
@@ -257,6 +550,11 @@ export default function BulkAddMedicationModal() {
         }
       }
 
+      // Catch anything left over from earlier edits or a failed save
+      if (successCount > 0) {
+        await reminderReconciliationService.reconcile(CURRENT_USER_ID);
+      }
+
       // Check drug interactions
       if (checkInteractions && successCount > 0) {
         setTimeout(async () => {
@@ -352,6 +650,11 @@ export default function BulkAddMedicationModal() {
                   </View>
                 )}
 
+                <Pressable style={styles.scanPackButton} onPress={() => setScanningFor(med.id)}>
+                  <Ionicons name="barcode-outline" size={20} color="#6366F1" />
+                  <Text style={styles.scanPackText}>{med.gtin ? 'Scan Another Pack' : 'Scan Medicine Pack'}</Text>
+                </Pressable>
+
                 <View style={styles.inputGroup}>
                   <Text style={styles.label}>Medication Name *</Text>
                   <TextInput
@@ -405,7 +708,7 @@ export default function BulkAddMedicationModal() {
                       <Pressable
                         key={freq.value}
                         style={[styles.frequencyButton, med.frequency === freq.value && styles.frequencyButtonActive]}
-                        onPress={() => updateMedication(med.id, { frequency: freq.value })}
+                        onPress={() => selectFrequency(med, freq.value)}
                       >
                         <Text style={styles.frequencyIcon}>{freq.icon}</Text>
                         <Text style={[styles.frequencyText, med.frequency === freq.value && styles.frequencyTextActive]}>
@@ -416,6 +719,193 @@ export default function BulkAddMedicationModal() {
                   </ScrollView>
                 </View>
 
+                {isRollingFrequency(med.frequency) && (
+                  <View style={styles.toggleSection}>
+                    <View style={styles.toggleContent}>
+                      <View style={styles.toggleTextContainer}>
+                        <Text style={styles.toggleTitle}>Time From Last Dose</Text>
+                        <Text style={styles.toggleDescription}>
+                          Remind {med.frequency.toLowerCase()} after each dose is actually taken, never between bedtime and wake time
+                        </Text>
+                      </View>
+                      <Switch
+                        value={med.rollingInterval}
+                        onValueChange={(value) => updateMedication(med.id, { rollingInterval: value })}
+                        trackColor={{ false: '#D1D5DB', true: '#6366F1' }}
+                        thumbColor="white"
+                      />
+                    </View>
+                  </View>
+                )}
+
+                {med.frequency === 'As needed' && (
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.label}>Dose Limits</Text>
+                    <View style={styles.row}>
+                      <TextInput
+                        style={[styles.input, { flex: 1, marginRight: 8 }]}
+                        value={med.prnMinIntervalHours}
+                        onChangeText={(text) => updateMedication(med.id, { prnMinIntervalHours: text })}
+                        placeholder="Min hours apart"
+                        keyboardType="numeric"
+                        placeholderTextColor="#9CA3AF"
+                      />
+                      <TextInput
+                        style={[styles.input, { flex: 1 }]}
+                        value={med.prnMaxDailyDoses}
+                        onChangeText={(text) => updateMedication(med.id, { prnMaxDailyDoses: text })}
+                        placeholder="Max per 24h"
+                        keyboardType="numeric"
+                        placeholderTextColor="#9CA3AF"
+                      />
+                    </View>
+                    <Text style={styles.helperText}>
+                      No reminders. A warning shows before a dose that would break either limit
+                    </Text>
+                  </View>
+                )}
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Which days?</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    {cyclePatterns.map((pattern) => (
+                      <Pressable
+                        key={pattern.value}
+                        style={[styles.frequencyButton, med.cyclePattern === pattern.value && styles.frequencyButtonActive]}
+                        onPress={() => updateMedication(med.id, { cyclePattern: pattern.value })}
+                      >
+                        <Text style={styles.frequencyIcon}>{pattern.icon}</Text>
+                        <Text style={[styles.frequencyText, med.cyclePattern === pattern.value && styles.frequencyTextActive]}>
+                          {pattern.label}
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </ScrollView>
+                  {med.cyclePattern === 'weekdays' && (
+                    <View style={[styles.row, { marginTop: 12, justifyContent: 'space-between' }]}>
+                      {WEEKDAY_LABELS.map((label, index) => (
+                        <Pressable
+                          key={label}
+                          style={[styles.weekdayButton, med.weekdays.includes(index + 1) && styles.frequencyButtonActive]}
+                          onPress={() => toggleWeekday(med, index + 1)}
+                        >
+                          <Text style={[styles.frequencyText, med.weekdays.includes(index + 1) && styles.frequencyTextActive]}>
+                            {label}
+                          </Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                  )}
+                  {med.cyclePattern === 'custom' && (
+                    <View style={[styles.row, { marginTop: 12 }]}>
+                      <TextInput
+                        style={[styles.input, { flex: 1, marginRight: 8 }]}
+                        value={med.cycleOnDays}
+                        onChangeText={(text) => updateMedication(med.id, { cycleOnDays: text })}
+                        placeholder="Days on"
+                        keyboardType="numeric"
+                        placeholderTextColor="#9CA3AF"
+                      />
+                      <TextInput
+                        style={[styles.input, { flex: 1 }]}
+                        value={med.cycleOffDays}
+                        onChangeText={(text) => updateMedication(med.id, { cycleOffDays: text })}
+                        placeholder="Days off"
+                        keyboardType="numeric"
+                        placeholderTextColor="#9CA3AF"
+                      />
+                    </View>
+                  )}
+                  {getCycleDays(med) && (
+                    <Text style={styles.helperText}>
+                      The cycle starts today; no reminders on off days
+                    </Text>
+                  )}
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Course Length (days)</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={med.courseDays}
+                    onChangeText={(text) => updateMedication(med.id, { courseDays: text })}
+                    placeholder="Leave blank if ongoing"
+                    keyboardType="numeric"
+                    placeholderTextColor="#9CA3AF"
+                  />
+                  {med.courseDays.trim() !== '' && (
+                    <Text style={styles.helperText}>
+                      Reminders stop after the last day and the course is marked completed
+                    </Text>
+                  )}
+                </View>
+
+                {med.frequency !== 'As needed' && (
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.label}>Reminder Priority</Text>
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                      {PRIORITY_OPTIONS.map((option) => (
+                        <Pressable
+                          key={option.value}
+                          style={[styles.frequencyButton, med.priority === option.value && styles.frequencyButtonActive]}
+                          onPress={() => updateMedication(med.id, { priority: option.value })}
+                        >
+                          <Text style={[styles.frequencyText, med.priority === option.value && styles.frequencyTextActive]}>
+                            {option.label}
+                          </Text>
+                        </Pressable>
+                      ))}
+                    </ScrollView>
+                    <Text style={styles.helperText}>
+                      {PRIORITY_OPTIONS.find(option => option.value === med.priority)?.description}
+                    </Text>
+                  </View>
+                )}
+
+                {med.frequency !== 'As needed' && (
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.label}>If a reminder is ignored</Text>
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                      {ESCALATION_PRESETS.map((preset) => (
+                        <Pressable
+                          key={preset.value}
+                          style={[styles.frequencyButton, med.escalationPreset === preset.value && styles.frequencyButtonActive]}
+                          onPress={() => updateMedication(med.id, { escalationPreset: preset.value })}
+                        >
+                          <Text style={[styles.frequencyText, med.escalationPreset === preset.value && styles.frequencyTextActive]}>
+                            {preset.label}
+                          </Text>
+                        </Pressable>
+                      ))}
+                    </ScrollView>
+                    {med.escalationPreset !== 'off' && (
+                      <>
+                        <Text style={styles.helperText}>
+                          {escalationService.describePolicy({
+                            escalation: escalationService.buildPolicy(med.escalationPreset, med.escalationAlertCaregivers),
+                          })}
+                        </Text>
+                        <View style={[styles.toggleSection, { marginTop: 12 }]}>
+                          <View style={styles.toggleContent}>
+                            <View style={styles.toggleTextContainer}>
+                              <Text style={styles.toggleTitle}>Alert Caregivers</Text>
+                              <Text style={styles.toggleDescription}>
+                                Let linked caregivers know when the dose is marked missed
+                              </Text>
+                            </View>
+                            <Switch
+                              value={med.escalationAlertCaregivers}
+                              onValueChange={(value) => updateMedication(med.id, { escalationAlertCaregivers: value })}
+                              trackColor={{ false: '#D1D5DB', true: '#6366F1' }}
+                              thumbColor="white"
+                            />
+                          </View>
+                        </View>
+                      </>
+                    )}
+                  </View>
+                )}
+
                 {/* ✅ FIX 3: Start time picker per medication */}
                 <View style={styles.inputGroup}>
                   <Text style={styles.label}>Start Time *</Text>
@@ -446,7 +936,9 @@ export default function BulkAddMedicationModal() {
                     />
                   )}
                   <Text style={styles.helperText}>
-                    Medication tracking will start from this time
+                    {doseScheduleService.getSchedule(med.frequency).kind === 'anchored'
+                      ? 'Reminder times follow your daily routine (Profile → Daily Routine)'
+                      : 'Medication tracking will start from this time'}
                   </Text>
                 </View>
 
@@ -464,6 +956,104 @@ export default function BulkAddMedicationModal() {
                   />
                 </View>
 
+                {/* Taper / titration steps */}
+                <View style={styles.toggleSection}>
+                  <View style={styles.toggleContent}>
+                    <View style={styles.toggleTextContainer}>
+                      <Text style={styles.toggleTitle}>Tapering / Titration</Text>
+                      <Text style={styles.toggleDescription}>
+                        Change the dose over time, e.g. 40mg for 5 days, then 30mg, then 20mg
+                      </Text>
+                    </View>
+                    <Switch
+                      value={med.taperEnabled}
+                      onValueChange={(value) => updateMedication(med.id, {
+                        taperEnabled: value,
+                        taperSteps: value && med.taperSteps.length === 0
+                          ? [{ id: `${med.id}-${Date.now()}`, dosage: '', frequency: med.frequency, durationDays: '' }]
+                          : med.taperSteps,
+                      })}
+                      trackColor={{ false: '#D1D5DB', true: '#6366F1' }}
+                      thumbColor="white"
+                    />
+                  </View>
+                </View>
+
+                {med.taperEnabled && (
+                  <View style={styles.taperBlock}>
+                    <View style={styles.inputGroup}>
+                      <Text style={styles.label}>
+                        Step 1: {med.dosage || '—'} {med.unit}, {med.frequency}
+                      </Text>
+                      <TextInput
+                        style={styles.input}
+                        value={med.firstStepDays}
+                        onChangeText={(text) => updateMedication(med.id, { firstStepDays: text })}
+                        placeholder="Number of days"
+                        keyboardType="numeric"
+                        placeholderTextColor="#9CA3AF"
+                      />
+                    </View>
+
+                    {med.taperSteps.map((step, stepIndex) => (
+                      <View key={step.id} style={styles.taperStep}>
+                        <View style={styles.medicationHeader}>
+                          <Text style={styles.medicationNumber}>Step {stepIndex + 2}</Text>
+                          <Pressable onPress={() => removeTaperStep(med, step.id)} style={styles.removeButton}>
+                            <Ionicons name="trash-outline" size={18} color="#EF4444" />
+                          </Pressable>
+                        </View>
+                        <View style={styles.row}>
+                          <View style={[styles.inputGroup, { flex: 1, marginRight: 8 }]}>
+                            <Text style={styles.label}>Dosage ({med.unit})</Text>
+                            <TextInput
+                              style={styles.input}
+                              value={step.dosage}
+                              onChangeText={(text) => updateTaperStep(med, step.id, { dosage: text })}
+                              placeholder="30"
+                              keyboardType="numeric"
+                              placeholderTextColor="#9CA3AF"
+                            />
+                          </View>
+                          <View style={[styles.inputGroup, { flex: 1 }]}>
+                            <Text style={styles.label}>Days</Text>
+                            <TextInput
+                              style={styles.input}
+                              value={step.durationDays}
+                              onChangeText={(text) => updateTaperStep(med, step.id, { durationDays: text })}
+                              placeholder={stepIndex === med.taperSteps.length - 1 ? 'Ongoing' : '5'}
+                              keyboardType="numeric"
+                              placeholderTextColor="#9CA3AF"
+                            />
+                          </View>
+                        </View>
+                        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                          {frequencies.map((freq) => (
+                            <Pressable
+                              key={freq.value}
+                              style={[styles.frequencyButton, step.frequency === freq.value && styles.frequencyButtonActive]}
+                              onPress={() => updateTaperStep(med, step.id, { frequency: freq.value })}
+                            >
+                              <Text style={styles.frequencyIcon}>{freq.icon}</Text>
+                              <Text style={[styles.frequencyText, step.frequency === freq.value && styles.frequencyTextActive]}>
+                                {freq.label}
+                              </Text>
+                            </Pressable>
+                          ))}
+                        </ScrollView>
+                      </View>
+                    ))}
+
+                    <Pressable style={styles.addStepButton} onPress={() => addTaperStep(med)}>
+                      <Ionicons name="add-circle-outline" size={20} color="#6366F1" />
+                      <Text style={styles.addStepText}>Add Step</Text>
+                    </Pressable>
+                    <Text style={styles.helperText}>
+                      Leave the last step&apos;s days blank to keep taking that dose
+                    </Text>
+                  </View>
+                )}
+
                 {index < medications.length - 1 && <View style={styles.divider} />}
               </View>
             ))}
@@ -545,6 +1135,18 @@ export default function BulkAddMedicationModal() {
                   )}
                 </View>
 
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Lot Number (optional)</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={med.lotNumber}
+                    onChangeText={(text) => updateMedication(med.id, { lotNumber: text })}
+                    placeholder="Printed on the pack"
+                    placeholderTextColor="#9CA3AF"
+                    autoCapitalize="characters"
+                  />
+                </View>
+
                 {/* ✅ FIX 5: Editable quantities per medication */}
                 <View style={styles.row}>
                   <View style={[styles.inputGroup, { flex: 1, marginRight: 8 }]}>
@@ -571,6 +1173,38 @@ export default function BulkAddMedicationModal() {
                   </View>
                 </View>
 
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Counted In</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    {PACKAGE_UNITS.map((unit) => (
+                      <Pressable
+                        key={unit}
+                        style={[styles.unitButton, getPackageUnit(med) === unit && styles.unitButtonActive]}
+                        onPress={() => updateMedication(med.id, { packageUnit: unit })}
+                      >
+                        <Text style={[styles.unitText, getPackageUnit(med) === unit && styles.unitTextActive]}>
+                          {unit}
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </ScrollView>
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Amount Per Dose ({getPackageUnit(med)})</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={med.unitsPerDose}
+                    onChangeText={(text) => updateMedication(med.id, { unitsPerDose: text })}
+                    placeholder={med.unit === getPackageUnit(med) && med.dosage ? med.dosage : '1'}
+                    keyboardType="decimal-pad"
+                    placeholderTextColor="#9CA3AF"
+                  />
+                  <Text style={styles.helperText}>
+                    Taken from stock each time you mark a {med.dosage || '?'} {med.unit} dose as taken
+                  </Text>
+                </View>
+
                 <View style={styles.inputGroup}>
                   <Text style={styles.label}>Low Stock Alert Threshold</Text>
                   <TextInput
@@ -582,7 +1216,7 @@ export default function BulkAddMedicationModal() {
                     placeholderTextColor="#9CA3AF"
                   />
                   <Text style={styles.helperText}>
-                    Alert when {med.lowStockThreshold || '0'} or fewer remaining
+                    Alert when {med.lowStockThreshold || '0'} {getPackageUnit(med)} or fewer remaining
                   </Text>
                 </View>
 
@@ -692,6 +1326,12 @@ export default function BulkAddMedicationModal() {
           <Ionicons name="add" size={28} color="white" />
         </LinearGradient>
       </Pressable>
+
+      <PackScanner
+        visible={scanningFor !== null}
+        onClose={() => setScanningFor(null)}
+        onScanned={handlePackScanned}
+      />
     </View>
   );
 }
@@ -717,6 +1357,8 @@ const styles = StyleSheet.create({
   medicationHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16, paddingBottom: 12, borderBottomWidth: 2, borderBottomColor: '#6366F1' },
   medicationNumber: { fontSize: 16, fontWeight: '700', color: '#6366F1' },
   removeButton: { padding: 8, borderRadius: 8, backgroundColor: '#FEE2E2' },
+  scanPackButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8, padding: 12, marginBottom: 16, borderRadius: 12, borderWidth: 1, borderStyle: 'dashed', borderColor: '#6366F1', backgroundColor: '#EEF2FF' },
+  scanPackText: { fontSize: 15, fontWeight: '600', color: '#6366F1' },
   divider: { height: 1, backgroundColor: '#E5E7EB', marginVertical: 24 },
   
   sharedSection: { backgroundColor: '#F9FAFB', padding: 16, borderRadius: 12, marginTop: 8 },
@@ -739,6 +1381,7 @@ const styles = StyleSheet.create({
   frequencyIcon: { fontSize: 18, marginBottom: 4 },
   frequencyText: { fontSize: 12, color: '#6B7280', fontWeight: '600', textAlign: 'center' },
   frequencyTextActive: { color: 'white' },
+  weekdayButton: { width: 40, paddingVertical: 10, borderRadius: 12, backgroundColor: '#F3F4F6', alignItems: 'center' },
   advanceButton: { paddingHorizontal: 12, paddingVertical: 10, borderRadius: 12, backgroundColor: '#F3F4F6', marginRight: 8, minWidth: 70, alignItems: 'center', borderWidth: 1, borderColor: '#E5E7EB' },
   advanceButtonActive: { backgroundColor: '#10B981', borderColor: '#10B981' },
   advanceIcon: { fontSize: 16, marginBottom: 2 },
@@ -756,6 +1399,10 @@ const styles = StyleSheet.create({
   dateText: { fontSize: 16, color: '#374151', fontWeight: '600' },
   
   toggleSection: { marginBottom: 16 },
+  taperBlock: { backgroundColor: '#F9FAFB', padding: 16, borderRadius: 12, marginBottom: 16 },
+  taperStep: { marginBottom: 16 },
+  addStepButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', padding: 12, borderRadius: 12, borderWidth: 1, borderColor: '#C7D2FE', borderStyle: 'dashed', gap: 8 },
+  addStepText: { fontSize: 14, fontWeight: '600', color: '#6366F1' },
   toggleContent: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', backgroundColor: '#F9FAFB', padding: 16, borderRadius: 12, borderWidth: 1, borderColor: '#D1D5DB' },
   toggleTextContainer: { flex: 1, marginRight: 12 },
   toggleTitle: { fontSize: 16, fontWeight: '700', color: '#1F2937', marginBottom: 4 },
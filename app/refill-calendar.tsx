@@ -0,0 +1,199 @@
+// app/refill-calendar.tsx - Upcoming runouts across all medications, month by month, with when to order each refill
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  Pressable,
+  RefreshControl,
+} from 'react-native';
+import { router } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../contexts/AuthContext';
+import { runoutForecastService, RunoutForecast } from '../services/runoutForecastService';
+import { refillService, REFILL_STATUS_LABELS } from '../services/refillService';
+import { dateTimeService } from '../services/dateTimeService';
+import { RefillRequest } from '../constants/Types';
+
+// Noon keeps the calendar day whatever the device's UTC offset
+const toDate = (dateString: string) => new Date(`${dateString}T12:00:00`);
+
+const formatDay = (dateString: string) =>
+  toDate(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const formatMonth = (dateString: string) =>
+  toDate(dateString).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+export default function RefillCalendarScreen() {
+  const { user } = useAuth();
+  const [forecasts, setForecasts] = useState<RunoutForecast[]>([]);
+  const [refills, setRefills] = useState<{ [medicationId: string]: RefillRequest }>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadCalendar = useCallback(async () => {
+    if (!user?.id) return;
+    try {
+      const [nextForecasts, openRefills] = await Promise.all([
+        runoutForecastService.getForecasts(user.id),
+        refillService.getOpenRefills(user.id),
+      ]);
+      setForecasts(nextForecasts);
+      setRefills(Object.fromEntries(openRefills.map(refill => [refill.medication_id, refill])));
+    } catch (error) {
+      console.error('Error loading refill calendar:', error);
+      Alert.alert('Error', 'Failed to load refill calendar');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadCalendar();
+  }, [loadCalendar]);
+
+  const handleRequestRefill = async (forecast: RunoutForecast) => {
+    if (!user?.id) return;
+    try {
+      const quantity = forecast.totalQuantity || Math.ceil(forecast.dailyConsumption * 30);
+      const refill = await refillService.requestRefill(
+        user.id,
+        { id: forecast.medicationId, medication_name: forecast.medicationName },
+        quantity
+      );
+      Alert.alert(
+        '✅ Refill Requested',
+        refill.pharmacy_name
+          ? `Sent to ${refill.pharmacy_name}. Track it in the Cabinet tab.`
+          : 'Your refill request has been saved and will be sent to your pharmacy when it can be reached.'
+      );
+      loadCalendar();
+    } catch (error) {
+      console.error('Error requesting refill:', error);
+      Alert.alert('Error', 'Failed to request refill');
+    }
+  };
+
+  const today = dateTimeService.getDateString();
+  const upcoming = forecasts.filter(forecast => forecast.runoutDate);
+  const lasting = forecasts.filter(forecast => !forecast.runoutDate);
+  const months = [...new Set(upcoming.map(forecast => forecast.runoutDate!.slice(0, 7)))];
+
+  const renderForecast = (forecast: RunoutForecast) => {
+    const refill = refills[forecast.medicationId];
+    const orderNow = !refill && !!forecast.refillByDate && forecast.refillByDate <= today;
+
+    return (
+      <View key={forecast.medicationId} style={styles.runoutRow}>
+        <View style={[styles.dateBadge, orderNow && styles.dateBadgeUrgent]}>
+          <Text style={[styles.dateBadgeDay, orderNow && styles.dateBadgeTextUrgent]}>
+            {toDate(forecast.runoutDate!).getDate()}
+          </Text>
+          <Text style={[styles.dateBadgeWeekday, orderNow && styles.dateBadgeTextUrgent]}>
+            {toDate(forecast.runoutDate!).toLocaleDateString('en-US', { weekday: 'short' })}
+          </Text>
+        </View>
+        <View style={styles.runoutInfo}>
+          <Text style={styles.runoutName}>{forecast.medicationName}</Text>
+          <Text style={styles.runoutDetails}>
+            {forecast.currentQuantity} {forecast.packageUnit} left · ~{forecast.daysLeft} day{forecast.daysLeft === 1 ? '' : 's'}
+          </Text>
+          <Text style={[styles.runoutDetails, orderNow && styles.orderNowText]}>
+            {orderNow ? 'Order now' : `Order by ${formatDay(forecast.refillByDate!)}`}
+            {forecast.basis === 'history' ? ' · from recent doses' : ' · from schedule'}
+          </Text>
+        </View>
+        {refill ? (
+          <Text style={styles.refillBadge}>{REFILL_STATUS_LABELS[refill.status]}</Text>
+        ) : (
+          <Pressable style={styles.requestButton} onPress={() => handleRequestRefill(forecast)}>
+            <Text style={styles.requestButtonText}>Refill</Text>
+          </Pressable>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient colors={['#667EEA', '#764BA2']} style={styles.header}>
+        <View style={styles.headerContent}>
+          <Pressable onPress={() => router.back()} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color="white" />
+          </Pressable>
+          <Text style={styles.title}>Refill Calendar</Text>
+          <View style={{ width: 24 }} />
+        </View>
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.list}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={() => { setRefreshing(true); loadCalendar(); }} />
+        }
+      >
+        {loading ? (
+          <Text style={styles.emptyText}>Loading...</Text>
+        ) : forecasts.length === 0 ? (
+          <Text style={styles.emptyText}>Track stock for a medication to see when it runs out.</Text>
+        ) : (
+          <>
+            {months.map(month => (
+              <View key={month} style={styles.monthSection}>
+                <Text style={styles.monthTitle}>{formatMonth(`${month}-01`)}</Text>
+                {upcoming.filter(forecast => forecast.runoutDate!.startsWith(month)).map(renderForecast)}
+              </View>
+            ))}
+
+            {lasting.length > 0 && (
+              <View style={styles.monthSection}>
+                <Text style={styles.monthTitle}>No Runout Ahead</Text>
+                {lasting.map(forecast => (
+                  <View key={forecast.medicationId} style={styles.lastingRow}>
+                    <Ionicons name="checkmark-circle" size={20} color="#10B981" />
+                    <Text style={styles.runoutName}>{forecast.medicationName}</Text>
+                    <Text style={styles.runoutDetails}>
+                      {forecast.dailyConsumption > 0 ? 'Lasts over a year' : 'No regular use'}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#F8FAFC' },
+  header: { paddingTop: 50, paddingBottom: 20, paddingHorizontal: 20 },
+  headerContent: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  closeButton: { padding: 4 },
+  title: { fontSize: 20, fontWeight: '700', color: 'white' },
+  list: { flex: 1 },
+  listContent: { padding: 20, gap: 20 },
+  emptyText: { fontSize: 16, color: '#6B7280', textAlign: 'center', marginTop: 40 },
+  monthSection: { gap: 12 },
+  monthTitle: { fontSize: 16, fontWeight: '700', color: '#1F2937' },
+  runoutRow: { flexDirection: 'row', alignItems: 'center', padding: 16, borderRadius: 12, backgroundColor: 'white', borderWidth: 1, borderColor: '#E5E7EB', gap: 12 },
+  dateBadge: { width: 48, alignItems: 'center', paddingVertical: 6, borderRadius: 10, backgroundColor: '#EEF2FF' },
+  dateBadgeUrgent: { backgroundColor: '#FEE2E2' },
+  dateBadgeDay: { fontSize: 18, fontWeight: '700', color: '#6366F1' },
+  dateBadgeWeekday: { fontSize: 11, fontWeight: '600', color: '#6366F1' },
+  dateBadgeTextUrgent: { color: '#EF4444' },
+  runoutInfo: { flex: 1 },
+  runoutName: { fontSize: 16, fontWeight: '700', color: '#1F2937' },
+  runoutDetails: { fontSize: 13, color: '#6B7280', marginTop: 2 },
+  orderNowText: { color: '#EF4444', fontWeight: '600' },
+  refillBadge: { fontSize: 12, fontWeight: '600', paddingHorizontal: 8, paddingVertical: 4, borderRadius: 8, overflow: 'hidden', backgroundColor: '#D1FAE5', color: '#047857' },
+  requestButton: { paddingHorizontal: 12, paddingVertical: 8, borderRadius: 8, backgroundColor: '#6366F1' },
+  requestButtonText: { fontSize: 13, fontWeight: '600', color: 'white' },
+  lastingRow: { flexDirection: 'row', alignItems: 'center', padding: 16, borderRadius: 12, backgroundColor: 'white', gap: 12 },
+});
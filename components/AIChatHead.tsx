@@ -18,7 +18,8 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { geminiService, ChatMessage } from '../services/geminiService';
-import { supabase } from '../services/supabaseClient';
+import { medicationRepository } from '../services/medicationRepository';
+import { prnService } from '../services/prnService';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 const CHAT_HEAD_SIZE = 60;
@@ -57,14 +58,14 @@ export default function AIChatHead({ userId }: AIChatHeadProps) {
 
   const loadMedications = async () => {
     try {
-      const { data, error } = await supabase
-        .from('medications')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('is_active', true);
+      const data = await medicationRepository.listActiveMedications(userId);
 
-      if (error) throw error;
-      setMedications(data || []);
+      // Recent as-needed usage lets the assistant answer "how often have I needed this?"
+      const prnUsage = await prnService.getUsageTrends(userId);
+      setMedications(data.map(med => ({
+        ...med,
+        prn_usage: prnUsage.find(usage => usage.medicationId === med.id),
+      })));
     } catch (error) {
       console.error('Error loading medications:', error);
     }
@@ -0,0 +1,222 @@
+// components/AsNeededCard.tsx - "I took a dose now" card for as-needed (PRN) medications
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { prnService, PrnDoseCheck, PrnMedication } from '../services/prnService';
+
+interface AsNeededCardProps {
+  medication: PrnMedication & {
+    dosage: string;
+    dosage_unit: string;
+    notes?: string;
+  };
+  userId: string; // Whose doses to show (the patient when viewed by a caregiver)
+  isViewOnly?: boolean;
+  onLogged?: () => void;
+}
+
+const AsNeededCard: React.FC<AsNeededCardProps> = ({
+  medication,
+  userId,
+  isViewOnly = false,
+  onLogged,
+}) => {
+  const [check, setCheck] = useState<PrnDoseCheck | null>(null);
+  const [logging, setLogging] = useState(false);
+
+  const loadRecentDoses = useCallback(async () => {
+    try {
+      const recentDoses = await prnService.getRecentDoses(userId, medication.id);
+      setCheck(prnService.checkDose(medication, recentDoses));
+    } catch (error) {
+      console.error('Error loading recent PRN doses:', error);
+      setCheck(null);
+    }
+  }, [medication, userId]);
+
+  useEffect(() => {
+    loadRecentDoses();
+  }, [loadRecentDoses]);
+
+  const logDose = async () => {
+    try {
+      setLogging(true);
+      await prnService.logDose(userId, medication.id);
+      await loadRecentDoses();
+      onLogged?.();
+    } catch (error) {
+      console.error('Error logging as-needed dose:', error);
+      Alert.alert('Error', 'Failed to log dose. Please try again.');
+    } finally {
+      setLogging(false);
+    }
+  };
+
+  // Re-check against fresh logs so a dose logged elsewhere is counted
+  const handleTookDose = async () => {
+    let latest: PrnDoseCheck;
+    try {
+      const recentDoses = await prnService.getRecentDoses(userId, medication.id);
+      latest = prnService.checkDose(medication, recentDoses);
+    } catch (error) {
+      // Unknown isn't the same as none taken; let the user decide
+      console.error('Error checking recent PRN doses:', error);
+      Alert.alert(
+        '⚠️ Couldn\'t Check Recent Doses',
+        `Your recent doses of ${medication.medication_name} couldn't be loaded, so the dose limits weren't checked.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Log Anyway', style: 'destructive', onPress: logDose },
+        ]
+      );
+      return;
+    }
+    setCheck(latest);
+
+    if (latest.warnings.length === 0) {
+      await logDose();
+      return;
+    }
+
+    Alert.alert(
+      '⚠️ Dose Limit',
+      `${latest.warnings.join('\n\n')}\n\nCheck with your doctor or pharmacist before taking more.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Log Anyway', style: 'destructive', onPress: logDose },
+      ]
+    );
+  };
+
+  const limits = prnService.describeLimits(medication);
+  const overLimit = (check?.warnings.length || 0) > 0;
+
+  return (
+    <LinearGradient
+      colors={overLimit ? ['#F59E0B', '#D97706'] : ['#0EA5E9', '#6366F1']}
+      start={{ x: 0, y: 0 }}
+      end={{ x: 1, y: 1 }}
+      style={styles.card}
+    >
+      <View style={styles.header}>
+        <View style={styles.medicationInfo}>
+          <Text style={styles.medicationName}>{medication.medication_name}</Text>
+          <Text style={styles.dosage}>
+            {medication.dosage} {medication.dosage_unit}
+          </Text>
+          <Text style={styles.limits}>{limits ? `As needed • ${limits}` : 'As needed'}</Text>
+        </View>
+        <View style={styles.badge}>
+          <Ionicons name="hand-left-outline" size={16} color="white" />
+          <Text style={styles.badgeText}>PRN</Text>
+        </View>
+      </View>
+
+      {check && (
+        <View style={styles.statusContainer}>
+          <Text style={styles.statusText}>{prnService.describeCheck(medication, check)}</Text>
+        </View>
+      )}
+
+      {!isViewOnly && (
+        <Pressable style={styles.takeButton} onPress={handleTookDose} disabled={logging}>
+          {logging ? (
+            <ActivityIndicator color="#6366F1" />
+          ) : (
+            <>
+              <Ionicons name="add-circle-outline" size={20} color="#6366F1" />
+              <Text style={styles.takeText}>I took a dose now</Text>
+            </>
+          )}
+        </Pressable>
+      )}
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    padding: 20,
+    marginHorizontal: 16,
+    marginVertical: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
+  medicationInfo: {
+    flex: 1,
+  },
+  medicationName: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: 'white',
+    marginBottom: 4,
+  },
+  dosage: {
+    fontSize: 16,
+    color: '#E5E7EB',
+    marginBottom: 2,
+  },
+  limits: {
+    fontSize: 14,
+    color: '#E0E7FF',
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  badgeText: {
+    fontSize: 14,
+    color: 'white',
+    marginLeft: 4,
+    fontWeight: '600',
+  },
+  statusContainer: {
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  statusText: {
+    fontSize: 14,
+    color: 'white',
+    fontWeight: '500',
+  },
+  takeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  takeText: {
+    color: '#6366F1',
+    fontWeight: '600',
+    fontSize: 16,
+    marginLeft: 8,
+  },
+});
+
+export default AsNeededCard;
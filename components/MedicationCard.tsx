@@ -28,6 +28,8 @@ interface MedicationCardProps {
   takenToday?: boolean;
   skippedToday?: boolean;
   isViewOnly?: boolean; // ✅ NEW: View-only mode for caregivers
+  doseTime?: string; // Scheduled time of this dose (defaults to reminder_time)
+  doseLabel?: string; // e.g. "Dose 2 of 4" for multi-dose schedules
 }
 
 const formatTime = (time: string): string => {
@@ -50,6 +52,8 @@ const MedicationCard: React.FC<MedicationCardProps> = ({
   takenToday = false,
   skippedToday = false,
   isViewOnly = false, // ✅ NEW: Default to false
+  doseTime,
+  doseLabel,
 }) => {
   const [localTaken, setLocalTaken] = useState(takenToday);
   const [localSkipped, setLocalSkipped] = useState(skippedToday);
@@ -88,12 +92,14 @@ const MedicationCard: React.FC<MedicationCardProps> = ({
           <Text style={styles.dosage}>
             {medication.dosage} {medication.dosage_unit}
           </Text>
-          <Text style={styles.frequency}>{medication.frequency}</Text>
+          <Text style={styles.frequency}>
+            {doseLabel ? `${medication.frequency} • ${doseLabel}` : medication.frequency}
+          </Text>
         </View>
         <View style={styles.timeContainer}>
           <Ionicons name="time-outline" size={16} color="#E5E7EB" />
           <Text style={styles.time}>
-            {formatTime(medication.reminder_time)}
+            {formatTime(doseTime || medication.reminder_time)}
           </Text>
         </View>
       </View>
@@ -0,0 +1,293 @@
+// components/PackScanner.tsx - Scan the barcode or GS1 DataMatrix code on a medicine pack
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Alert,
+  TextInput,
+} from 'react-native';
+import Modal from 'react-native-modal';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { packScanService, PackScan } from '../services/packScanService';
+
+interface PackScannerProps {
+  visible: boolean;
+  onClose: () => void;
+  onScanned: (scan: PackScan) => void;
+}
+
+const PackScanner: React.FC<PackScannerProps> = ({
+  visible,
+  onClose,
+  onScanned,
+}) => {
+  const [permission, requestPermission] = useCameraPermissions();
+  const [scanned, setScanned] = useState(false);
+  const [manualCode, setManualCode] = useState('');
+  const [showManualInput, setShowManualInput] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setScanned(false);
+      setManualCode('');
+      setShowManualInput(false);
+    }
+  }, [visible]);
+
+  const readCode = (data: string, type?: string) => {
+    const scan = packScanService.parse(data, type);
+    console.log('📦 Pack code scanned:', scan.gtin, scan.expiryDate, scan.lotNumber);
+
+    if (!packScanService.hasPackData(scan)) {
+      Alert.alert(
+        'Code Not Recognized',
+        'That doesn\'t look like a medicine pack barcode. Try the barcode or square code on the box.',
+        [{ text: 'OK', onPress: () => setScanned(false) }]
+      );
+      return;
+    }
+
+    onClose();
+    onScanned(scan);
+  };
+
+  const handleBarCodeScanned = ({ type, data }: { type: string; data: string }) => {
+    if (scanned) return;
+    setScanned(true);
+    readCode(data, type);
+  };
+
+  const handleManualSubmit = () => {
+    if (!manualCode.trim()) {
+      Alert.alert('Error', 'Please enter the code printed on the pack');
+      return;
+    }
+    readCode(manualCode);
+  };
+
+  if (!permission) {
+    return null;
+  }
+
+  return (
+    <Modal
+      isVisible={visible}
+      onBackdropPress={onClose}
+      style={styles.modal}
+    >
+      <View style={styles.modalContent}>
+        <View style={styles.handle} />
+
+        <LinearGradient
+          colors={['#6366F1', '#8B5CF6']}
+          style={styles.header}
+        >
+          <Text style={styles.title}>
+            {showManualInput ? 'Enter Pack Code' : 'Scan Medicine Pack'}
+          </Text>
+          <Pressable onPress={onClose} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color="white" />
+          </Pressable>
+        </LinearGradient>
+
+        <View style={styles.content}>
+          {showManualInput ? (
+            <View style={styles.manualInputContainer}>
+              <Text style={styles.description}>
+                Type the numbers under the barcode, or the (01)(17)(10) line printed next to the square code
+              </Text>
+
+              <TextInput
+                style={styles.codeInput}
+                value={manualCode}
+                onChangeText={setManualCode}
+                placeholder="(01)04801234000011(17)271231(10)A123"
+                placeholderTextColor="#9CA3AF"
+                autoCapitalize="characters"
+                autoCorrect={false}
+              />
+
+              <Pressable style={styles.submitButton} onPress={handleManualSubmit}>
+                <LinearGradient colors={['#10B981', '#059669']} style={styles.submitButtonGradient}>
+                  <Ionicons name="checkmark-circle" size={24} color="white" />
+                  <Text style={styles.submitButtonText}>Use Code</Text>
+                </LinearGradient>
+              </Pressable>
+
+              {permission.granted && (
+                <Pressable onPress={() => setShowManualInput(false)}>
+                  <Text style={styles.linkText}>Scan the pack instead</Text>
+                </Pressable>
+              )}
+            </View>
+          ) : !permission.granted ? (
+            <>
+              <Ionicons name="camera-outline" size={64} color="#6B7280" />
+              <Text style={styles.permissionText}>
+                Camera access is required to scan medicine packs
+              </Text>
+              <Pressable style={styles.submitButton} onPress={requestPermission}>
+                <LinearGradient colors={['#6366F1', '#8B5CF6']} style={styles.submitButtonGradient}>
+                  <Text style={styles.submitButtonText}>Grant Permission</Text>
+                </LinearGradient>
+              </Pressable>
+              <Pressable onPress={() => setShowManualInput(true)}>
+                <Text style={styles.linkText}>Or enter the code manually</Text>
+              </Pressable>
+            </>
+          ) : (
+            <>
+              <Text style={styles.description}>
+                Point your camera at the barcode or the small square code on the box
+              </Text>
+
+              <View style={styles.cameraContainer}>
+                <CameraView
+                  style={styles.camera}
+                  onBarcodeScanned={scanned ? undefined : handleBarCodeScanned}
+                  barcodeScannerSettings={{
+                    barcodeTypes: ['datamatrix', 'ean13', 'ean8', 'upc_a', 'upc_e', 'code128'],
+                  }}
+                />
+                <View style={styles.scanOverlay}>
+                  <View style={styles.scanFrame} />
+                </View>
+              </View>
+
+              <Pressable onPress={() => setShowManualInput(true)}>
+                <Text style={styles.linkText}>Enter code manually</Text>
+              </Pressable>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modal: {
+    justifyContent: 'flex-end',
+    margin: 0,
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    backgroundColor: '#D1D5DB',
+    alignSelf: 'center',
+    marginTop: 8,
+    borderRadius: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: 'white',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    padding: 24,
+    alignItems: 'center',
+  },
+  description: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  cameraContainer: {
+    width: '100%',
+    height: 300,
+    borderRadius: 20,
+    overflow: 'hidden',
+    marginBottom: 24,
+    position: 'relative',
+  },
+  camera: {
+    flex: 1,
+  },
+  scanOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scanFrame: {
+    width: 280,
+    height: 160,
+    borderWidth: 3,
+    borderColor: 'white',
+    borderRadius: 20,
+    backgroundColor: 'transparent',
+  },
+  linkText: {
+    fontSize: 16,
+    color: '#6366F1',
+    fontWeight: '600',
+    textDecorationLine: 'underline',
+  },
+  manualInputContainer: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  codeInput: {
+    width: '100%',
+    borderWidth: 2,
+    borderColor: '#D1D5DB',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 24,
+    color: '#1F2937',
+    backgroundColor: '#F9FAFB',
+  },
+  submitButton: {
+    width: '100%',
+    borderRadius: 12,
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+  submitButtonGradient: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 18,
+    gap: 8,
+  },
+  submitButtonText: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: 'white',
+  },
+  permissionText: {
+    fontSize: 18,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 24,
+    marginBottom: 32,
+    lineHeight: 26,
+  },
+});
+
+export default PackScanner;
@@ -0,0 +1,26 @@
+// constants/PackCatalog.ts - Local lookup of medicine packs by GTIN, used to fill in a scanned pack
+// Keys are 14-digit GTINs; EAN-13 and UPC-A codes are looked up with leading zeros added.
+// The entries are placeholder codes for common generics; add your pharmacy's packs here.
+import { PackageUnit } from '../services/doseScheduleService';
+
+export interface PackProduct {
+  medication_name: string;
+  dosage: string;
+  dosage_unit: string;
+  package_unit: PackageUnit;
+  pack_size: number; // Package units in one pack
+}
+
+export const PACK_CATALOG: { [gtin: string]: PackProduct } = {
+  '04801234000011': { medication_name: 'Paracetamol', dosage: '500', dosage_unit: 'mg', package_unit: 'tablets', pack_size: 20 },
+  '04801234000028': { medication_name: 'Ibuprofen', dosage: '200', dosage_unit: 'mg', package_unit: 'tablets', pack_size: 24 },
+  '04801234000035': { medication_name: 'Amoxicillin', dosage: '500', dosage_unit: 'mg', package_unit: 'capsules', pack_size: 21 },
+  '04801234000042': { medication_name: 'Metformin', dosage: '500', dosage_unit: 'mg', package_unit: 'tablets', pack_size: 30 },
+  '04801234000059': { medication_name: 'Losartan', dosage: '50', dosage_unit: 'mg', package_unit: 'tablets', pack_size: 30 },
+  '04801234000066': { medication_name: 'Amlodipine', dosage: '5', dosage_unit: 'mg', package_unit: 'tablets', pack_size: 30 },
+  '04801234000073': { medication_name: 'Cetirizine', dosage: '10', dosage_unit: 'mg', package_unit: 'tablets', pack_size: 10 },
+  '04801234000080': { medication_name: 'Salbutamol Inhaler', dosage: '100', dosage_unit: 'mcg', package_unit: 'puffs', pack_size: 200 },
+  '04801234000097': { medication_name: 'Paracetamol Syrup', dosage: '5', dosage_unit: 'ml', package_unit: 'ml', pack_size: 60 },
+  '04801234000103': { medication_name: 'Omeprazole', dosage: '20', dosage_unit: 'mg', package_unit: 'capsules', pack_size: 14 },
+  '04801234000110': { medication_name: 'Atorvastatin', dosage: '20', dosage_unit: 'mg', package_unit: 'tablets', pack_size: 30 },
+};
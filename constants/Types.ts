@@ -7,6 +7,23 @@ export interface User {
   updated_at: string;
 }
 
+// One step of a taper or titration; phases run back to back from start_date
+export interface DosePhase {
+  dosage: string;
+  dosage_unit?: string | null; // Defaults to the medication's unit
+  frequency: string;
+  duration_days: number | null; // null = continues indefinitely (e.g. maintenance dose)
+}
+
+// Follow-ups for a dose nobody has logged: re-notify after each delay, then mark it missed
+export interface EscalationPolicy {
+  renotify_minutes: number[]; // Minutes after the dose was due, e.g. [10, 20]
+  missed_after_minutes: number;
+  alert_caregivers: boolean; // Tell linked caregivers once the dose is marked missed
+}
+
+// One medication row, used by every screen and service (services/supabaseClient.ts re-exports it
+// as DatabaseMedication)
 export interface Medication {
   id: string;
   user_id: string;
@@ -15,14 +32,35 @@ export interface Medication {
   dosage_unit: string;
   frequency: string;
   start_date: string;
-  end_date?: string;
-  expiry_date?: string;
+  end_date?: string | null;
+  expiry_date?: string | null;
   reminder_time: string;
+  advance_reminder_minutes?: number;
+  dose_phases?: DosePhase[] | null; // Taper/titration steps; dosage and frequency above apply when empty
+  cycle_on_days?: number | null; // Cyclic regimen: dosing days per cycle, counted from start_date
+  cycle_off_days?: number | null; // Cyclic regimen: rest days per cycle
+  weekdays?: number[] | null; // Days taken, 1 = Sunday ... 7 = Saturday; every day when empty
+  prn_min_interval_hours?: number | null; // As needed: minimum hours between doses
+  prn_max_daily_doses?: number | null; // As needed: maximum doses in any 24 hours
+  schedule_mode?: 'clock' | 'rolling' | null; // rolling = each dose timed from the last one taken
+  next_dose_at?: string | null; // Rolling: when the next dose is due
+  next_dose_index?: number | null; // Rolling: dose slot of the next dose on its day
+  escalation?: EscalationPolicy | null; // Follow-ups when a reminder is ignored; none when empty
+  priority?: 'critical' | 'normal' | 'low' | null; // critical breaks through Do Not Disturb; low waits out quiet hours
+  total_quantity?: number | null; // Stock tracking; 0 or empty when not tracked
+  current_quantity?: number | null;
+  low_stock_threshold?: number | null;
+  package_unit?: 'tablets' | 'capsules' | 'ml' | 'puffs' | 'drops' | null; // What the quantities count; see doseScheduleService.getPackageUnit
+  units_per_dose?: number | null; // Package units one dose uses, at the dosage above
+  gtin?: string | null; // 14-digit GTIN from a scanned pack, to match restock scans
+  disposed_at?: string | null;
   notes?: string;
   image?: string;
   custom_interval?: number;
   custom_interval_unit?: string;
   is_active: boolean;
+  status?: 'active' | 'paused' | 'completed' | null; // completed = course ended; is_active is false too
+  completed_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -33,10 +71,46 @@ export interface MedicationLog {
   user_id: string;
   log_date: string;
   status: 'taken' | 'missed' | 'skipped';
+  dose_index?: number | null; // Slot in the day's schedule; null on legacy one-per-day logs
+  scheduled_time?: string | null; // HH:MM the dose was due
   notes?: string;
   logged_at: string;
 }
 
+// One pack of a medication with its own count and expiry; a medication's stock is the sum of its open lots
+export interface StockLot {
+  id: string;
+  medication_id: string;
+  user_id: string;
+  quantity: number; // In the medication's package unit
+  expiry_date?: string | null;
+  lot_number?: string | null;
+  opened_at?: string | null;
+  disposed_at?: string | null;
+  created_at: string;
+}
+
+// requested -> acknowledged -> ready -> picked_up; cancelled from any open step. Older rows say 'pending' for requested.
+export type RefillStatus = 'requested' | 'acknowledged' | 'ready' | 'picked_up' | 'cancelled';
+
+export interface RefillRequest {
+  id: string;
+  medication_id: string;
+  user_id: string;
+  status: RefillStatus;
+  quantity_requested: number; // In the medication's package unit
+  requested_at: string;
+  acknowledged_at?: string | null;
+  ready_at?: string | null;
+  picked_up_at?: string | null;
+  cancelled_at?: string | null;
+  pharmacy_name?: string | null;
+  pharmacy_reference?: string | null; // The pharmacy's id for the order; null until it has been sent
+  lot_number?: string | null; // What the pharmacy dispensed, once ready
+  expiry_date?: string | null;
+  updated_at?: string | null;
+}
+
 export interface Session {
   id: string;
   user_id: string;
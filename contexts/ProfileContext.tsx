@@ -1,11 +1,17 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { useAuth } from './AuthContext';
 import { profileService, UserProfile } from '../services/profileService';
+import { dateTimeService } from '../services/dateTimeService';
+import { travelService } from '../services/travelService';
+import { doseScheduleService } from '../services/doseScheduleService';
+import { routineService } from '../services/routineService';
+import { notificationService } from '../services/notificationService';
+import { reminderReconciliationService } from '../services/reminderReconciliationService';
 
 interface ProfileContextType {
   profile: UserProfile | null;
   loading: boolean;
-  updateProfile: (updates: Partial<Pick<UserProfile, 'display_name' | 'avatar_url'>>) => Promise<boolean>;
+  updateProfile: (updates: Partial<Pick<UserProfile, 'display_name' | 'avatar_url' | 'timezone' | 'daily_routine' | 'quiet_hours' | 'notifications_enabled' | 'sound_enabled' | 'vibration_enabled' | 'snooze_option' | 'max_snoozes'>>) => Promise<boolean>;
   uploadAvatar: (uri: string) => Promise<boolean>;
   refreshProfile: () => Promise<void>;
 }
@@ -29,7 +35,22 @@ export const ProfileProvider: React.FC<{ children: React.ReactNode }> = ({ child
   const loadProfile = async () => {
     try {
       setLoading(true);
-      const userProfile = await profileService.getCurrentProfile();
+      let userProfile = await profileService.getCurrentProfile();
+
+      // Profiles created before time zones were stored adopt the device's zone
+      if (userProfile && !userProfile.timezone) {
+        userProfile = await profileService.updateProfile({ timezone: dateTimeService.getDeviceTimeZone() }) || userProfile;
+      }
+
+      dateTimeService.setTimeZone(userProfile?.timezone);
+      doseScheduleService.setRoutine(userProfile?.daily_routine);
+      notificationService.setQuietHours(userProfile?.quiet_hours);
+      notificationService.applyPreferences(userProfile);
+      if (userProfile) {
+        // Rebuild reminders if the device clock or travel shift changed since they were scheduled,
+        // otherwise reconcile the notification queue with the schedule
+        travelService.syncReminders(userProfile.user_id);
+      }
       setProfile(userProfile);
     } catch (error) {
       console.error('Error loading profile:', error);
@@ -38,11 +59,32 @@ export const ProfileProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
-  const updateProfile = async (updates: Partial<Pick<UserProfile, 'display_name' | 'avatar_url'>>): Promise<boolean> => {
+  const updateProfile = async (updates: Partial<Pick<UserProfile, 'display_name' | 'avatar_url' | 'timezone' | 'daily_routine' | 'quiet_hours' | 'notifications_enabled' | 'sound_enabled' | 'vibration_enabled' | 'snooze_option' | 'max_snoozes'>>): Promise<boolean> => {
     try {
       const updatedProfile = await profileService.updateProfile(updates);
       if (updatedProfile) {
+        dateTimeService.setTimeZone(updatedProfile.timezone);
+        doseScheduleService.setRoutine(updatedProfile.daily_routine);
+        notificationService.setQuietHours(updatedProfile.quiet_hours);
+        notificationService.applyPreferences(updatedProfile);
         setProfile(updatedProfile);
+
+        // Meal- and sleep-anchored reminders move with the routine
+        if (updates.daily_routine) {
+          await routineService.rescheduleAnchoredMedications(updatedProfile.user_id);
+        }
+        // Sound and vibration are baked into queued reminders, so rebuild them all
+        if ('notifications_enabled' in updates || 'sound_enabled' in updates || 'vibration_enabled' in updates) {
+          if (updatedProfile.notifications_enabled === false) {
+            await notificationService.cancelAllNotifications();
+          } else {
+            await travelService.syncReminders(updatedProfile.user_id, true);
+          }
+        }
+        // Low-priority reminders move in or out of quiet hours
+        if ('quiet_hours' in updates) {
+          await reminderReconciliationService.reconcile(updatedProfile.user_id);
+        }
         return true;
       }
       return false;
@@ -0,0 +1,36 @@
+// jest.setup.ts - Test environment: services run against in-memory storage, data and notifications, never the network
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// The notification queue lives in memory; enums keep the values services pass through
+jest.mock('expo-notifications', () => {
+  let queue: { identifier: string; content: any; trigger: any }[] = [];
+  let nextId = 1;
+
+  return {
+    AndroidImportance: { DEFAULT: 3, HIGH: 4, MAX: 5 },
+    AndroidNotificationPriority: { DEFAULT: 'default', HIGH: 'high', MAX: 'max' },
+    AndroidNotificationVisibility: { PUBLIC: 1 },
+    SchedulableTriggerInputTypes: { DAILY: 'daily', DATE: 'date', TIME_INTERVAL: 'timeInterval', WEEKLY: 'weekly' },
+    scheduleNotificationAsync: jest.fn(async ({ content, trigger, identifier }) => {
+      const id = identifier || `notification-${nextId++}`;
+      queue.push({ identifier: id, content, trigger });
+      return id;
+    }),
+    getAllScheduledNotificationsAsync: jest.fn(async () => [...queue]),
+    cancelScheduledNotificationAsync: jest.fn(async (id: string) => {
+      queue = queue.filter(item => item.identifier !== id);
+    }),
+    cancelAllScheduledNotificationsAsync: jest.fn(async () => {
+      queue = [];
+    }),
+    getPermissionsAsync: jest.fn(async () => ({ status: 'granted' })),
+    requestPermissionsAsync: jest.fn(async () => ({ status: 'granted' })),
+    setNotificationHandler: jest.fn(),
+    setNotificationChannelAsync: jest.fn(async () => null),
+    deleteNotificationChannelAsync: jest.fn(async () => undefined),
+    setNotificationCategoryAsync: jest.fn(async () => null),
+    addNotificationResponseReceivedListener: jest.fn(() => ({ remove: jest.fn() })),
+  };
+});
@@ -0,0 +1,97 @@
+import { setDataClient } from '../supabaseClient';
+import { createInMemoryDataClient, InMemoryTables } from './support/inMemoryDataClient';
+import { analyticsService } from '../analyticsService';
+import { dateTimeService } from '../dateTimeService';
+
+const USER_ID = 'user-1';
+
+const takenLogs = (medicationId: string, dates: string[], dosesPerDay: number = 1) =>
+  dates.flatMap(date => Array.from({ length: dosesPerDay }, (_, doseIndex) => ({
+    medication_id: medicationId,
+    user_id: USER_ID,
+    log_date: date,
+    dose_index: doseIndex,
+    status: 'taken',
+  })));
+
+const useTables = (tables: InMemoryTables) => {
+  setDataClient(createInMemoryDataClient(tables).client);
+};
+
+describe('analyticsService.getCurrentStreak', () => {
+  beforeEach(() => {
+    dateTimeService.setTimeZone('UTC');
+    jest.useFakeTimers({ now: new Date('2026-03-10T21:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    setDataClient(null);
+  });
+
+  it('counts back through days where every scheduled dose was taken', async () => {
+    useTables({
+      medications: [{ id: 'med-1', user_id: USER_ID, is_active: true, frequency: 'Twice daily', reminder_time: '08:00', start_date: '2026-01-01' }],
+      medication_logs: [
+        ...takenLogs('med-1', ['2026-03-10', '2026-03-09', '2026-03-08'], 2),
+        ...takenLogs('med-1', ['2026-03-07'], 1),
+      ],
+    });
+
+    expect(await analyticsService.getCurrentStreak(USER_ID)).toBe(3);
+  });
+
+  it('is zero while today still has doses to take', async () => {
+    useTables({
+      medications: [{ id: 'med-1', user_id: USER_ID, is_active: true, frequency: 'Twice daily', reminder_time: '08:00', start_date: '2026-01-01' }],
+      medication_logs: [
+        ...takenLogs('med-1', ['2026-03-10'], 1),
+        ...takenLogs('med-1', ['2026-03-09', '2026-03-08'], 2),
+      ],
+    });
+
+    expect(await analyticsService.getCurrentStreak(USER_ID)).toBe(0);
+  });
+
+  it('expects only the waking-day doses of a rolling medication', async () => {
+    useTables({
+      // Every 4 hours from 07:00 wake to 22:00 bed: four doses a day, not six
+      medications: [{ id: 'med-1', user_id: USER_ID, is_active: true, frequency: 'Every 4 hours', schedule_mode: 'rolling', reminder_time: '07:00', start_date: '2026-01-01' }],
+      medication_logs: takenLogs('med-1', ['2026-03-10', '2026-03-09', '2026-03-08'], 4),
+    });
+
+    expect(await analyticsService.getCurrentStreak(USER_ID)).toBe(3);
+  });
+
+  it('keeps the streak over days with nothing scheduled', async () => {
+    useTables({
+      // Tuesdays only
+      medications: [{ id: 'med-1', user_id: USER_ID, is_active: true, frequency: 'Once daily', reminder_time: '08:00', start_date: '2026-01-01', weekdays: [3] }],
+      medication_logs: takenLogs('med-1', ['2026-03-10', '2026-03-03']),
+    });
+
+    expect(await analyticsService.getCurrentStreak(USER_ID)).toBe(2);
+  });
+
+  it('ignores as-needed doses and inactive medications', async () => {
+    useTables({
+      medications: [
+        { id: 'med-1', user_id: USER_ID, is_active: true, frequency: 'Once daily', reminder_time: '08:00', start_date: '2026-01-01' },
+        { id: 'prn-1', user_id: USER_ID, is_active: true, frequency: 'As needed', reminder_time: '08:00', start_date: '2026-01-01' },
+        { id: 'old-1', user_id: USER_ID, is_active: false, frequency: 'Once daily', reminder_time: '08:00', start_date: '2026-01-01' },
+      ],
+      medication_logs: [
+        ...takenLogs('prn-1', ['2026-03-10', '2026-03-09']),
+        ...takenLogs('med-1', ['2026-03-09']),
+      ],
+    });
+
+    expect(await analyticsService.getCurrentStreak(USER_ID)).toBe(0);
+  });
+
+  it('is zero without active medications', async () => {
+    useTables({ medications: [], medication_logs: [] });
+
+    expect(await analyticsService.getCurrentStreak(USER_ID)).toBe(0);
+  });
+});
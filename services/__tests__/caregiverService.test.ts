@@ -0,0 +1,81 @@
+import { setDataClient } from '../supabaseClient';
+import { createInMemoryDataClient } from './support/inMemoryDataClient';
+import { caregiverService } from '../caregiverService';
+import { medicationRepository } from '../medicationRepository';
+import { dateTimeService } from '../dateTimeService';
+
+const CAREGIVER_ID = 'caregiver-1';
+const PATIENT_ID = 'patient-1';
+const TODAY = '2026-03-10';
+
+const connection = (overrides: { [column: string]: any } = {}) => ({
+  id: 'connection-1',
+  caregiver_id: CAREGIVER_ID,
+  patient_id: PATIENT_ID,
+  status: 'active',
+  ...overrides,
+});
+
+const useConnections = (connections: { [column: string]: any }[]) => {
+  setDataClient(createInMemoryDataClient({
+    caregiver_connections: connections,
+    medications: [
+      { id: 'med-1', user_id: PATIENT_ID, medication_name: 'Metformin', frequency: 'Twice daily', reminder_time: '08:00', is_active: true, created_at: '2026-01-01T00:00:00Z' },
+      { id: 'med-2', user_id: 'someone-else', medication_name: 'Aspirin', frequency: 'Once daily', reminder_time: '08:00', is_active: true, created_at: '2026-01-02T00:00:00Z' },
+    ],
+    medication_logs: [
+      { id: 'log-1', medication_id: 'med-1', user_id: PATIENT_ID, log_date: TODAY, dose_index: 0, status: 'taken', logged_at: `${TODAY}T08:05:00Z` },
+    ],
+  }).client);
+};
+
+describe('caregiver access checks', () => {
+  beforeEach(() => {
+    dateTimeService.setTimeZone('UTC');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    setDataClient(null);
+  });
+
+  describe('caregiverService.hasAccessToPatient', () => {
+    it('allows a caregiver with an active connection', async () => {
+      useConnections([connection()]);
+      expect(await caregiverService.hasAccessToPatient(CAREGIVER_ID, PATIENT_ID)).toBe(true);
+    });
+
+    it('refuses once the connection is revoked', async () => {
+      useConnections([connection({ status: 'revoked' })]);
+      expect(await caregiverService.hasAccessToPatient(CAREGIVER_ID, PATIENT_ID)).toBe(false);
+    });
+
+    it('does not work in reverse', async () => {
+      useConnections([connection()]);
+      expect(await caregiverService.hasAccessToPatient(PATIENT_ID, CAREGIVER_ID)).toBe(false);
+    });
+
+    it('refuses caregivers of other patients', async () => {
+      useConnections([connection({ patient_id: 'patient-2' })]);
+      expect(await caregiverService.hasAccessToPatient(CAREGIVER_ID, PATIENT_ID)).toBe(false);
+    });
+  });
+
+  describe('medicationRepository.getPatientView', () => {
+    it("returns only the patient's medications and logs", async () => {
+      useConnections([connection()]);
+
+      const view = await medicationRepository.getPatientView(CAREGIVER_ID, PATIENT_ID, TODAY);
+
+      expect(view?.medications.map(med => med.id)).toEqual(['med-1']);
+      expect(Object.keys(view?.logs || {})).toEqual(['med-1:0']);
+    });
+
+    it('returns nothing without access', async () => {
+      useConnections([connection({ status: 'pending' })]);
+
+      expect(await medicationRepository.getPatientView(CAREGIVER_ID, PATIENT_ID, TODAY)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { setDataClient, DatabaseMedication, DatabaseMedicationLog } from '../supabaseClient';
+import { createInMemoryDataClient, InMemoryDataClient } from './support/inMemoryDataClient';
+import { doseLogService } from '../doseLogService';
+import { dateTimeService } from '../dateTimeService';
+
+const USER_ID = 'user-1';
+const TODAY = '2026-03-10';
+
+const medication = (overrides: Partial<DatabaseMedication> = {}): DatabaseMedication => ({
+  id: 'med-1',
+  user_id: USER_ID,
+  medication_name: 'Metformin',
+  dosage: '1',
+  dosage_unit: 'tablets',
+  frequency: 'Twice daily',
+  start_date: '2026-01-01',
+  reminder_time: '08:00',
+  is_active: true,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const log = (doseIndex: number, status: DatabaseMedicationLog['status']): DatabaseMedicationLog => ({
+  id: `log-${doseIndex}`,
+  medication_id: 'med-1',
+  user_id: USER_ID,
+  log_date: TODAY,
+  dose_index: doseIndex,
+  status,
+  logged_at: `${TODAY}T08:05:00Z`,
+});
+
+describe('doseLogService.getOverdueDoses', () => {
+  beforeEach(() => {
+    dateTimeService.setTimeZone('UTC');
+  });
+
+  it('finds unlogged doses past the missed-after time', () => {
+    const overdue = doseLogService.getOverdueDoses([medication()], {}, new Date(`${TODAY}T09:00:00Z`));
+
+    expect(overdue).toEqual([{ medication: expect.objectContaining({ id: 'med-1' }), dose: { doseIndex: 0, scheduledTime: '08:00' } }]);
+  });
+
+  it('waits out the missed-after time before a dose counts as missed', () => {
+    expect(doseLogService.getOverdueDoses([medication()], {}, new Date(`${TODAY}T08:59:00Z`))).toEqual([]);
+
+    const patient = medication({ escalation: { renotify_minutes: [30], missed_after_minutes: 120, alert_caregivers: false } });
+    expect(doseLogService.getOverdueDoses([patient], {}, new Date(`${TODAY}T09:30:00Z`))).toEqual([]);
+    expect(doseLogService.getOverdueDoses([patient], {}, new Date(`${TODAY}T10:00:00Z`))).toHaveLength(1);
+  });
+
+  it('leaves logged doses alone', () => {
+    const logs = { [doseLogService.getDoseKey('med-1', 0)]: log(0, 'skipped') };
+
+    expect(doseLogService.getOverdueDoses([medication()], logs, new Date(`${TODAY}T21:30:00Z`))).toEqual([
+      { medication: expect.objectContaining({ id: 'med-1' }), dose: { doseIndex: 1, scheduledTime: '20:00' } },
+    ]);
+  });
+
+  it('never marks as-needed doses missed', () => {
+    const overdue = doseLogService.getOverdueDoses([medication({ frequency: 'As needed' })], {}, new Date(`${TODAY}T23:00:00Z`));
+
+    expect(overdue).toEqual([]);
+  });
+});
+
+describe('doseLogService.logDose', () => {
+  let data: InMemoryDataClient;
+
+  beforeEach(() => {
+    dateTimeService.setTimeZone('UTC');
+    data = createInMemoryDataClient({
+      medications: [medication({ current_quantity: 0 })],
+      medication_logs: [],
+    });
+    data.setSession(USER_ID);
+    setDataClient(data.client);
+  });
+
+  afterEach(() => {
+    setDataClient(null);
+  });
+
+  it('does not let an automatic miss replace a dose the user logged', async () => {
+    data.tables.medication_logs.push(log(0, 'taken'));
+
+    await doseLogService.logDose(USER_ID, 'med-1', TODAY, { doseIndex: 0, scheduledTime: '08:00' }, 'missed', `${TODAY}T09:00:00Z`);
+
+    expect(data.tables.medication_logs).toEqual([expect.objectContaining({ dose_index: 0, status: 'taken' })]);
+  });
+
+  it('lets a later action replace a missed dose', async () => {
+    data.tables.medication_logs.push(log(0, 'missed'));
+
+    const result = await doseLogService.logDose(USER_ID, 'med-1', TODAY, { doseIndex: 0, scheduledTime: '08:00' }, 'skipped', `${TODAY}T07:00:00Z`);
+
+    expect(result).toBe('saved');
+    expect(data.tables.medication_logs).toEqual([expect.objectContaining({ dose_index: 0, status: 'skipped' })]);
+  });
+
+  it('treats a log without a dose index as dose 0', async () => {
+    data.tables.medications[0].current_quantity = 10;
+    data.tables.medication_logs.push({ ...log(0, 'taken'), dose_index: null });
+
+    await doseLogService.logDose(USER_ID, 'med-1', TODAY, { doseIndex: 0, scheduledTime: '08:00' }, 'taken', `${TODAY}T08:10:00Z`);
+
+    expect(data.tables.medication_logs).toEqual([expect.objectContaining({ dose_index: null, status: 'taken' })]);
+    expect(data.tables.medications[0].current_quantity).toBe(10);
+  });
+
+  it('inserts a log for a dose that has none', async () => {
+    await doseLogService.logDose(USER_ID, 'med-1', TODAY, { doseIndex: 1, scheduledTime: '20:00' }, 'missed', `${TODAY}T21:00:00Z`);
+
+    expect(data.tables.medication_logs).toEqual([
+      expect.objectContaining({ medication_id: 'med-1', log_date: TODAY, dose_index: 1, scheduled_time: '20:00', status: 'missed' }),
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { doseScheduleService, ScheduledMedication } from '../doseScheduleService';
+
+// 2026-03-10 is a Tuesday (weekday 3 in the 1 = Sunday convention)
+const TODAY = '2026-03-10';
+
+const medication = (overrides: Partial<ScheduledMedication> = {}): ScheduledMedication => ({
+  frequency: 'Twice daily',
+  reminder_time: '08:00',
+  dosage: '1',
+  dosage_unit: 'tablets',
+  start_date: '2026-01-01',
+  ...overrides,
+});
+
+describe('doseScheduleService schedule generation', () => {
+  it('spaces interval doses from the start time, wrapping past midnight', () => {
+    const schedule = doseScheduleService.getSchedule('Every 8 hours', '08:00');
+
+    expect(schedule.times).toEqual(['08:00', '16:00', '00:00']);
+    expect(schedule.dosesPerDay).toBe(3);
+  });
+
+  it('places meal-anchored doses from the routine', () => {
+    expect(doseScheduleService.getSchedule('Before meals').times).toEqual(['07:30', '12:00', '18:00']);
+    expect(doseScheduleService.getSchedule('Bedtime').times).toEqual(['22:00']);
+  });
+
+  it('counts a weekly dose as a seventh of a dose per day', () => {
+    expect(doseScheduleService.getSchedule('Weekly').dosesPerDay).toBeCloseTo(1 / 7);
+  });
+
+  it('builds one dose slot per scheduled time', () => {
+    expect(doseScheduleService.getDosesForDate(medication(), TODAY)).toEqual([
+      { doseIndex: 0, scheduledTime: '08:00' },
+      { doseIndex: 1, scheduledTime: '20:00' },
+    ]);
+  });
+
+  it('recovers the dose time from a reminder sent early', () => {
+    const med = medication({ frequency: 'Once daily', reminder_time: '07:45', advance_reminder_minutes: 15 });
+
+    expect(doseScheduleService.getDosesForDate(med, TODAY)).toEqual([{ doseIndex: 0, scheduledTime: '08:00' }]);
+  });
+
+  it('skips weekdays that are not selected', () => {
+    const med = medication({ frequency: 'Once daily', weekdays: [2, 4, 6] }); // Mon, Wed, Fri
+
+    expect(doseScheduleService.getDosesForDate(med, TODAY)).toEqual([]);
+    expect(doseScheduleService.getDosesForDate(med, '2026-03-11')).toHaveLength(1);
+  });
+
+  it('has no doses on the off days of a cycle', () => {
+    const med = medication({ start_date: '2026-02-01', cycle_on_days: 21, cycle_off_days: 7 });
+
+    expect(doseScheduleService.getDosesForDate(med, '2026-02-21')).toHaveLength(2); // Day 21
+    expect(doseScheduleService.getDosesForDate(med, '2026-02-22')).toEqual([]); // First off day
+    expect(doseScheduleService.getDosesForDate(med, '2026-03-01')).toHaveLength(2); // Next cycle
+    expect(doseScheduleService.getAverageDosesPerDay(med, TODAY)).toBeCloseTo(1.5);
+  });
+
+  it('stops after the course end date', () => {
+    const med = medication({ end_date: '2026-03-09' });
+
+    expect(doseScheduleService.getDosesForDate(med, '2026-03-09')).toHaveLength(2);
+    expect(doseScheduleService.getDosesForDate(med, TODAY)).toEqual([]);
+  });
+
+  it('follows taper steps and ends with the last one', () => {
+    const med = medication({
+      start_date: '2026-03-01',
+      dose_phases: [
+        { dosage: '40', frequency: 'Once daily', duration_days: 5 },
+        { dosage: '20', frequency: 'Twice daily', duration_days: 5 },
+      ],
+    });
+
+    expect(doseScheduleService.getDosesForDate(med, '2026-03-05')).toHaveLength(1);
+    expect(doseScheduleService.getRegimenForDate(med, '2026-03-07')).toMatchObject({ dosage: '20', phaseIndex: 1 });
+    expect(doseScheduleService.getDosesForDate(med, '2026-03-07')).toHaveLength(2);
+    expect(doseScheduleService.getCourseEndDate(med)).toBe('2026-03-10');
+    expect(doseScheduleService.getDosesForDate(med, '2026-03-11')).toEqual([]);
+  });
+
+  it('gives as-needed medications a single untimed slot', () => {
+    expect(doseScheduleService.getDosesForDate(medication({ frequency: 'As needed' }), TODAY)).toEqual([
+      { doseIndex: 0, scheduledTime: null },
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+import { Alert } from 'react-native';
+import { setDataClient } from '../supabaseClient';
+import { createInMemoryDataClient, InMemoryDataClient } from './support/inMemoryDataClient';
+import { inventoryService } from '../medicationEnhancedService';
+import { dateTimeService } from '../dateTimeService';
+
+const stockedMedication = (overrides: { [column: string]: any } = {}) => ({
+  id: 'med-1',
+  user_id: 'user-1',
+  medication_name: 'Metformin',
+  dosage: '1',
+  dosage_unit: 'tablets',
+  frequency: 'Twice daily',
+  reminder_time: '08:00',
+  start_date: '2026-01-01',
+  is_active: true,
+  total_quantity: 60,
+  current_quantity: 30,
+  low_stock_threshold: 5,
+  ...overrides,
+});
+
+describe('inventoryService refill math', () => {
+  let data: InMemoryDataClient;
+
+  const useMedication = (overrides: { [column: string]: any } = {}) => {
+    data = createInMemoryDataClient({ medications: [stockedMedication(overrides)] });
+    setDataClient(data.client);
+  };
+
+  beforeEach(() => {
+    dateTimeService.setTimeZone('UTC');
+    jest.useFakeTimers({ now: new Date('2026-03-10T12:00:00Z') });
+    jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    setDataClient(null);
+  });
+
+  describe('getDaysUntilEmpty', () => {
+    it('divides stock by the daily usage', async () => {
+      useMedication();
+      expect(await inventoryService.getDaysUntilEmpty('med-1')).toBe(15);
+    });
+
+    it('counts every tablet of a multi-tablet dose', async () => {
+      useMedication({ dosage: '2' });
+      expect(await inventoryService.getDaysUntilEmpty('med-1')).toBe(7);
+    });
+
+    it('only uses stock on the dosing days of a cycle', async () => {
+      useMedication({ cycle_on_days: 21, cycle_off_days: 7 }); // 1.5 tablets a day on average
+      expect(await inventoryService.getDaysUntilEmpty('med-1')).toBe(20);
+    });
+
+    it('treats units that are not counted one by one as one per dose', async () => {
+      useMedication({ dosage: '500', dosage_unit: 'mg', frequency: 'Once daily' });
+      expect(await inventoryService.getDaysUntilEmpty('med-1')).toBe(30);
+    });
+
+    it('counts liquid doses in ml', async () => {
+      useMedication({ dosage: '5', dosage_unit: 'ml', frequency: 'Three times daily', current_quantity: 150 });
+      expect(await inventoryService.getDaysUntilEmpty('med-1')).toBe(10);
+    });
+
+    it('uses the declared units per dose', async () => {
+      useMedication({ dosage: '500', dosage_unit: 'mg', units_per_dose: 2 }); // two 250 mg tablets
+      expect(await inventoryService.getDaysUntilEmpty('med-1')).toBe(7);
+    });
+
+    it('scales the units per dose with the taper step in effect', async () => {
+      useMedication({
+        dosage: '40',
+        dosage_unit: 'mg',
+        frequency: 'Once daily',
+        units_per_dose: 2,
+        dose_phases: [
+          { dosage: '40', frequency: 'Once daily', duration_days: 68 },
+          { dosage: '20', frequency: 'Once daily', duration_days: null }, // from today: one tablet
+        ],
+      });
+      expect(await inventoryService.getDaysUntilEmpty('med-1')).toBe(30);
+    });
+
+    it('returns the stock as-is for as-needed medications', async () => {
+      useMedication({ frequency: 'As needed' });
+      expect(await inventoryService.getDaysUntilEmpty('med-1')).toBe(30);
+    });
+  });
+
+  describe('decrementPillCount', () => {
+    it('takes one dose out of stock', async () => {
+      useMedication({ dosage: '2' });
+
+      await inventoryService.decrementPillCount('med-1');
+
+      expect(data.tables.medications[0].current_quantity).toBe(28);
+      expect(Alert.alert).not.toHaveBeenCalled();
+    });
+
+    it('takes the declared units per dose out of stock', async () => {
+      useMedication({ dosage: '10', dosage_unit: 'mg', package_unit: 'ml', units_per_dose: 2.5 });
+
+      await inventoryService.decrementPillCount('med-1');
+
+      expect(data.tables.medications[0].current_quantity).toBe(27.5);
+    });
+
+    it('uses the dose of the day being logged', async () => {
+      useMedication({
+        dose_phases: [
+          { dosage: '2', frequency: 'Twice daily', duration_days: 68 }, // through yesterday
+          { dosage: '1', frequency: 'Twice daily', duration_days: null },
+        ],
+      });
+
+      await inventoryService.decrementPillCount('med-1', '2026-03-09');
+
+      expect(data.tables.medications[0].current_quantity).toBe(28);
+    });
+
+    it('warns once stock reaches the low stock threshold', async () => {
+      useMedication({ current_quantity: 6 });
+
+      await inventoryService.decrementPillCount('med-1');
+
+      expect(data.tables.medications[0].current_quantity).toBe(5);
+      expect(Alert.alert).toHaveBeenCalledWith('⚠️ Low Stock', expect.stringContaining('5 tablets remaining'), expect.anything());
+    });
+
+    it('never goes below zero', async () => {
+      useMedication({ dosage: '2', current_quantity: 1 });
+
+      await inventoryService.decrementPillCount('med-1');
+      await inventoryService.decrementPillCount('med-1');
+
+      expect(data.tables.medications[0].current_quantity).toBe(0);
+    });
+  });
+});
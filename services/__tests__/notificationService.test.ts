@@ -0,0 +1,69 @@
+import * as Notifications from 'expo-notifications';
+import { notificationService, GroupedDose } from '../notificationService';
+import { dateTimeService } from '../dateTimeService';
+
+const dailyReminder = (medicationId: string, priority: 'critical' | 'normal' | 'low') =>
+  notificationService.buildMedicationReminders(
+    medicationId, medicationId, '500', 'mg', 8, 0, undefined, 'Once daily', null, null, null, priority
+  );
+
+describe('notificationService.groupReminders', () => {
+  beforeEach(() => {
+    dateTimeService.setTimeZone('UTC');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    notificationService.applyPreferences(null);
+    jest.restoreAllMocks();
+  });
+
+  it('keeps a critical dose\'s channel for its group with sound turned off', () => {
+    notificationService.applyPreferences({ sound_enabled: false });
+
+    const [group] = notificationService.groupReminders([...dailyReminder('med-1', 'normal'), ...dailyReminder('med-2', 'critical')]);
+
+    expect(group.content.data?.type).toBe('group_reminder');
+    expect((group.trigger as { channelId: string }).channelId).toBe(notificationService.getChannelId('critical'));
+    expect(group.content.interruptionLevel).toBe('timeSensitive');
+  });
+});
+
+describe('notificationService snoozes', () => {
+  const snoozed = async () => (await Notifications.getAllScheduledNotificationsAsync())[0];
+
+  beforeEach(async () => {
+    dateTimeService.setTimeZone('UTC');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await Notifications.cancelAllScheduledNotificationsAsync();
+  });
+
+  afterEach(() => {
+    notificationService.applyPreferences(null);
+    jest.restoreAllMocks();
+  });
+
+  it('brings a critical dose back on the critical channel', async () => {
+    await notificationService.snoozeNotification('med-1', 'Warfarin', '5', 'mg', { doseIndex: 0, scheduledTime: '08:00' }, 1, '2026-03-10', 'critical');
+
+    const reminder = await snoozed();
+    expect((reminder.trigger as { channelId: string }).channelId).toBe(notificationService.getChannelId('critical'));
+    expect(reminder.content).toEqual(expect.objectContaining({ interruptionLevel: 'timeSensitive' }));
+  });
+
+  it('brings a group back at its loudest dose\'s priority, also once the user is home', async () => {
+    notificationService.applyPreferences({ snooze_option: 'home' });
+    const doses: GroupedDose[] = [
+      { medicationId: 'med-1', medicationName: 'Metformin', dosage: '500', dosageUnit: 'mg', scheduledTime: '08:00', reminderIndex: 0, priority: 'normal' },
+      { medicationId: 'med-2', medicationName: 'Warfarin', dosage: '5', dosageUnit: 'mg', scheduledTime: '08:00', reminderIndex: 0, priority: 'critical' },
+    ];
+
+    await notificationService.snoozeGroup('Morning meds (2)', doses, 1, '2026-03-10');
+    expect(((await snoozed()).trigger as { channelId: string }).channelId).toBe(notificationService.getChannelId('critical'));
+
+    await notificationService.releaseHomeSnoozes();
+    const released = await snoozed();
+    expect(released.content.title).toBe('🏠 Welcome home');
+    expect((released.trigger as { channelId: string }).channelId).toBe(notificationService.getChannelId('critical'));
+  });
+});
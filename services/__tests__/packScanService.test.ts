@@ -0,0 +1,86 @@
+import { packScanService } from '../packScanService';
+import { Medication } from '../../constants/Types';
+
+const GS = '\x1d';
+
+const medication = (overrides: Partial<Medication> = {}): Medication => ({
+  id: 'med-1',
+  user_id: 'user-1',
+  medication_name: 'Metformin',
+  dosage: '500',
+  dosage_unit: 'mg',
+  frequency: 'Twice daily',
+  start_date: '2026-01-01',
+  reminder_time: '08:00',
+  is_active: true,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('packScanService.parse', () => {
+  it('reads GTIN, expiry, lot and serial from a GS1 DataMatrix', () => {
+    const scan = packScanService.parse(`]d20104801234000042172712311000A1234${GS}21SN998877`);
+
+    expect(scan).toEqual(expect.objectContaining({
+      gtin: '04801234000042',
+      expiryDate: '2027-12-31',
+      lotNumber: '00A1234',
+      serialNumber: 'SN998877',
+    }));
+    expect(scan.product?.medication_name).toBe('Metformin');
+  });
+
+  it('reads the printed form with AIs in brackets', () => {
+    const scan = packScanService.parse('(01)04801234000035(21)X1(10)LOT7(17)280600');
+
+    expect(scan).toEqual(expect.objectContaining({
+      gtin: '04801234000035',
+      expiryDate: '2028-06-30', // Day 00 is the end of the month
+      lotNumber: 'LOT7',
+      serialNumber: 'X1',
+    }));
+  });
+
+  it('turns EAN-13 and UPC-E barcodes into 14-digit GTINs', () => {
+    expect(packScanService.parse('4801234000011', 'ean13').gtin).toBe('04801234000011');
+    expect(packScanService.parse('04252614', 'upc_e').gtin).toBe('00042100005264');
+  });
+
+  it('rejects a GTIN with a wrong check digit', () => {
+    const scan = packScanService.parse('4801234000012', 'ean13');
+
+    expect(scan.gtin).toBeNull();
+    expect(packScanService.hasPackData(scan)).toBe(false);
+  });
+
+  it('keeps the pack data when the GTIN is not in the catalog', () => {
+    const scan = packScanService.parse(`0100012345678905${GS}17270115`);
+
+    expect(scan).toEqual(expect.objectContaining({ gtin: '00012345678905', expiryDate: '2027-01-15', product: null }));
+  });
+
+  it('reads a GS1 code made only of digits, with a numeric lot last and no separator', () => {
+    expect(packScanService.parse('010001234567890517270115')).toEqual(expect.objectContaining({
+      gtin: '00012345678905',
+      expiryDate: '2027-01-15',
+    }));
+    expect(packScanService.parse('0104801234000042172712311012345')).toEqual(expect.objectContaining({
+      gtin: '04801234000042',
+      expiryDate: '2027-12-31',
+      lotNumber: '12345',
+    }));
+  });
+});
+
+describe('packScanService.findMedication', () => {
+  it('prefers a saved GTIN, then the catalog name and strength', () => {
+    const scan = packScanService.parse('(01)04801234000042');
+    const other = medication({ id: 'med-2', dosage: '850' });
+    const same = medication({ id: 'med-3' });
+
+    expect(packScanService.findMedication(scan, [other, same])?.id).toBe('med-3');
+    expect(packScanService.findMedication(scan, [other, same, medication({ id: 'med-4', medication_name: 'Glucophage', gtin: '04801234000042' })])?.id).toBe('med-4');
+    expect(packScanService.findMedication(scan, [medication({ medication_name: 'Losartan' })])).toBeNull();
+  });
+});
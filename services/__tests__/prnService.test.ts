@@ -0,0 +1,110 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { setDataClient, DataClient } from '../supabaseClient';
+import { createInMemoryDataClient, InMemoryDataClient } from './support/inMemoryDataClient';
+import { offlineService } from '../offlineService';
+import { doseLogService } from '../doseLogService';
+import { prnService } from '../prnService';
+import { dateTimeService } from '../dateTimeService';
+
+const USER_ID = 'user-1';
+const TODAY = '2026-03-10';
+
+// Every request fails with the same error
+const createFailingClient = (message: string): DataClient => {
+  const result = { data: null, count: null, error: { message } };
+  const query: any = new Proxy({}, {
+    get: (_, property) => property === 'then'
+      ? (resolve: (value: typeof result) => void) => resolve(result)
+      : () => query,
+  });
+  return { from: () => query } as unknown as DataClient;
+};
+
+// Requests fail the way fetch does without a connection
+const createOfflineClient = (): DataClient => createFailingClient('TypeError: Network request failed');
+
+describe('prnService.logDose', () => {
+  let data: InMemoryDataClient;
+
+  beforeEach(async () => {
+    dateTimeService.setTimeZone('UTC');
+    jest.useFakeTimers({ now: new Date(`${TODAY}T12:00:00Z`) });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await AsyncStorage.clear();
+    data = createInMemoryDataClient({
+      medications: [{ id: 'med-1', user_id: USER_ID, medication_name: 'Ibuprofen', frequency: 'As needed', current_quantity: 0 }],
+      medication_logs: [{ id: 'log-0', medication_id: 'med-1', user_id: USER_ID, log_date: TODAY, dose_index: 0, status: 'taken' }],
+    });
+    data.setSession(USER_ID);
+    setDataClient(data.client);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    setDataClient(null);
+  });
+
+  it('logs the next dose slot of the day', async () => {
+    expect(await prnService.logDose(USER_ID, 'med-1')).toBe('saved');
+
+    expect(data.tables.medication_logs.map(log => log.dose_index)).toEqual([0, 1]);
+  });
+
+  it('queues doses without a connection, each in its own slot after the ones already logged', async () => {
+    await doseLogService.getDoseLogsForDate(USER_ID, TODAY); // The day's logs as last seen online
+    setDataClient(createOfflineClient());
+
+    expect(await prnService.logDose(USER_ID, 'med-1')).toBe('queued');
+    expect(await prnService.logDose(USER_ID, 'med-1')).toBe('queued');
+
+    const queue = await offlineService.getQueue();
+    expect(queue.map(mutation => mutation.payload.dose.doseIndex)).toEqual([1, 2]);
+  });
+});
+
+describe('prnService.getRecentDoses', () => {
+  let data: InMemoryDataClient;
+  const YESTERDAY = '2026-03-09';
+
+  beforeEach(async () => {
+    dateTimeService.setTimeZone('UTC');
+    jest.useFakeTimers({ now: new Date(`${TODAY}T12:00:00Z`) });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await AsyncStorage.clear();
+    data = createInMemoryDataClient({
+      medications: [{ id: 'med-1', user_id: USER_ID, medication_name: 'Ibuprofen', frequency: 'As needed', current_quantity: 0 }],
+      medication_logs: [
+        { id: 'log-1', medication_id: 'med-1', user_id: USER_ID, log_date: YESTERDAY, dose_index: 0, status: 'taken', logged_at: `${YESTERDAY}T08:00:00Z` },
+        { id: 'log-2', medication_id: 'med-1', user_id: USER_ID, log_date: YESTERDAY, dose_index: 1, status: 'taken', logged_at: `${YESTERDAY}T20:00:00Z` },
+      ],
+    });
+    data.setSession(USER_ID);
+    setDataClient(data.client);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    setDataClient(null);
+  });
+
+  it('counts doses from yesterday and those queued offline toward the 24-hour limits', async () => {
+    const medication = { id: 'med-1', medication_name: 'Ibuprofen', prn_min_interval_hours: 4, prn_max_daily_doses: 2 };
+    await prnService.getRecentDoses(USER_ID, 'med-1'); // The days as last seen online
+    setDataClient(createOfflineClient());
+    await prnService.logDose(USER_ID, 'med-1');
+
+    const recentDoses = await prnService.getRecentDoses(USER_ID, 'med-1');
+    const check = prnService.checkDose(medication, recentDoses);
+
+    expect(recentDoses).toEqual([new Date(`${TODAY}T12:00:00Z`), new Date(`${YESTERDAY}T20:00:00Z`)]);
+    expect(check.warnings).toHaveLength(2);
+  });
+
+  it('fails rather than report no doses when the logs can\'t be read', async () => {
+    setDataClient(createFailingClient('permission denied for table medication_logs'));
+
+    await expect(prnService.getRecentDoses(USER_ID, 'med-1')).rejects.toEqual({ message: 'permission denied for table medication_logs' });
+  });
+});
@@ -0,0 +1,118 @@
+import { setDataClient } from '../supabaseClient';
+import { createInMemoryDataClient, InMemoryDataClient } from './support/inMemoryDataClient';
+import { setPharmacyAdapter } from '../pharmacyAdapter';
+import { createMockPharmacy } from '../mockPharmacy';
+import { refillService } from '../refillService';
+import { stockLotService } from '../stockLotService';
+import { dateTimeService } from '../dateTimeService';
+
+const USER_ID = 'user-1';
+const MEDICATION = { id: 'med-1', medication_name: 'Lisinopril' };
+
+describe('refillService', () => {
+  let data: InMemoryDataClient;
+  let now: Date;
+
+  beforeEach(() => {
+    dateTimeService.setTimeZone('UTC');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    now = new Date('2026-03-10T09:00:00Z');
+    setPharmacyAdapter(createMockPharmacy({ name: 'Test Pharmacy', acknowledgeAfterMinutes: 5, readyAfterMinutes: 60, now: () => now }));
+    data = createInMemoryDataClient({
+      medications: [{ ...MEDICATION, user_id: USER_ID, total_quantity: 30, current_quantity: 4, expiry_date: '2026-08-01' }],
+      medication_lots: [],
+      refill_requests: [],
+    });
+    setDataClient(data.client);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    setDataClient(null);
+    setPharmacyAdapter(null);
+  });
+
+  const minutesLater = (minutes: number) => {
+    now = new Date(now.getTime() + minutes * 60000);
+  };
+
+  it('sends a new request to the pharmacy', async () => {
+    const refill = await refillService.requestRefill(USER_ID, MEDICATION, 30);
+
+    expect(refill).toEqual(expect.objectContaining({ status: 'requested', pharmacy_name: 'Test Pharmacy', pharmacy_reference: expect.any(String) }));
+    expect(data.tables.refill_requests).toEqual([expect.objectContaining({ status: 'requested', quantity_requested: 30 })]);
+  });
+
+  it('follows the pharmacy from acknowledged to ready', async () => {
+    await refillService.requestRefill(USER_ID, MEDICATION, 30);
+
+    minutesLater(10);
+    expect(await refillService.syncWithPharmacy(USER_ID)).toEqual([expect.objectContaining({ status: 'acknowledged' })]);
+
+    minutesLater(60);
+    const [ready] = await refillService.syncWithPharmacy(USER_ID);
+    expect(ready).toEqual(expect.objectContaining({ status: 'ready', ready_at: expect.any(String), lot_number: expect.any(String), expiry_date: '2027-03-10' }));
+  });
+
+  it('adds the dispensed pack as a lot when picked up', async () => {
+    await refillService.requestRefill(USER_ID, MEDICATION, 30);
+    minutesLater(90);
+    const [ready] = await refillService.syncWithPharmacy(USER_ID);
+
+    await refillService.markPickedUp(ready);
+
+    expect(data.tables.refill_requests[0].status).toBe('picked_up');
+    expect(data.tables.medication_lots).toEqual([
+      expect.objectContaining({ quantity: 4, expiry_date: '2026-08-01' }),
+      expect.objectContaining({ quantity: 30, expiry_date: '2027-03-10', lot_number: ready.lot_number }),
+    ]);
+    expect(data.tables.medications[0].current_quantity).toBe(34);
+    expect(await refillService.getOpenRefills(USER_ID)).toEqual([]);
+  });
+
+  it('does not pick up a refill twice', async () => {
+    const refill = await refillService.requestRefill(USER_ID, MEDICATION, 30);
+    const pickedUp = await refillService.markPickedUp(refill);
+
+    await expect(refillService.markPickedUp(pickedUp)).rejects.toThrow("can't go from picked_up to picked_up");
+    expect(data.tables.medications[0].current_quantity).toBe(34);
+  });
+
+  it('refuses a refill without a quantity', async () => {
+    await expect(refillService.requestRefill(USER_ID, MEDICATION, 0)).rejects.toThrow('needs a quantity above 0');
+    await expect(refillService.requestRefill(USER_ID, MEDICATION, NaN)).rejects.toThrow('needs a quantity above 0');
+
+    expect(data.tables.refill_requests).toEqual([]);
+  });
+
+  it('reopens the refill when the pack can\'t be added, so pickup can be tried again', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const refill = await refillService.requestRefill(USER_ID, MEDICATION, 30);
+    jest.spyOn(stockLotService, 'addLot').mockRejectedValueOnce(new Error('insert failed'));
+
+    await expect(refillService.markPickedUp(refill)).rejects.toThrow('insert failed');
+    expect(data.tables.refill_requests[0]).toEqual(expect.objectContaining({ status: 'requested', picked_up_at: null }));
+
+    await refillService.markPickedUp(refill);
+    expect(data.tables.refill_requests[0].status).toBe('picked_up');
+    expect(data.tables.medications[0].current_quantity).toBe(34);
+  });
+
+  it('cancels with the pharmacy and closes the request', async () => {
+    const refill = await refillService.requestRefill(USER_ID, MEDICATION, 30);
+
+    await refillService.cancelRefill(refill);
+    minutesLater(90);
+
+    expect(data.tables.refill_requests[0]).toEqual(expect.objectContaining({ status: 'cancelled', cancelled_at: expect.any(String) }));
+    expect(await refillService.syncWithPharmacy(USER_ID)).toEqual([]);
+  });
+
+  it('treats older pending rows as requested and sends them', async () => {
+    data.tables.refill_requests.push({ id: 'refill-1', medication_id: 'med-1', user_id: USER_ID, status: 'pending', quantity_requested: 30, requested_at: '2026-03-09T09:00:00Z' });
+
+    const [refill] = await refillService.syncWithPharmacy(USER_ID, { 'med-1': 'Lisinopril' });
+
+    expect(refill).toEqual(expect.objectContaining({ status: 'requested', pharmacy_reference: expect.any(String) }));
+  });
+});
@@ -0,0 +1,157 @@
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { setDataClient } from '../supabaseClient';
+import { createInMemoryDataClient, InMemoryDataClient } from './support/inMemoryDataClient';
+import { setPharmacyAdapter } from '../pharmacyAdapter';
+import { createMockPharmacy } from '../mockPharmacy';
+import { runoutForecastService, TakenDose } from '../runoutForecastService';
+import { notificationService } from '../notificationService';
+import { dateTimeService } from '../dateTimeService';
+import { Medication } from '../../constants/Types';
+
+const USER_ID = 'user-1';
+const TODAY = '2026-03-10';
+
+const medication = (overrides: Partial<Medication> = {}): Medication => ({
+  id: 'med-1',
+  user_id: USER_ID,
+  medication_name: 'Metformin',
+  dosage: '1',
+  dosage_unit: 'tablets',
+  frequency: 'Twice daily',
+  start_date: '2026-01-01',
+  reminder_time: '08:00',
+  is_active: true,
+  total_quantity: 60,
+  current_quantity: 30,
+  low_stock_threshold: 5,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+// One dose taken on each of the 14 days before today
+const dailyTakes = (): TakenDose[] =>
+  Array.from({ length: 14 }, (_, i) => ({ medication_id: 'med-1', log_date: dateTimeService.addDays(TODAY, -1 - i) }));
+
+describe('runoutForecastService.forecast', () => {
+  beforeEach(() => {
+    dateTimeService.setTimeZone('UTC');
+  });
+
+  it('runs the stock down along the schedule', () => {
+    const forecast = runoutForecastService.forecast(medication(), [], 3, TODAY);
+
+    expect(forecast).toEqual(expect.objectContaining({
+      basis: 'schedule',
+      dailyConsumption: 2,
+      runoutDate: '2026-03-25',
+      daysLeft: 15,
+      refillByDate: '2026-03-22',
+    }));
+  });
+
+  it('stretches the runout when only some scheduled doses were taken', () => {
+    const forecast = runoutForecastService.forecast(medication(), dailyTakes(), 3, TODAY);
+
+    expect(forecast).toEqual(expect.objectContaining({ basis: 'history', runoutDate: '2026-04-09', daysLeft: 30 }));
+  });
+
+  it('forecasts as-needed medications from their recent use', () => {
+    const asNeeded = medication({ frequency: 'As needed', current_quantity: 10 });
+
+    expect(runoutForecastService.forecast(asNeeded, [], 3, TODAY).runoutDate).toBeNull();
+    expect(runoutForecastService.forecast(asNeeded, dailyTakes(), 3, TODAY).runoutDate).toBe('2026-03-20');
+  });
+
+  it('keeps to the schedule until there is a week of history', () => {
+    const recent = medication({ start_date: '2026-03-06' });
+
+    expect(runoutForecastService.forecast(recent, dailyTakes(), 3, TODAY).basis).toBe('schedule');
+  });
+
+  it('has no runout when the course ends first', () => {
+    const course = medication({ end_date: '2026-03-15' });
+
+    expect(runoutForecastService.forecast(course, [], 3, TODAY).runoutDate).toBeNull();
+  });
+});
+
+describe('runoutForecastService.scheduleRunoutReminders', () => {
+  let data: InMemoryDataClient;
+
+  const queuedReminders = async () =>
+    (await Notifications.getAllScheduledNotificationsAsync()).filter(item => item.content.data?.type === 'runout_reminder');
+
+  beforeEach(async () => {
+    dateTimeService.setTimeZone('UTC');
+    jest.useFakeTimers({ now: new Date(`${TODAY}T12:00:00Z`) });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await Notifications.cancelAllScheduledNotificationsAsync();
+    await AsyncStorage.clear();
+    setPharmacyAdapter(createMockPharmacy({ leadTimeDays: 3 }));
+    data = createInMemoryDataClient({
+      medications: [medication()],
+      medication_logs: [],
+      refill_requests: [],
+    });
+    setDataClient(data.client);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    setDataClient(null);
+    setPharmacyAdapter(null);
+  });
+
+  it('queues one reminder on the refill-by day and keeps it on later runs', async () => {
+    await runoutForecastService.scheduleRunoutReminders(USER_ID);
+    await runoutForecastService.scheduleRunoutReminders(USER_ID);
+
+    const reminders = await queuedReminders();
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0].content.data).toEqual(expect.objectContaining({ medicationId: 'med-1', runoutDate: '2026-03-25' }));
+    expect((reminders[0].trigger as any).date).toEqual(new Date('2026-03-22T09:00:00Z'));
+  });
+
+  it('does not repeat a reminder that has gone out for the same runout', async () => {
+    data.tables.medications[0].current_quantity = 4; // Runs out in two days, already inside the lead time
+
+    await runoutForecastService.scheduleRunoutReminders(USER_ID);
+    expect(await queuedReminders()).toHaveLength(1);
+    await Notifications.cancelAllScheduledNotificationsAsync(); // Delivered
+    await runoutForecastService.scheduleRunoutReminders(USER_ID);
+
+    expect(await queuedReminders()).toHaveLength(0);
+  });
+
+  it('keeps the reminder when the medication\'s dose reminders are rescheduled', async () => {
+    await runoutForecastService.scheduleRunoutReminders(USER_ID);
+    await notificationService.rescheduleMedicationReminders([medication()]);
+    await runoutForecastService.scheduleRunoutReminders(USER_ID);
+
+    const reminders = await queuedReminders();
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0].content.data).toEqual(expect.objectContaining({ medicationId: 'med-1', runoutDate: '2026-03-25' }));
+  });
+
+  it('drops the reminder of a medication that is gone', async () => {
+    await runoutForecastService.scheduleRunoutReminders(USER_ID);
+    data.tables.medications = [];
+
+    await runoutForecastService.scheduleRunoutReminders(USER_ID);
+
+    expect(await queuedReminders()).toHaveLength(0);
+  });
+
+  it('leaves out medications with a refill on the way', async () => {
+    await runoutForecastService.scheduleRunoutReminders(USER_ID);
+    expect(await queuedReminders()).toHaveLength(1);
+    data.tables.refill_requests.push({ id: 'refill-1', medication_id: 'med-1', user_id: USER_ID, status: 'requested', quantity_requested: 60, requested_at: `${TODAY}T10:00:00Z` });
+
+    await runoutForecastService.scheduleRunoutReminders(USER_ID);
+
+    expect(await queuedReminders()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,135 @@
+import * as Notifications from 'expo-notifications';
+import { setDataClient, DatabaseMedication } from '../supabaseClient';
+import { createInMemoryDataClient, InMemoryDataClient } from './support/inMemoryDataClient';
+import { notificationService } from '../notificationService';
+import { snoozeService } from '../snoozeService';
+import { escalationService } from '../escalationService';
+import { doseLogService } from '../doseLogService';
+import { dateTimeService } from '../dateTimeService';
+
+const USER_ID = 'user-1';
+const DOSE_DATE = '2026-03-09';
+// Ten past midnight the day after a 23:00 dose
+const AFTER_MIDNIGHT = new Date('2026-03-10T00:10:00Z');
+
+const medication = (overrides: Partial<DatabaseMedication> = {}): DatabaseMedication => ({
+  id: 'med-1',
+  user_id: USER_ID,
+  medication_name: 'Metformin',
+  dosage: '1',
+  dosage_unit: 'tablets',
+  frequency: 'Once daily',
+  start_date: '2026-01-01',
+  reminder_time: '23:00',
+  is_active: true,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const followUpResponse = (actionIdentifier: string, data: object) => ({
+  actionIdentifier,
+  notification: { request: { content: { data } } },
+});
+
+describe('acting on a follow-up after midnight', () => {
+  let data: InMemoryDataClient;
+
+  beforeEach(async () => {
+    dateTimeService.setTimeZone('UTC');
+    jest.useFakeTimers({ now: AFTER_MIDNIGHT });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await Notifications.cancelAllScheduledNotificationsAsync();
+    data = createInMemoryDataClient({
+      medications: [medication()],
+      medication_logs: [],
+      medication_snoozes: [],
+      user_profiles: [{ user_id: USER_ID, max_snoozes: 2 }],
+    });
+    data.setSession(USER_ID);
+    setDataClient(data.client);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    setDataClient(null);
+  });
+
+  it('hands the dose date from the follow-up to the action handlers', async () => {
+    const onTakeNow = jest.fn(async () => {});
+    const onSnooze = jest.fn(async () => {});
+    notificationService.setupNotificationResponseHandler(onTakeNow, onSnooze, jest.fn(async () => {}));
+    const listener = (Notifications.addNotificationResponseReceivedListener as jest.Mock).mock.calls.at(-1)[0];
+    const followUp = { type: 'escalation', medicationId: 'med-1', reminderIndex: 0, scheduledTime: '23:00', doseDate: DOSE_DATE };
+
+    await listener(followUpResponse('TAKE_NOW', followUp));
+    await listener(followUpResponse('SNOOZE', { ...followUp, snoozeCount: 1 }));
+
+    expect(onTakeNow).toHaveBeenCalledWith('med-1', { doseIndex: 0, scheduledTime: '23:00' }, DOSE_DATE);
+    expect(onSnooze).toHaveBeenCalledWith('med-1', { doseIndex: 0, scheduledTime: '23:00' }, 1, DOSE_DATE);
+  });
+
+  it('keeps a snoozed dose on the day it was due', async () => {
+    const dose = { doseIndex: 0, scheduledTime: '23:00' };
+
+    expect(await snoozeService.snoozeDose(USER_ID, 'med-1', dose, 0, DOSE_DATE)).toBe('snoozed');
+    const [snoozed] = (await Notifications.getAllScheduledNotificationsAsync()).filter(item => item.content.data?.type === 'snoozed');
+    expect(snoozed.content.data).toEqual(expect.objectContaining({ doseDate: DOSE_DATE, snoozeCount: 1 }));
+
+    expect(await snoozeService.snoozeDose(USER_ID, 'med-1', dose, 2, DOSE_DATE)).toBe('missed');
+    expect(data.tables.medication_logs).toEqual([expect.objectContaining({ log_date: DOSE_DATE, dose_index: 0, status: 'missed' })]);
+    expect(data.tables.medication_snoozes.map(row => row.log_date)).toEqual([DOSE_DATE, DOSE_DATE]);
+  });
+});
+
+describe('snoozing a dose that escalates', () => {
+  const TODAY = '2026-03-10';
+  let data: InMemoryDataClient;
+
+  const followUps = async () =>
+    (await Notifications.getAllScheduledNotificationsAsync()).filter(item => item.content.data?.type === 'escalation');
+
+  beforeEach(async () => {
+    dateTimeService.setTimeZone('UTC');
+    jest.useFakeTimers({ now: new Date(`${TODAY}T08:05:00Z`) });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await Notifications.cancelAllScheduledNotificationsAsync();
+    data = createInMemoryDataClient({
+      medications: [medication({
+        reminder_time: '08:00',
+        escalation: { renotify_minutes: [10, 20], missed_after_minutes: 30, alert_caregivers: true },
+      })],
+      medication_logs: [],
+      medication_snoozes: [],
+      user_profiles: [{ user_id: USER_ID, snooze_option: 60, max_snoozes: 3 }],
+    });
+    data.setSession(USER_ID);
+    setDataClient(data.client);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    setDataClient(null);
+  });
+
+  it('is not auto-missed or escalated while the snooze is pending', async () => {
+    const [med] = data.tables.medications as DatabaseMedication[];
+    await escalationService.syncEscalations(USER_ID, [med]);
+    expect(await followUps()).toHaveLength(2);
+
+    expect(await snoozeService.snoozeDose(USER_ID, 'med-1', { doseIndex: 0, scheduledTime: '08:00' }, 0, TODAY)).toBe('snoozed');
+    expect(await followUps()).toHaveLength(0);
+    expect(await escalationService.syncEscalations(USER_ID, [med])).toBe(0);
+
+    // Past the 30 minutes after 08:00, but the snooze runs to 09:05
+    const overdueAt = async (time: string) => {
+      const now = new Date(`${TODAY}T${time}:00Z`);
+      return doseLogService.getOverdueDoses([med], {}, now, await snoozeService.getSnoozedUntil(USER_ID, TODAY));
+    };
+    expect(await overdueAt('08:45')).toEqual([]);
+    expect(await overdueAt('09:20')).toEqual([]);
+    expect(await overdueAt('09:35')).toHaveLength(1);
+  });
+});
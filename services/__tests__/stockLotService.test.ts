@@ -0,0 +1,139 @@
+import { Alert } from 'react-native';
+import { setDataClient } from '../supabaseClient';
+import { createInMemoryDataClient, InMemoryDataClient } from './support/inMemoryDataClient';
+import { stockLotService } from '../stockLotService';
+import { inventoryService, disposalService } from '../medicationEnhancedService';
+import { dateTimeService } from '../dateTimeService';
+import { StockLot } from '../../constants/Types';
+
+const USER_ID = 'user-1';
+
+const lot = (id: string, quantity: number, expiryDate: string | null, overrides: Partial<StockLot> = {}): StockLot => ({
+  id,
+  medication_id: 'med-1',
+  user_id: USER_ID,
+  quantity,
+  expiry_date: expiryDate,
+  lot_number: null,
+  opened_at: null,
+  disposed_at: null,
+  created_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('stockLotService', () => {
+  let data: InMemoryDataClient;
+
+  const useStock = (lots: StockLot[], medication: { [column: string]: any } = {}) => {
+    data = createInMemoryDataClient({
+      medications: [{
+        id: 'med-1',
+        user_id: USER_ID,
+        medication_name: 'Amoxicillin',
+        dosage: '2',
+        dosage_unit: 'capsules',
+        frequency: 'Once daily',
+        reminder_time: '08:00',
+        start_date: '2026-01-01',
+        is_active: true,
+        total_quantity: 30,
+        current_quantity: lots.reduce((sum, item) => sum + item.quantity, 0),
+        low_stock_threshold: 0,
+        ...medication,
+      }],
+      medication_lots: lots,
+    });
+    setDataClient(data.client);
+  };
+
+  beforeEach(() => {
+    dateTimeService.setTimeZone('UTC');
+    jest.useFakeTimers({ now: new Date('2026-03-10T12:00:00Z') });
+    jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    setDataClient(null);
+  });
+
+  describe('planDraws', () => {
+    it('uses the first-expiring lot first and spills into the next', () => {
+      const lots = [lot('new', 30, '2027-01-01'), lot('old', 1, '2026-06-01'), lot('open-ended', 10, null)];
+
+      expect(stockLotService.planDraws(lots, 2, '2026-03-10')).toEqual([
+        { lotId: 'old', quantity: 1 },
+        { lotId: 'new', quantity: 1 },
+      ]);
+    });
+
+    it('prefers an opened pack when expiry dates match', () => {
+      const lots = [lot('sealed', 10, '2026-06-01'), lot('opened', 10, '2026-06-01', { opened_at: '2026-03-01T08:00:00Z' })];
+
+      expect(stockLotService.planDraws(lots, 1, '2026-03-10')).toEqual([{ lotId: 'opened', quantity: 1 }]);
+    });
+
+    it('only draws on expired lots once the rest run out', () => {
+      const lots = [lot('expired', 5, '2026-02-01'), lot('fresh', 1, '2026-12-01')];
+
+      expect(stockLotService.planDraws(lots, 2, '2026-03-10')).toEqual([
+        { lotId: 'fresh', quantity: 1 },
+        { lotId: 'expired', quantity: 1 },
+      ]);
+    });
+  });
+
+  it('takes a dose out of the first-expiring lot and keeps the medication in step', async () => {
+    useStock([lot('new', 30, '2027-01-01'), lot('old', 4, '2026-06-01')]);
+
+    await inventoryService.decrementPillCount('med-1');
+
+    const [oldLot, newLot] = ['old', 'new'].map(id => data.tables.medication_lots.find(row => row.id === id));
+    expect(oldLot).toEqual(expect.objectContaining({ quantity: 2, opened_at: expect.any(String) }));
+    expect(newLot?.quantity).toBe(30);
+    expect(data.tables.medications[0]).toEqual(expect.objectContaining({ current_quantity: 32, expiry_date: '2026-06-01' }));
+  });
+
+  it('dates the medication by its first lot still good, not an expired leftover', async () => {
+    useStock([lot('expired', 3, '2026-02-01'), lot('fresh', 30, '2027-01-01'), lot('later', 30, '2027-06-01')]);
+
+    await stockLotService.syncMedication('med-1');
+    expect(data.tables.medications[0].expiry_date).toBe('2027-01-01');
+
+    useStock([lot('expired', 3, '2026-02-01'), lot('also-expired', 5, '2026-03-01')]);
+
+    await stockLotService.syncMedication('med-1');
+    expect(data.tables.medications[0].expiry_date).toBe('2026-03-01');
+  });
+
+  it('records the bottle tracked so far as a lot when the first pack is added', async () => {
+    useStock([], { current_quantity: 8, expiry_date: '2026-05-01' });
+
+    const total = await stockLotService.addLot(USER_ID, data.tables.medications[0] as any, {
+      quantity: 30,
+      expiry_date: '2027-02-01',
+      lot_number: ' AB123 ',
+    });
+
+    expect(total).toBe(38);
+    expect(data.tables.medication_lots).toEqual([
+      expect.objectContaining({ quantity: 8, expiry_date: '2026-05-01', lot_number: null }),
+      expect.objectContaining({ quantity: 30, expiry_date: '2027-02-01', lot_number: 'AB123' }),
+    ]);
+    expect(data.tables.medications[0]).toEqual(expect.objectContaining({ current_quantity: 38, total_quantity: 38 }));
+  });
+
+  it('reports expired stock per lot', async () => {
+    useStock([
+      lot('expired', 6, '2026-02-01', { lot_number: 'OLD1' }),
+      lot('fresh', 30, '2027-01-01'),
+    ]);
+
+    const expired = await disposalService.checkExpiredMedications(USER_ID);
+
+    expect(expired).toEqual([
+      expect.objectContaining({ medication_name: 'Amoxicillin', expiry_date: '2026-02-01', quantity: 6, lot: expect.objectContaining({ lot_number: 'OLD1' }) }),
+    ]);
+  });
+});
@@ -0,0 +1,240 @@
+// services/__tests__/support/inMemoryDataClient.ts - A data client that keeps tables in memory, for tests.
+// Covers the query builder calls the services make: select (with count/head), insert, update, delete,
+// eq/neq/in/gt/gte/lt/lte/is/or filters, order, limit, single/maybeSingle, rpc and auth.getSession.
+import { DataClient } from '../../supabaseClient';
+
+type Row = { [column: string]: any };
+
+export type InMemoryTables = { [table: string]: Row[] };
+
+export type RpcHandler = (args: any, tables: InMemoryTables) => any;
+
+export interface InMemoryDataClient {
+  client: DataClient; // Pass to setDataClient
+  tables: InMemoryTables; // Read and seed rows directly
+  setSession(userId: string | null): void;
+  setRpc(name: string, handler: RpcHandler): void;
+}
+
+interface QueryResult {
+  data: any;
+  error: { message: string; code?: string } | null;
+  count: number | null;
+}
+
+type Operation = 'select' | 'insert' | 'update' | 'delete';
+
+let nextId = 1;
+
+// Filter values arrive as strings in .or() expressions, e.g. "patient_id.eq.abc"
+const parseValue = (value: string): any => {
+  if (value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+};
+
+const compare = (a: any, b: any): number => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  return a < b ? -1 : 1;
+};
+
+const matches = (row: Row, column: string, operator: string, value: any): boolean => {
+  const actual = row[column];
+  switch (operator) {
+    case 'eq': return actual === value;
+    case 'neq': return actual !== value;
+    case 'in': return (value as any[]).includes(actual);
+    case 'gt': return actual !== null && actual !== undefined && actual > value;
+    case 'gte': return actual !== null && actual !== undefined && actual >= value;
+    case 'lt': return actual !== null && actual !== undefined && actual < value;
+    case 'lte': return actual !== null && actual !== undefined && actual <= value;
+    case 'is': return (actual ?? null) === value;
+    default: throw new Error(`Unsupported filter: ${operator}`);
+  }
+};
+
+// Plain column lists are projected; '*' and embedded relations return whole rows
+const project = (row: Row, columns: string): Row => {
+  const names = columns.split(',').map(name => name.trim());
+  if (names.some(name => name === '*' || !/^\w+$/.test(name))) return { ...row };
+  return Object.fromEntries(names.map(name => [name, row[name] ?? null]));
+};
+
+class QueryBuilder implements PromiseLike<QueryResult> {
+  private operation: Operation = 'select';
+  private filters: ((row: Row) => boolean)[] = [];
+  private values: Row[] = [];
+  private changes: Row = {};
+  private columns = '*';
+  private returning = false;
+  private countRows = false;
+  private head = false;
+  private ordering: { column: string; ascending: boolean }[] = [];
+  private maxRows: number | null = null;
+  private expect: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private tables: InMemoryTables, private table: string) {}
+
+  select(columns: string = '*', options?: { count?: 'exact'; head?: boolean }): this {
+    this.columns = columns;
+    if (this.operation === 'select') {
+      this.countRows = !!options?.count;
+      this.head = !!options?.head;
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.operation = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  update(changes: Row): this {
+    this.operation = 'update';
+    this.changes = changes;
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  private where(column: string, operator: string, value: any): this {
+    this.filters.push(row => matches(row, column, operator, value));
+    return this;
+  }
+
+  eq(column: string, value: any): this { return this.where(column, 'eq', value); }
+  neq(column: string, value: any): this { return this.where(column, 'neq', value); }
+  in(column: string, values: any[]): this { return this.where(column, 'in', values); }
+  gt(column: string, value: any): this { return this.where(column, 'gt', value); }
+  gte(column: string, value: any): this { return this.where(column, 'gte', value); }
+  lt(column: string, value: any): this { return this.where(column, 'lt', value); }
+  lte(column: string, value: any): this { return this.where(column, 'lte', value); }
+  is(column: string, value: any): this { return this.where(column, 'is', value); }
+
+  // e.g. "patient_id.eq.abc,caregiver_id.eq.abc"
+  or(expression: string): this {
+    const conditions = expression.split(',').map(condition => {
+      const [column, operator, ...rest] = condition.split('.');
+      return { column, operator, value: parseValue(rest.join('.')) };
+    });
+    this.filters.push(row => conditions.some(({ column, operator, value }) => matches(row, column, operator, value)));
+    return this;
+  }
+
+  order(column: string, options?: { ascending?: boolean }): this {
+    this.ordering.push({ column, ascending: options?.ascending !== false });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.maxRows = count;
+    return this;
+  }
+
+  single(): this {
+    this.expect = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.expect = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private execute(): QueryResult {
+    const rows = this.tables[this.table] || (this.tables[this.table] = []);
+    const isMatch = (row: Row) => this.filters.every(filter => filter(row));
+    let result: Row[];
+
+    switch (this.operation) {
+      case 'insert':
+        result = this.values.map(value => ({ id: `${this.table}-${nextId++}`, ...value }));
+        rows.push(...result);
+        break;
+      case 'update':
+        result = rows.filter(isMatch);
+        result.forEach(row => Object.assign(row, this.changes));
+        break;
+      case 'delete':
+        result = rows.filter(isMatch);
+        this.tables[this.table] = rows.filter(row => !isMatch(row));
+        break;
+      default:
+        result = rows.filter(isMatch);
+    }
+
+    if (this.ordering.length > 0) {
+      result = [...result].sort((a, b) => {
+        for (const { column, ascending } of this.ordering) {
+          const order = compare(a[column], b[column]);
+          if (order !== 0) return ascending ? order : -order;
+        }
+        return 0;
+      });
+    }
+    if (this.maxRows !== null) result = result.slice(0, this.maxRows);
+
+    const count = this.countRows ? result.length : null;
+    if (this.operation !== 'select' && !this.returning) {
+      return { data: null, error: null, count };
+    }
+    if (this.head) return { data: null, error: null, count };
+
+    const data = result.map(row => project(row, this.columns));
+    if (this.expect === 'many') return { data, error: null, count };
+
+    if (data.length > 1 || (data.length === 0 && this.expect === 'single')) {
+      return {
+        data: null,
+        error: { message: `Expected one row from ${this.table}, found ${data.length}`, code: 'PGRST116' },
+        count,
+      };
+    }
+    return { data: data[0] ?? null, error: null, count };
+  }
+}
+
+export const createInMemoryDataClient = (tables: InMemoryTables = {}): InMemoryDataClient => {
+  let session: { user: { id: string } } | null = null;
+  const rpcHandlers: { [name: string]: RpcHandler } = {};
+
+  const client = {
+    from: (table: string) => new QueryBuilder(tables, table),
+    rpc: async (name: string, args: any = {}) => {
+      const handler = rpcHandlers[name];
+      if (!handler) return { data: null, error: { message: `Unknown function: ${name}` } };
+      return { data: handler(args, tables), error: null };
+    },
+    auth: {
+      getSession: async () => ({ data: { session }, error: null }),
+    },
+  };
+
+  return {
+    client: client as unknown as DataClient,
+    tables,
+    setSession(userId) {
+      session = userId ? { user: { id: userId } } : null;
+    },
+    setRpc(name, handler) {
+      rpcHandlers[name] = handler;
+    },
+  };
+};
@@ -1,5 +1,9 @@
-// services/analyticsService.ts - FIXED with Philippine Time (UTC+8) + Performance
+// services/analyticsService.ts - Adherence analytics in the user's time zone + Performance
 import { supabase } from './supabaseClient';
+import { doseScheduleService, ScheduledMedication } from './doseScheduleService';
+import { dateTimeService } from './dateTimeService';
+import { prnService } from './prnService';
+import { medicationRepository } from './medicationRepository';
 
 export interface AdherenceStats {
   daily: number;
@@ -31,57 +35,55 @@ export interface WeeklyPattern {
   skipped: number;
 }
 
-// ✅ FIX: Get Philippine Time (UTC+8) date string in YYYY-MM-DD format
-const getPhilippineDateString = (date: Date = new Date()): string => {
-  // Convert to Philippine time by adding 8 hours to UTC
-  const phTime = new Date(date.getTime() + (8 * 60 * 60 * 1000));
-  const year = phTime.getUTCFullYear();
-  const month = String(phTime.getUTCMonth() + 1).padStart(2, '0');
-  const day = String(phTime.getUTCDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
+// Expected dose logs per day from the shared dose schedule.
+// Each scheduled dose is logged separately; weekly and cyclic medications
+// contribute a fraction and as-needed ones nothing. Tapers count their current step.
+const getExpectedDosesPerDay = (medications: ScheduledMedication[]): number => {
+  const today = dateTimeService.getDateString();
+  return medications.reduce(
+    (sum, med) => sum + doseScheduleService.getAverageDosesPerDay(med, today),
+    0
+  );
 };
 
-// ✅ FIX: Get date N days ago in Philippine Time
-const getDaysAgo = (days: number): string => {
-  const date = new Date();
-  date.setDate(date.getDate() - days);
-  return getPhilippineDateString(date);
+// Scheduled doses due on a date; a day is perfect when all of them are taken
+const countScheduledDoses = (medications: ScheduledMedication[], dateStr: string): number => {
+  return medications.reduce(
+    (sum, med) => sum + doseScheduleService
+      .getDosesForDate(med, dateStr)
+      .filter(dose => dose.scheduledTime !== null).length,
+    0
+  );
 };
 
-// ✅ FIX: Get start of week (Sunday) in Philippine Time
-const getStartOfWeek = (): Date => {
-  const today = new Date();
-  // Convert to Philippine time
-  const phTime = new Date(today.getTime() + (8 * 60 * 60 * 1000));
-  const dayOfWeek = phTime.getUTCDay(); // 0 = Sunday
-  const startOfWeek = new Date(phTime);
-  startOfWeek.setUTCDate(phTime.getUTCDate() - dayOfWeek);
-  startOfWeek.setUTCHours(0, 0, 0, 0);
-  return startOfWeek;
+// Medications with scheduled doses; as-needed logs don't count toward adherence
+const getScheduledIds = (medications: (ScheduledMedication & { id: string })[]): string[] => {
+  return medications.filter(med => !doseScheduleService.isAsNeeded(med)).map(med => med.id);
 };
 
 export const analyticsService = {
   // ✅ OPTIMIZED: Calculate adherence rate with single query
   async getAdherenceRate(userId: string, days: number): Promise<number> {
     try {
-      const startDate = getDaysAgo(days);
-      const today = getPhilippineDateString();
+      const startDate = dateTimeService.getDaysAgo(days);
+      const today = dateTimeService.getDateString();
 
-      // Get active medications count in single query
-      const { data: medications, count: medCount } = await supabase
+      // Get active medication schedules in single query
+      const { data: medications } = await supabase
         .from('medications')
-        .select('id', { count: 'exact', head: true })
+        .select('id, frequency, reminder_time, start_date, end_date, dose_phases, cycle_on_days, cycle_off_days, weekdays, schedule_mode')
         .eq('user_id', userId)
         .eq('is_active', true);
 
-      const totalExpected = (medCount || 0) * days;
+      const totalExpected = getExpectedDosesPerDay(medications || []) * days;
       if (totalExpected === 0) return 0;
 
-      // Get taken logs in single query
+      // Get taken logs in single query; as-needed doses have no target so are left out
       const { count: takenCount } = await supabase
         .from('medication_logs')
         .select('*', { count: 'exact', head: true })
         .eq('user_id', userId)
+        .in('medication_id', getScheduledIds(medications || []))
         .eq('status', 'taken')
         .gte('log_date', startDate)
         .lte('log_date', today);
@@ -109,37 +111,41 @@ export const analyticsService = {
   // ✅ OPTIMIZED: Calculate current streak efficiently
   async getCurrentStreak(userId: string): Promise<number> {
     try {
-      // Get active medications count
-      const { count: activeMedsCount } = await supabase
+      // Get active medication schedules
+      const { data: activeMeds } = await supabase
         .from('medications')
-        .select('*', { count: 'exact', head: true })
+        .select('id, frequency, reminder_time, advance_reminder_minutes, start_date, end_date, dose_phases, cycle_on_days, cycle_off_days, weekdays, schedule_mode')
         .eq('user_id', userId)
         .eq('is_active', true);
 
-      if (!activeMedsCount || activeMedsCount === 0) return 0;
+      if (!activeMeds || activeMeds.length === 0) return 0;
 
+      const scheduledIds = getScheduledIds(activeMeds);
       let streak = 0;
-      let checkDate = new Date();
+      const today = dateTimeService.getDateString();
 
       // Check only last 30 days for performance
       for (let i = 0; i < 30; i++) {
-        const dateStr = getPhilippineDateString(checkDate);
+        const dateStr = dateTimeService.addDays(today, -i);
+        const expectedDoses = countScheduledDoses(activeMeds, dateStr);
+
+        // Days with nothing scheduled (e.g. weekly off-days) keep the streak going
+        if (expectedDoses === 0) continue;
 
         const { count: takenCount } = await supabase
           .from('medication_logs')
           .select('*', { count: 'exact', head: true })
           .eq('user_id', userId)
+          .in('medication_id', scheduledIds)
           .eq('log_date', dateStr)
           .eq('status', 'taken');
 
-        // Perfect day = took all medications
-        if ((takenCount || 0) >= activeMedsCount) {
+        // Perfect day = took every scheduled dose
+        if ((takenCount || 0) >= expectedDoses) {
           streak++;
         } else {
           break;
         }
-
-        checkDate.setDate(checkDate.getDate() - 1);
       }
 
       return streak;
@@ -161,7 +167,7 @@ export const analyticsService = {
       ] = await Promise.all([
         supabase
           .from('medications')
-          .select('id, is_active')
+          .select('id, is_active, frequency, reminder_time, advance_reminder_minutes, start_date, end_date, dose_phases, cycle_on_days, cycle_off_days, weekdays, schedule_mode')
           .eq('user_id', userId),
         supabase
           .from('medication_logs')
@@ -178,6 +184,7 @@ export const analyticsService = {
 
       const totalMedications = allMeds?.length || 0;
       const activeMedications = allMeds?.filter(m => m.is_active).length || 0;
+      const activeSchedules = allMeds?.filter(m => m.is_active) || [];
       const totalDoses = takenCount || 0;
       const missedDoses = missedCount || 0;
 
@@ -186,6 +193,7 @@ export const analyticsService = {
         .from('medication_logs')
         .select('log_date, status')
         .eq('user_id', userId)
+        .in('medication_id', getScheduledIds(activeSchedules))
         .eq('status', 'taken');
 
       const dateGroups = new Map<string, number>();
@@ -195,8 +203,9 @@ export const analyticsService = {
       });
 
       let perfectDays = 0;
-      dateGroups.forEach(count => {
-        if (count >= activeMedications && activeMedications > 0) {
+      dateGroups.forEach((count, logDate) => {
+        const expectedDoses = countScheduledDoses(activeSchedules, logDate);
+        if (count >= expectedDoses && expectedDoses > 0) {
           perfectDays++;
         }
       });
@@ -225,12 +234,14 @@ export const analyticsService = {
   // ✅ OPTIMIZED: Get time-of-day analytics
   async getTimeAnalytics(userId: string): Promise<TimeAnalytics> {
     try {
-      const { data: medications } = await supabase
+      const { data: activeMeds } = await supabase
         .from('medications')
-        .select('id, reminder_time')
+        .select('id, frequency, reminder_time')
         .eq('user_id', userId)
         .eq('is_active', true);
 
+      // As-needed doses are taken whenever required, so they have no time-of-day target
+      const medications = activeMeds?.filter(med => !doseScheduleService.isAsNeeded(med));
       if (!medications || medications.length === 0) {
         return { 
           morningCompliance: 0, 
@@ -240,50 +251,45 @@ export const analyticsService = {
         };
       }
 
-      // Categorize medications by Philippine Time
-      const timeCategories = {
-        morning: medications.filter(m => {
-          const hour = parseInt(m.reminder_time.split(':')[0]);
-          return hour >= 6 && hour < 12;
-        }),
-        afternoon: medications.filter(m => {
-          const hour = parseInt(m.reminder_time.split(':')[0]);
-          return hour >= 12 && hour < 17;
-        }),
-        evening: medications.filter(m => {
-          const hour = parseInt(m.reminder_time.split(':')[0]);
-          return hour >= 17 && hour < 21;
-        }),
-        night: medications.filter(m => {
-          const hour = parseInt(m.reminder_time.split(':')[0]);
-          return hour >= 21 || hour < 6;
-        }),
+      // Bucket each dose log by the time it was due (legacy logs fall back to the medication's reminder time)
+      const reminderTimes = new Map<string, string>();
+      medications.forEach(m => reminderTimes.set(m.id, m.reminder_time));
+
+      const { data: logs } = await supabase
+        .from('medication_logs')
+        .select('medication_id, status, scheduled_time')
+        .in('medication_id', medications.map(m => m.id))
+        .eq('user_id', userId)
+        .gte('log_date', dateTimeService.getDaysAgo(30));
+
+      const buckets = {
+        morning: { taken: 0, total: 0 },
+        afternoon: { taken: 0, total: 0 },
+        evening: { taken: 0, total: 0 },
+        night: { taken: 0, total: 0 },
       };
 
-      const calculateCompliance = async (meds: any[]) => {
-        if (meds.length === 0) return 0;
+      logs?.forEach(log => {
+        const time = log.scheduled_time || reminderTimes.get(log.medication_id);
+        if (!time) return;
 
-        const medIds = meds.map(m => m.id);
-        const thirtyDaysAgo = getDaysAgo(30);
+        const hour = parseInt(time.split(':')[0]);
+        const bucket = hour >= 6 && hour < 12 ? buckets.morning
+          : hour >= 12 && hour < 17 ? buckets.afternoon
+          : hour >= 17 && hour < 21 ? buckets.evening
+          : buckets.night;
 
-        const { data: logs } = await supabase
-          .from('medication_logs')
-          .select('status')
-          .in('medication_id', medIds)
-          .eq('user_id', userId)
-          .gte('log_date', thirtyDaysAgo);
+        bucket.total++;
+        if (log.status === 'taken') bucket.taken++;
+      });
 
-        const taken = logs?.filter(l => l.status === 'taken').length || 0;
-        const total = logs?.length || 0;
-        return total > 0 ? Math.round((taken / total) * 100) : 0;
-      };
+      const calculateCompliance = (bucket: { taken: number; total: number }) =>
+        bucket.total > 0 ? Math.round((bucket.taken / bucket.total) * 100) : 0;
 
-      const [morning, afternoon, evening, night] = await Promise.all([
-        calculateCompliance(timeCategories.morning),
-        calculateCompliance(timeCategories.afternoon),
-        calculateCompliance(timeCategories.evening),
-        calculateCompliance(timeCategories.night)
-      ]);
+      const morning = calculateCompliance(buckets.morning);
+      const afternoon = calculateCompliance(buckets.afternoon);
+      const evening = calculateCompliance(buckets.evening);
+      const night = calculateCompliance(buckets.night);
 
       return {
         morningCompliance: morning,
@@ -302,30 +308,20 @@ export const analyticsService = {
     }
   },
 
-  // ✅ OPTIMIZED: Get weekly pattern with Philippine Time
+  // ✅ OPTIMIZED: Get weekly pattern in the user's time zone
   async getWeeklyPattern(userId: string): Promise<WeeklyPattern[]> {
     try {
       const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-      const startOfWeek = getStartOfWeek();
+      const startDateStr = dateTimeService.getStartOfWeek();
+      const endDateStr = dateTimeService.addDays(startDateStr, 6);
 
       // Get all logs for the week in a single query
-      const endOfWeek = new Date(startOfWeek);
-      endOfWeek.setDate(startOfWeek.getDate() + 6);
-
-      const startDateStr = getPhilippineDateString(startOfWeek);
-      const endDateStr = getPhilippineDateString(endOfWeek);
-
-      const { data: logs } = await supabase
-        .from('medication_logs')
-        .select('log_date, status')
-        .eq('user_id', userId)
-        .gte('log_date', startDateStr)
-        .lte('log_date', endDateStr);
+      const logs = await medicationRepository.getLogsForRange(userId, startDateStr, endDateStr);
 
       // Group logs by date
       const logsByDate = new Map<string, { taken: number; missed: number; skipped: number }>();
       
-      logs?.forEach(log => {
+      logs.forEach(log => {
         if (!logsByDate.has(log.log_date)) {
           logsByDate.set(log.log_date, { taken: 0, missed: 0, skipped: 0 });
         }
@@ -338,10 +334,8 @@ export const analyticsService = {
       // Build pattern array
       const pattern: WeeklyPattern[] = [];
       for (let i = 0; i < 7; i++) {
-        const date = new Date(startOfWeek);
-        date.setDate(startOfWeek.getDate() + i);
-        const dateStr = getPhilippineDateString(date);
-        const dayName = days[date.getUTCDay()];
+        const dateStr = dateTimeService.addDays(startDateStr, i);
+        const dayName = days[dateTimeService.getDayOfWeek(dateStr)];
 
         const stats = logsByDate.get(dateStr) || { taken: 0, missed: 0, skipped: 0 };
         
@@ -365,10 +359,11 @@ export const analyticsService = {
     const insights: string[] = [];
 
     try {
-      const [stats, adherenceStats, timeAnalytics] = await Promise.all([
+      const [stats, adherenceStats, timeAnalytics, prnUsage] = await Promise.all([
         this.getMedicationStats(userId),
         this.getAdherenceStats(userId),
-        this.getTimeAnalytics(userId)
+        this.getTimeAnalytics(userId),
+        prnService.getUsageTrends(userId)
       ]);
 
       // Streak insights
@@ -405,6 +400,15 @@ export const analyticsService = {
         insights.push(`🎯 Amazing! You've had ${stats.perfectDays} perfect days of taking all your medications.`);
       }
 
+      // As-needed usage insights
+      prnUsage.forEach(usage => {
+        if (usage.daysAtLimit > 0) {
+          insights.push(`⚠️ You reached the daily maximum of ${usage.medicationName} on ${usage.daysAtLimit} day${usage.daysAtLimit === 1 ? '' : 's'} this week. Consider talking to your doctor.`);
+        } else if (usage.dosesThisWeek > usage.dosesLastWeek * 1.5 && usage.dosesThisWeek - usage.dosesLastWeek >= 3) {
+          insights.push(`📈 You used ${usage.medicationName} more often this week (${usage.dosesThisWeek} vs ${usage.dosesLastWeek} doses).`);
+        }
+      });
+
       // No insights case
       if (insights.length === 0) {
         insights.push('📊 Keep tracking your medications to see personalized insights here!');
@@ -18,6 +18,18 @@ export interface CaregiverConnection {
   };
 }
 
+// A message for a caregiver about one of their patients, e.g. a missed dose
+export interface CaregiverAlert {
+  id: string;
+  caregiver_id: string;
+  patient_id: string;
+  medication_id?: string | null;
+  type: 'missed_dose';
+  message: string;
+  created_at: string;
+  read_at?: string | null;
+}
+
 export const caregiverService = {
   // ✅ FIXED: Generate connection code with proper error handling
   async generateConnectionCode(userId: string): Promise<string | null> {
@@ -348,87 +360,68 @@ export const caregiverService = {
     }
   },
 
-  // Get patient's medications with robust filtering
-  async getPatientMedications(caregiverId: string, patientId: string): Promise<any[]> {
+  // Leave an alert for every active caregiver of a patient; shown when they next open the app
+  async alertCaregivers(patientId: string, medicationId: string | null, message: string): Promise<number> {
     try {
-      // Verify access first
-      const hasAccess = await this.hasAccessToPatient(caregiverId, patientId);
-      if (!hasAccess) {
-        console.error('❌ No access to patient medications');
-        return [];
-      }
-
-      console.log('📋 Fetching patient medications...');
-
-      const { data, error } = await supabase
-        .from('medications')
-        .select('*')
-        .eq('user_id', patientId)
-        .order('created_at', { ascending: false });
+      const { data: connections, error } = await supabase
+        .from('caregiver_connections')
+        .select('caregiver_id')
+        .eq('patient_id', patientId)
+        .eq('status', 'active');
 
       if (error) throw error;
+      if (!connections || connections.length === 0) return 0;
+
+      const { error: insertError } = await supabase
+        .from('caregiver_alerts')
+        .insert(connections.map(connection => ({
+          caregiver_id: connection.caregiver_id,
+          patient_id: patientId,
+          medication_id: medicationId,
+          type: 'missed_dose',
+          message,
+          created_at: new Date().toISOString(),
+        })));
 
-      // Add robust filtering to prevent undefined errors
-      const validMeds = (data || []).filter(med => {
-        if (!med || typeof med !== 'object') {
-          console.warn('⚠️ Invalid medication object:', med);
-          return false;
-        }
-        
-        if (!med.id) {
-          console.warn('⚠️ Medication missing ID:', med);
-          return false;
-        }
-        
-        if (!med.medication_name) {
-          console.warn('⚠️ Medication missing name:', med);
-          return false;
-        }
-        
-        return true;
-      });
+      if (insertError) throw insertError;
 
-      console.log(`✅ Found ${validMeds.length} valid medications out of ${data?.length || 0} total`);
-      return validMeds;
+      console.log(`📣 Alerted ${connections.length} caregiver(s)`);
+      return connections.length;
     } catch (error) {
-      console.error('❌ Error fetching patient medications:', error);
-      return [];
+      console.error('❌ Error alerting caregivers:', error);
+      return 0;
     }
   },
 
-  // Get patient's medication logs (caregiver access)
-  async getPatientMedicationLogs(
-    caregiverId: string,
-    patientId: string,
-    medicationId?: string
-  ): Promise<any[]> {
+  async getUnreadAlerts(caregiverId: string): Promise<CaregiverAlert[]> {
     try {
-      const hasAccess = await this.hasAccessToPatient(caregiverId, patientId);
-      if (!hasAccess) {
-        return [];
-      }
-
-      console.log('📊 Fetching medication logs...');
-
-      let query = supabase
-        .from('medication_logs')
+      const { data, error } = await supabase
+        .from('caregiver_alerts')
         .select('*')
-        .eq('user_id', patientId)
-        .order('log_date', { ascending: false });
-
-      if (medicationId) {
-        query = query.eq('medication_id', medicationId);
-      }
-
-      const { data, error } = await query;
+        .eq('caregiver_id', caregiverId)
+        .is('read_at', null)
+        .order('created_at', { ascending: true });
 
       if (error) throw error;
-
-      console.log(`✅ Found ${data?.length || 0} logs`);
       return data || [];
     } catch (error) {
-      console.error('❌ Error fetching logs:', error);
+      console.error('❌ Error fetching caregiver alerts:', error);
       return [];
     }
-  }
+  },
+
+  async markAlertsRead(alertIds: string[]): Promise<void> {
+    if (alertIds.length === 0) return;
+
+    try {
+      const { error } = await supabase
+        .from('caregiver_alerts')
+        .update({ read_at: new Date().toISOString() })
+        .in('id', alertIds);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('❌ Error marking caregiver alerts read:', error);
+    }
+  },
 };
\ No newline at end of file
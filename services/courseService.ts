@@ -0,0 +1,153 @@
+// services/courseService.ts - Fixed-length courses: retiring finished medications and summarising adherence
+import { Alert } from 'react-native';
+import { supabase, DatabaseMedication } from './supabaseClient';
+import { doseScheduleService, ScheduledMedication } from './doseScheduleService';
+import { dateTimeService } from './dateTimeService';
+import { notificationService } from './notificationService';
+
+export interface CourseSummary {
+  medicationId: string;
+  medicationName: string;
+  startDate: string;
+  endDate: string;
+  days: number;
+  expectedDoses: number;
+  taken: number;
+  missed: number;
+  skipped: number;
+  adherence: number | null; // Percent of scheduled doses taken; null for as-needed courses
+}
+
+// e.g. "Oct 25"; noon keeps the calendar day whatever the device's UTC offset
+const formatCourseDate = (dateString: string): string => {
+  return new Date(`${dateString}T12:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+export const courseService = {
+  formatCourseDate,
+
+  // e.g. "Until Oct 25" for a course still running; null without an end
+  describeCourseEnd(medication: ScheduledMedication): string | null {
+    const endDate = doseScheduleService.getCourseEndDate(medication);
+    return endDate ? `Until ${formatCourseDate(endDate)}` : null;
+  },
+
+  // Adherence over a medication's whole course, from its start date to its last dosing day
+  async getCourseSummary(medication: DatabaseMedication): Promise<CourseSummary | null> {
+    try {
+      const endDate = doseScheduleService.getCourseEndDate(medication);
+      if (!endDate) return null;
+      const startDate = medication.start_date ? medication.start_date.split('T')[0] : endDate;
+
+      const { data: logs, error } = await supabase
+        .from('medication_logs')
+        .select('status')
+        .eq('medication_id', medication.id)
+        .gte('log_date', startDate)
+        .lte('log_date', endDate);
+
+      if (error) throw error;
+
+      const days = Math.max(1, dateTimeService.getDaysBetween(startDate, endDate) + 1);
+      let expectedDoses = 0;
+      for (let i = 0; i < days; i++) {
+        expectedDoses += doseScheduleService
+          .getDosesForDate(medication, dateTimeService.addDays(startDate, i))
+          .filter(dose => dose.scheduledTime !== null).length;
+      }
+
+      const count = (status: string) => (logs || []).filter(log => log.status === status).length;
+      const taken = count('taken');
+
+      return {
+        medicationId: medication.id,
+        medicationName: medication.medication_name,
+        startDate,
+        endDate,
+        days,
+        expectedDoses,
+        taken,
+        missed: count('missed'),
+        skipped: count('skipped'),
+        adherence: expectedDoses > 0 ? Math.min(100, Math.round((taken / expectedDoses) * 100)) : null,
+      };
+    } catch (error) {
+      console.error('Error building course summary:', error);
+      return null;
+    }
+  },
+
+  // Mark every active medication whose course has ended as completed and stop its reminders.
+  // Returns a summary for each course retired.
+  async completeFinishedCourses(userId: string): Promise<CourseSummary[]> {
+    try {
+      const { data: medications, error } = await supabase
+        .from('medications')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_active', true);
+
+      if (error) throw error;
+
+      const today = dateTimeService.getDateString();
+      const finished = (medications || []).filter(med => doseScheduleService.isCourseComplete(med, today));
+      const summaries: CourseSummary[] = [];
+
+      for (const medication of finished) {
+        await notificationService.cancelMedicationNotifications(medication.id);
+
+        const { error: updateError } = await supabase
+          .from('medications')
+          .update({
+            is_active: false,
+            status: 'completed',
+            completed_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', medication.id);
+
+        if (updateError) {
+          console.error(`❌ Error completing ${medication.medication_name}:`, updateError);
+          continue;
+        }
+
+        console.log(`🏁 Course completed: ${medication.medication_name}`);
+        const summary = await this.getCourseSummary(medication);
+        if (summary) summaries.push(summary);
+      }
+
+      return summaries;
+    } catch (error) {
+      console.error('Error completing finished courses:', error);
+      return [];
+    }
+  },
+
+  // e.g. "7-day course • 19 of 21 doses taken (90%)"
+  describeSummary(summary: CourseSummary): string {
+    const length = `${summary.days}-day course`;
+    if (summary.adherence === null) {
+      return `${length} • ${summary.taken} dose${summary.taken === 1 ? '' : 's'} taken as needed`;
+    }
+    return `${length} • ${summary.taken} of ${summary.expectedDoses} doses taken (${summary.adherence}%)`;
+  },
+
+  // Full breakdown for one finished course
+  showCourseSummary(summary: CourseSummary): void {
+    Alert.alert(
+      `🏁 ${summary.medicationName}`,
+      `${formatCourseDate(summary.startDate)} – ${formatCourseDate(summary.endDate)}\n${this.describeSummary(summary)}` +
+        `\n\nMissed: ${summary.missed} • Skipped: ${summary.skipped}`
+    );
+  },
+
+  showCompletedCourses(summaries: CourseSummary[]): void {
+    if (summaries.length === 0) return;
+
+    const lines = summaries.map(summary => `${summary.medicationName}\n${this.describeSummary(summary)}`);
+    Alert.alert(
+      summaries.length === 1 ? '🎉 Course Completed' : '🎉 Courses Completed',
+      `${lines.join('\n\n')}\n\nReminders for ${summaries.length === 1 ? 'this medication have' : 'these medications have'} been turned off.`
+    );
+  },
+};
@@ -0,0 +1,205 @@
+// services/dateTimeService.ts - Day boundaries and clock times in the user's time zone
+// Every log date, "today" check and reminder time goes through here so they all agree.
+import { supabase } from './supabaseClient';
+
+// Used when neither the profile nor the device reports a time zone
+export const FALLBACK_TIME_ZONE = 'Asia/Manila';
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatterCache: { [timeZone: string]: Intl.DateTimeFormat } = {};
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  if (!formatterCache[timeZone]) {
+    formatterCache[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+  return formatterCache[timeZone];
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || FALLBACK_TIME_ZONE;
+  } catch {
+    return FALLBACK_TIME_ZONE;
+  }
+};
+
+let currentTimeZone = getDeviceTimeZone();
+// Travel mode: minutes the schedule is moved away from home wall-clock times
+let scheduleShiftMinutes = 0;
+
+export const dateTimeService = {
+  getDeviceTimeZone,
+
+  getTimeZone(): string {
+    return currentTimeZone;
+  },
+
+  // Called once the profile is known; invalid or empty values fall back to the device zone
+  setTimeZone(timeZone?: string | null): void {
+    currentTimeZone = timeZone && this.isValidTimeZone(timeZone) ? timeZone : getDeviceTimeZone();
+  },
+
+  // Load the time zone saved on the user's profile (for code running outside the profile context)
+  async loadUserTimeZone(userId: string): Promise<string> {
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('timezone')
+        .eq('user_id', userId)
+        .single();
+
+      if (error) throw error;
+      this.setTimeZone(data?.timezone);
+    } catch (error) {
+      console.error('Error loading user time zone:', error);
+    }
+    return currentTimeZone;
+  },
+
+  getScheduleShift(): number {
+    return scheduleShiftMinutes;
+  },
+
+  setScheduleShift(minutes: number): void {
+    scheduleShiftMinutes = minutes;
+  },
+
+  isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  // Wall-clock fields of an instant in a time zone
+  getZonedParts(date: Date = new Date(), timeZone: string = currentTimeZone): ZonedParts {
+    const parts: { [type: string]: number } = {};
+    getFormatter(timeZone).formatToParts(date).forEach(part => {
+      if (part.type !== 'literal') parts[part.type] = Number(part.value);
+    });
+
+    return {
+      year: parts.year,
+      month: parts.month,
+      day: parts.day,
+      hour: parts.hour % 24,
+      minute: parts.minute,
+    };
+  },
+
+  // YYYY-MM-DD for an instant, used for every log_date and day boundary
+  getDateString(date: Date = new Date(), timeZone: string = currentTimeZone): string {
+    const { year, month, day } = this.getZonedParts(date, timeZone);
+    return `${year}-${pad(month)}-${pad(day)}`;
+  },
+
+  // HH:MM for an instant
+  getTimeString(date: Date = new Date(), timeZone: string = currentTimeZone): string {
+    const { hour, minute } = this.getZonedParts(date, timeZone);
+    return `${pad(hour)}:${pad(minute)}`;
+  },
+
+  // Minutes since local midnight
+  getMinutesOfDay(date: Date = new Date(), timeZone: string = currentTimeZone): number {
+    const { hour, minute } = this.getZonedParts(date, timeZone);
+    return hour * 60 + minute;
+  },
+
+  // Minutes elapsed since a scheduled HH:MM dose today (negative if it is still ahead).
+  // Accounts for any travel shift, so the dose is due when its reminder actually fires.
+  getMinutesSince(time: string, date: Date = new Date()): number {
+    const [hour, minute] = time.split(':').map(Number);
+    return this.getMinutesOfDay(date) - (hour * 60 + minute - scheduleShiftMinutes);
+  },
+
+  // Calendar arithmetic on YYYY-MM-DD strings, independent of any time zone
+  addDays(dateString: string, days: number): string {
+    const [year, month, day] = dateString.split('-').map(Number);
+    const shifted = new Date(Date.UTC(year, month - 1, day + days));
+    return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+  },
+
+  // Whole days from one YYYY-MM-DD date to another (negative if `to` is earlier)
+  getDaysBetween(from: string, to: string): number {
+    const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+    const [toYear, toMonth, toDay] = to.split('-').map(Number);
+    const diff = Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay);
+    return Math.round(diff / (24 * 60 * 60 * 1000));
+  },
+
+  getDaysAgo(days: number): string {
+    return this.addDays(this.getDateString(), -days);
+  },
+
+  // 0 = Sunday
+  getDayOfWeek(dateString: string): number {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  },
+
+  // Sunday of the current week
+  getStartOfWeek(): string {
+    const today = this.getDateString();
+    return this.addDays(today, -this.getDayOfWeek(today));
+  },
+
+  // UTC offset of a time zone in minutes (e.g. +480 for Asia/Manila)
+  getOffsetMinutes(date: Date = new Date(), timeZone: string = currentTimeZone): number {
+    const { year, month, day, hour, minute } = this.getZonedParts(date, timeZone);
+    const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+    const instant = Math.floor(date.getTime() / 60000) * 60000;
+    return Math.round((asUtc - instant) / 60000);
+  },
+
+  // Notification triggers fire on the device clock. Convert an HH:MM in the
+  // user's time zone (plus any travel shift) to device time; dayOffset is
+  // -1/0/+1 when it crosses midnight.
+  toDeviceTime(hour: number, minute: number): { hour: number; minute: number; dayOffset: number } {
+    const now = new Date();
+    const deviceOffset = -now.getTimezoneOffset();
+    const shift = deviceOffset - this.getOffsetMinutes(now) - scheduleShiftMinutes;
+
+    const totalMinutes = hour * 60 + minute + shift;
+    const dayOffset = Math.floor(totalMinutes / 1440);
+    const normalized = totalMinutes - dayOffset * 1440;
+
+    return {
+      hour: Math.floor(normalized / 60),
+      minute: normalized % 60,
+      dayOffset,
+    };
+  },
+
+  // The moment an HH:MM on a YYYY-MM-DD date (user's time zone, plus any travel shift) occurs
+  getInstant(dateString: string, hour: number, minute: number): Date {
+    const [year, month, day] = dateString.split('-').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute - scheduleShiftMinutes);
+    // Offsets can differ either side of a DST change, so correct once more at the guessed instant
+    const guess = wallClock - this.getOffsetMinutes(new Date(wallClock)) * 60000;
+    return new Date(wallClock - this.getOffsetMinutes(new Date(guess)) * 60000);
+  },
+
+  // Shift a notification weekday (1 = Sunday ... 7 = Saturday) by whole days
+  shiftWeekday(weekday: number, dayOffset: number): number {
+    return ((weekday - 1 + dayOffset) % 7 + 7) % 7 + 1;
+  },
+};
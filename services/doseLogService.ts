@@ -0,0 +1,323 @@
+// services/doseLogService.ts - Per-dose medication logging
+// Logs made without a connection are queued in offlineService and replayed by syncPendingLogs.
+import { supabase, DatabaseMedication, DatabaseMedicationLog } from './supabaseClient';
+import { doseScheduleService, DoseRef } from './doseScheduleService';
+import { dateTimeService } from './dateTimeService';
+import { inventoryService } from './medicationEnhancedService';
+import { rollingScheduleService } from './rollingScheduleService';
+import { escalationService } from './escalationService';
+import { offlineService } from './offlineService';
+
+export type DoseLogStatus = 'taken' | 'missed' | 'skipped';
+
+// 'queued' = saved on this device, written once back online
+export type DoseLogResult = 'saved' | 'queued';
+
+// Replays that fail for reasons other than the connection are dropped after this many tries
+const MAX_SYNC_ATTEMPTS = 5;
+
+let syncInProgress = false;
+
+export const doseLogService = {
+  // Key used to look up a dose slot's log in screen state
+  getDoseKey(medicationId: string, doseIndex: number): string {
+    return `${medicationId}:${doseIndex}`;
+  },
+
+  // Conflict rules for a dose that already has a log, e.g. from another device: the same status
+  // changes nothing, an automatic 'missed' never replaces a dose the user logged, and otherwise
+  // the later action wins by when it happened rather than when it reached the server.
+  shouldReplace(existing: { status: string; logged_at?: string | null }, status: DoseLogStatus, loggedAt: string): boolean {
+    if (existing.status === status) return false;
+    if (status === 'missed') return false;
+    if (existing.status === 'missed') return true;
+    return !existing.logged_at || existing.logged_at <= loggedAt;
+  },
+
+  // Insert or update the log for one dose slot (medication + date + dose index).
+  // Any log stops the dose's follow-up reminders. Newly taken doses are deducted from
+  // the medication's stock and, for rolling schedules, set when the next dose is due.
+  // Without a connection the log is queued and shown from the device until it syncs.
+  async logDose(
+    userId: string,
+    medicationId: string,
+    logDate: string,
+    dose: DoseRef,
+    status: DoseLogStatus,
+    loggedAt: string = new Date().toISOString()
+  ): Promise<DoseLogResult> {
+    try {
+      await this.writeLog(userId, medicationId, logDate, dose, status, loggedAt);
+    } catch (error) {
+      if (!offlineService.isNetworkError(error)) throw error;
+
+      await offlineService.enqueueDoseLog({ userId, medicationId, logDate, dose, status, loggedAt });
+      // Follow-ups are local notifications, so they can stop now
+      await escalationService.cancelForDose(medicationId, logDate, dose.doseIndex);
+      return 'queued';
+    }
+
+    // The connection works, so send anything logged while it didn't
+    this.syncPendingLogs();
+    return 'saved';
+  },
+
+  // One dose's write and its side effects; throws on any failure, connection included
+  async writeLog(
+    userId: string,
+    medicationId: string,
+    logDate: string,
+    dose: DoseRef,
+    status: DoseLogStatus,
+    loggedAt: string
+  ): Promise<void> {
+    // Logs from before dose slots have no dose_index and count as dose 0, as everywhere they're read
+    const lookup = supabase
+      .from('medication_logs')
+      .select('id, status, logged_at')
+      .eq('medication_id', medicationId)
+      .eq('user_id', userId)
+      .eq('log_date', logDate);
+    const { data: existingLog, error: lookupError } = await (dose.doseIndex === 0
+      ? lookup.or('dose_index.eq.0,dose_index.is.null')
+      : lookup.eq('dose_index', dose.doseIndex)
+    ).limit(1).maybeSingle();
+
+    if (lookupError) throw lookupError;
+
+    if (existingLog) {
+      if (!this.shouldReplace(existingLog, status, loggedAt)) {
+        // The dose is still logged, so its follow-ups stop either way
+        await escalationService.cancelForDose(medicationId, logDate, dose.doseIndex);
+        return;
+      }
+
+      const { error } = await supabase
+        .from('medication_logs')
+        .update({
+          status,
+          logged_at: loggedAt,
+        })
+        .eq('id', existingLog.id);
+
+      if (error) throw error;
+    } else {
+      const { error } = await supabase
+        .from('medication_logs')
+        .insert({
+          medication_id: medicationId,
+          user_id: userId,
+          log_date: logDate,
+          dose_index: dose.doseIndex,
+          scheduled_time: dose.scheduledTime,
+          status,
+          logged_at: loggedAt,
+        });
+
+      if (error) throw error;
+    }
+
+    await this.afterDoseLogged(medicationId, logDate, dose, status, existingLog?.status);
+  },
+
+  // Log several doses for one date together, e.g. "Take all" on a grouped reminder.
+  // Existing logs are read, updated and inserted in one request each.
+  async logDoses(
+    userId: string,
+    logDate: string,
+    doses: { medicationId: string; dose: DoseRef }[],
+    status: DoseLogStatus
+  ): Promise<DoseLogResult> {
+    if (doses.length === 0) return 'saved';
+    const loggedAt = new Date().toISOString();
+
+    try {
+      const { data: existingLogs, error: lookupError } = await supabase
+        .from('medication_logs')
+        .select('id, medication_id, dose_index, status, logged_at')
+        .eq('user_id', userId)
+        .eq('log_date', logDate)
+        .in('medication_id', [...new Set(doses.map(item => item.medicationId))]);
+
+      if (lookupError) throw lookupError;
+
+      const existingByKey = new Map(
+        (existingLogs || []).map(log => [this.getDoseKey(log.medication_id, log.dose_index ?? 0), log])
+      );
+      const existing = doses.map(item => existingByKey.get(this.getDoseKey(item.medicationId, item.dose.doseIndex)));
+
+      const updateIds = existing
+        .filter(log => log && this.shouldReplace(log, status, loggedAt))
+        .map(log => log!.id);
+      if (updateIds.length > 0) {
+        const { error } = await supabase
+          .from('medication_logs')
+          .update({ status, logged_at: loggedAt })
+          .in('id', updateIds);
+
+        if (error) throw error;
+      }
+
+      const inserts = doses
+        .filter((_, i) => !existing[i])
+        .map(({ medicationId, dose }) => ({
+          medication_id: medicationId,
+          user_id: userId,
+          log_date: logDate,
+          dose_index: dose.doseIndex,
+          scheduled_time: dose.scheduledTime,
+          status,
+          logged_at: loggedAt,
+        }));
+      if (inserts.length > 0) {
+        const { error } = await supabase.from('medication_logs').insert(inserts);
+        if (error) throw error;
+      }
+
+      for (let i = 0; i < doses.length; i++) {
+        const log = existing[i];
+        if (log && !updateIds.includes(log.id)) {
+          await escalationService.cancelForDose(doses[i].medicationId, logDate, doses[i].dose.doseIndex);
+          continue;
+        }
+        await this.afterDoseLogged(doses[i].medicationId, logDate, doses[i].dose, status, log?.status);
+      }
+    } catch (error) {
+      if (!offlineService.isNetworkError(error)) throw error;
+
+      for (const { medicationId, dose } of doses) {
+        await offlineService.enqueueDoseLog({ userId, medicationId, logDate, dose, status, loggedAt });
+        await escalationService.cancelForDose(medicationId, logDate, dose.doseIndex);
+      }
+      return 'queued';
+    }
+
+    this.syncPendingLogs();
+    return 'saved';
+  },
+
+  // Today's scheduled doses nobody has logged that are past their missed-after time. A snoozed
+  // dose's time counts from when its latest snooze ends (snoozedUntil, by dose key).
+  getOverdueDoses(
+    medications: DatabaseMedication[],
+    logs: { [doseKey: string]: DatabaseMedicationLog },
+    now: Date = new Date(),
+    snoozedUntil: { [doseKey: string]: Date } = {}
+  ): { medication: DatabaseMedication; dose: DoseRef }[] {
+    const today = dateTimeService.getDateString(now);
+    const isOverdue = (medication: DatabaseMedication, dose: DoseRef): boolean => {
+      const snoozeEnds = snoozedUntil[this.getDoseKey(medication.id, dose.doseIndex)];
+      if (snoozeEnds) {
+        return now.getTime() - snoozeEnds.getTime() >= escalationService.getMissedAfterMinutes(medication) * 60000;
+      }
+      return dateTimeService.getMinutesSince(dose.scheduledTime!, now) >= escalationService.getMissedAfterMinutes(medication, dose.scheduledTime);
+    };
+
+    return medications.flatMap(medication =>
+      doseScheduleService.getDosesForDate(medication, today)
+        .filter(dose =>
+          dose.scheduledTime !== null &&
+          !logs[this.getDoseKey(medication.id, dose.doseIndex)] &&
+          isOverdue(medication, dose)
+        )
+        .map(dose => ({ medication, dose }))
+    );
+  },
+
+  // Follow-ups, stock and rolling schedules after a dose's log changes
+  async afterDoseLogged(
+    medicationId: string,
+    logDate: string,
+    dose: DoseRef,
+    status: DoseLogStatus,
+    previousStatus?: string
+  ): Promise<void> {
+    await escalationService.cancelForDose(medicationId, logDate, dose.doseIndex);
+
+    if (status === 'taken' && previousStatus !== 'taken') {
+      await inventoryService.decrementPillCount(medicationId, logDate);
+      await rollingScheduleService.onDoseTaken(medicationId, dose);
+    } else if (status === 'missed' && !previousStatus) {
+      await rollingScheduleService.onDoseMissed(medicationId, dose);
+    }
+  },
+
+  // Replay queued logs oldest first, with the time each was made so conflicts settle the same
+  // way as online. Stops at the first connection failure and keeps the rest for next time.
+  async syncPendingLogs(): Promise<number> {
+    if (syncInProgress) return 0;
+    syncInProgress = true;
+
+    let synced = 0;
+    try {
+      let queue = await offlineService.getQueue();
+      if (queue.length === 0) return 0;
+
+      // Writes need the signed-in session, which restores a moment after launch
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return 0;
+      const startIds = new Set(queue.map(item => item.id));
+      console.log(`🔄 Syncing ${queue.length} offline dose log(s)`);
+
+      for (const mutation of [...queue]) {
+        const { userId, medicationId, logDate, dose, status, loggedAt } = mutation.payload;
+        try {
+          await this.writeLog(userId, medicationId, logDate, dose, status, loggedAt);
+          synced++;
+        } catch (error) {
+          if (offlineService.isNetworkError(error)) break;
+
+          console.error('❌ Error syncing dose log:', error);
+          if (mutation.attempts + 1 < MAX_SYNC_ATTEMPTS) {
+            queue = queue.map(item => item.id === mutation.id ? { ...item, attempts: item.attempts + 1 } : item);
+            continue;
+          }
+          console.warn(`⚠️ Dropping dose log after ${MAX_SYNC_ATTEMPTS} failed attempts`);
+        }
+        queue = queue.filter(item => item.id !== mutation.id);
+      }
+
+      // Logs queued while this ran are kept; ones replaced by a newer log for the same dose go
+      const latest = await offlineService.getQueue();
+      const latestIds = new Set(latest.map(item => item.id));
+      await offlineService.saveQueue([
+        ...queue.filter(item => latestIds.has(item.id)),
+        ...latest.filter(item => !startIds.has(item.id)),
+      ]);
+
+      if (synced > 0) console.log(`✅ Synced ${synced} offline dose log(s)`);
+      return synced;
+    } catch (error) {
+      console.error('❌ Error syncing offline dose logs:', error);
+      return synced;
+    } finally {
+      syncInProgress = false;
+    }
+  },
+
+  // Logs for a day keyed by dose; legacy one-per-day logs count as the first dose.
+  // Offline, the day's saved logs are used. Queued logs are shown either way.
+  async getDoseLogsForDate(userId: string, logDate: string): Promise<{ [doseKey: string]: DatabaseMedicationLog }> {
+    const { data, error } = await supabase
+      .from('medication_logs')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('log_date', logDate);
+
+    let logs: DatabaseMedicationLog[];
+    if (error) {
+      if (!offlineService.isNetworkError(error)) throw error;
+      logs = await offlineService.getLogs(userId, logDate);
+    } else {
+      await offlineService.saveLogs(userId, logDate, data || []);
+      logs = await offlineService.withPendingLogs(userId, logDate, data || []);
+    }
+
+    const logMap: { [doseKey: string]: DatabaseMedicationLog } = {};
+    logs.forEach((log: DatabaseMedicationLog) => {
+      logMap[this.getDoseKey(log.medication_id, log.dose_index ?? 0)] = log;
+    });
+
+    return logMap;
+  },
+};
@@ -0,0 +1,511 @@
+// services/doseScheduleService.ts - Single source of truth for medication dose schedules
+// Reminders, inventory forecasts and analytics all read frequencies through this module.
+import { DosePhase } from './supabaseClient';
+import { dateTimeService } from './dateTimeService';
+
+export type DoseScheduleKind = 'interval' | 'anchored' | 'weekly' | 'as_needed';
+
+export interface DoseSchedule {
+  frequency: string;
+  kind: DoseScheduleKind;
+  times: string[]; // Dose times on a dosing day in HH:MM format
+  intervalHours: number; // Hours between doses (0 when not interval based)
+  dosesPerDay: number; // Expected doses on an average day (Weekly = 1/7)
+}
+
+// A single dose slot on a given day, matching the reminder that announces it
+export interface DoseRef {
+  doseIndex: number; // Position in the day's schedule (notification reminderIndex)
+  scheduledTime: string | null; // HH:MM, null for as-needed doses
+}
+
+// The dose, unit and frequency in effect on a given day
+export interface DoseRegimen {
+  dosage: string;
+  dosage_unit: string;
+  frequency: string;
+  phaseIndex: number | null; // null when the medication has no phases
+  totalPhases: number;
+}
+
+// The medication fields needed to rebuild its schedule
+export interface ScheduledMedication {
+  frequency: string;
+  reminder_time: string;
+  advance_reminder_minutes?: number | null;
+  dosage?: string;
+  dosage_unit?: string;
+  start_date?: string | null;
+  end_date?: string | null;
+  dose_phases?: DosePhase[] | null;
+  cycle_on_days?: number | null;
+  cycle_off_days?: number | null;
+  weekdays?: number[] | null;
+  schedule_mode?: ScheduleMode | null;
+  next_dose_at?: string | null;
+  next_dose_index?: number | null;
+  package_unit?: PackageUnit | null;
+  units_per_dose?: number | null;
+}
+
+// 'clock' repeats at the same times every day; 'rolling' times each dose from the last one taken
+export type ScheduleMode = 'clock' | 'rolling';
+
+// Repeating on/off pattern counted from the start date (e.g. 21 on / 7 off, or 1 / 1 for every other day)
+export interface MedicationCycle {
+  onDays: number;
+  offDays: number;
+  startDate: string;
+}
+
+export type RoutineEvent = 'wake' | 'breakfast' | 'lunch' | 'dinner' | 'bed';
+
+// The user's usual day; meal- and sleep-anchored medications are scheduled from it
+export interface DailyRoutine {
+  wake: string; // HH:MM
+  breakfast: string;
+  lunch: string;
+  dinner: string;
+  bed: string;
+  meal_offset_minutes: number; // How long before/after a meal "before/after meals" means
+}
+
+// A dose tied to a routine event, e.g. 30 minutes before breakfast
+interface RoutineAnchor {
+  event: RoutineEvent;
+  timing: 'before' | 'with' | 'after';
+}
+
+interface FrequencyDefinition {
+  kind: DoseScheduleKind;
+  intervalHours: number;
+  count: number; // Doses on a dosing day
+  anchors?: RoutineAnchor[]; // Routine-based times that ignore the start time
+}
+
+export const DEFAULT_START_TIME = '08:00';
+
+// Matches the fixed meal and bedtime slots used before routines were configurable
+export const DEFAULT_ROUTINE: DailyRoutine = {
+  wake: '07:00',
+  breakfast: '08:00',
+  lunch: '12:30',
+  dinner: '18:30',
+  bed: '22:00',
+  meal_offset_minutes: 30,
+};
+
+const MEALS: RoutineEvent[] = ['breakfast', 'lunch', 'dinner'];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const FREQUENCY_DEFINITIONS: { [frequency: string]: FrequencyDefinition } = {
+  'Every 4 hours': { kind: 'interval', intervalHours: 4, count: 6 },
+  'Every 6 hours': { kind: 'interval', intervalHours: 6, count: 4 },
+  'Every 8 hours': { kind: 'interval', intervalHours: 8, count: 3 },
+  'Every 12 hours': { kind: 'interval', intervalHours: 12, count: 2 },
+  // Legacy options kept for existing medications
+  'Once daily': { kind: 'interval', intervalHours: 24, count: 1 },
+  'Twice daily': { kind: 'interval', intervalHours: 12, count: 2 },
+  'Three times daily': { kind: 'interval', intervalHours: 8, count: 3 },
+  'Four times daily': { kind: 'interval', intervalHours: 6, count: 4 },
+  'On waking': { kind: 'anchored', intervalHours: 24, count: 1, anchors: [{ event: 'wake', timing: 'with' }] },
+  'Before breakfast': { kind: 'anchored', intervalHours: 24, count: 1, anchors: [{ event: 'breakfast', timing: 'before' }] },
+  'Before meals': { kind: 'anchored', intervalHours: 0, count: 3, anchors: MEALS.map(event => ({ event, timing: 'before' as const })) },
+  'After meals': { kind: 'anchored', intervalHours: 0, count: 3, anchors: MEALS.map(event => ({ event, timing: 'after' as const })) },
+  'Bedtime': { kind: 'anchored', intervalHours: 24, count: 1, anchors: [{ event: 'bed', timing: 'with' }] },
+  'As needed': { kind: 'as_needed', intervalHours: 0, count: 0 },
+  'Weekly': { kind: 'weekly', intervalHours: 168, count: 1 },
+  'Custom': { kind: 'interval', intervalHours: 24, count: 1 },
+};
+
+// Unknown strings are treated as once daily at the start time
+const FALLBACK_DEFINITION: FrequencyDefinition = { kind: 'interval', intervalHours: 24, count: 1 };
+
+// What a medication's stock is counted in
+export type PackageUnit = 'tablets' | 'capsules' | 'ml' | 'puffs' | 'drops';
+
+export const PACKAGE_UNITS: PackageUnit[] = ['tablets', 'capsules', 'ml', 'puffs', 'drops'];
+
+// Set from the user's profile once it loads
+let currentRoutine: DailyRoutine = DEFAULT_ROUTINE;
+
+const toMinutes = (time: string): number => {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+};
+
+export const doseScheduleService = {
+  SUPPORTED_FREQUENCIES: Object.keys(FREQUENCY_DEFINITIONS),
+
+  // Build the full dose schedule for a frequency string
+  getSchedule(frequency: string, startTime?: string): DoseSchedule {
+    const definition = FREQUENCY_DEFINITIONS[frequency] || FALLBACK_DEFINITION;
+    const start = this.normalizeTime(startTime || DEFAULT_START_TIME);
+
+    let times: string[];
+    if (definition.anchors) {
+      times = definition.anchors.map(anchor => this.getAnchorTime(anchor.event, anchor.timing));
+    } else if (definition.count === 0) {
+      times = [];
+    } else {
+      times = this.calculateTimesFromStart(start, definition.intervalHours, definition.count);
+    }
+
+    const dosesPerDay = definition.kind === 'weekly'
+      ? definition.count / 7
+      : definition.count;
+
+    return {
+      frequency,
+      kind: definition.kind,
+      times,
+      intervalHours: definition.intervalHours,
+      dosesPerDay,
+    };
+  },
+
+  getRoutine(): DailyRoutine {
+    return currentRoutine;
+  },
+
+  // Missing or malformed fields keep their defaults
+  setRoutine(routine?: Partial<DailyRoutine> | null): void {
+    const merged = { ...DEFAULT_ROUTINE };
+    (Object.keys(DEFAULT_ROUTINE) as (keyof DailyRoutine)[]).forEach(key => {
+      const value = routine?.[key];
+      if (key === 'meal_offset_minutes') {
+        if (typeof value === 'number' && value >= 0) merged.meal_offset_minutes = value;
+      } else if (typeof value === 'string' && /^\d{1,2}:\d{2}/.test(value)) {
+        merged[key] = this.normalizeTime(value);
+      }
+    });
+    currentRoutine = merged;
+  },
+
+  // HH:MM of a routine event, moved by the meal offset for before/after doses
+  getAnchorTime(event: RoutineEvent, timing: RoutineAnchor['timing'] = 'with', routine: DailyRoutine = currentRoutine): string {
+    const [hour, minute] = routine[event].split(':').map(Number);
+    const offset = timing === 'before' ? -routine.meal_offset_minutes : timing === 'after' ? routine.meal_offset_minutes : 0;
+    const totalMinutes = ((hour * 60 + minute + offset) % 1440 + 1440) % 1440;
+    return `${String(Math.floor(totalMinutes / 60)).padStart(2, '0')}:${String(totalMinutes % 60).padStart(2, '0')}`;
+  },
+
+  // Whether any of the medication's frequencies (including taper steps) follow the routine
+  isRoutineAnchored(medication: ScheduledMedication): boolean {
+    const frequencies = [medication.frequency, ...(medication.dose_phases || []).map(phase => phase.frequency)];
+    return frequencies.some(frequency => this.getSchedule(frequency).kind === 'anchored');
+  },
+
+  // Calculate dose times from a start time, wrapping past midnight
+  calculateTimesFromStart(startTime: string, intervalHours: number, count: number): string[] {
+    const times: string[] = [];
+    const [startHour, startMinute] = startTime.split(':').map(Number);
+
+    for (let i = 0; i < count; i++) {
+      const totalMinutes = (startHour * 60 + startMinute) + (i * intervalHours * 60);
+      const hour = Math.floor(totalMinutes / 60) % 24;
+      const minute = totalMinutes % 60;
+      times.push(`${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`);
+    }
+
+    return times;
+  },
+
+  // Recover the dose start time from the stored reminder time, which is shifted by the advance warning
+  getStartTimeForMedication(medication: ScheduledMedication): string {
+    const [hour, minute] = medication.reminder_time.split(':').map(Number);
+    const totalMinutes = hour * 60 + minute + (medication.advance_reminder_minutes || 0);
+    const normalized = ((totalMinutes % 1440) + 1440) % 1440;
+    return `${String(Math.floor(normalized / 60)).padStart(2, '0')}:${String(normalized % 60).padStart(2, '0')}`;
+  },
+
+  // Index of the dose phase in effect on a date; -1 once every bounded phase has ended.
+  // Dates before the start date use the first phase.
+  getPhaseIndexForDate(medication: ScheduledMedication, dateString: string): number | null {
+    const phases = medication.dose_phases;
+    if (!phases || phases.length === 0) return null;
+    if (!medication.start_date) return 0;
+
+    let remaining = dateTimeService.getDaysBetween(medication.start_date.split('T')[0], dateString);
+    if (remaining < 0) return 0;
+
+    for (let i = 0; i < phases.length; i++) {
+      const duration = phases[i].duration_days;
+      if (duration === null || remaining < duration) return i;
+      remaining -= duration;
+    }
+    return -1;
+  },
+
+  // Dose, unit and frequency on a date: the active phase's values, or the medication's own
+  getRegimenForDate(medication: ScheduledMedication, dateString: string): DoseRegimen {
+    const phases = medication.dose_phases || [];
+    const phaseIndex = this.getPhaseIndexForDate(medication, dateString);
+    // A finished taper keeps reporting its last step
+    const phase = phaseIndex === null ? null : phases[phaseIndex === -1 ? phases.length - 1 : phaseIndex];
+
+    return {
+      dosage: phase ? phase.dosage : medication.dosage || '',
+      dosage_unit: (phase && phase.dosage_unit) || medication.dosage_unit || '',
+      frequency: phase ? phase.frequency : medication.frequency,
+      phaseIndex: phaseIndex === -1 ? phases.length - 1 : phaseIndex,
+      totalPhases: phases.length,
+    };
+  },
+
+  // True once the last bounded phase of a taper has run out
+  isPhaseCourseComplete(medication: ScheduledMedication, dateString: string): boolean {
+    return this.getPhaseIndexForDate(medication, dateString) === -1;
+  },
+
+  // Last dosing day of a course: the end date, or the final day of a taper whose phases all end
+  getCourseEndDate(medication: ScheduledMedication): string | null {
+    const endDate = medication.end_date ? medication.end_date.split('T')[0] : null;
+    const phases = medication.dose_phases || [];
+    if (!medication.start_date || phases.length === 0 || phases.some(phase => phase.duration_days === null)) {
+      return endDate;
+    }
+
+    const totalDays = phases.reduce((sum, phase) => sum + (phase.duration_days || 0), 0);
+    const taperEnd = dateTimeService.addDays(medication.start_date.split('T')[0], totalDays - 1);
+    return endDate && endDate < taperEnd ? endDate : taperEnd;
+  },
+
+  // True on any day after the course's last dosing day
+  isCourseComplete(medication: ScheduledMedication, dateString: string): boolean {
+    const endDate = this.getCourseEndDate(medication);
+    return !!endDate && dateString > endDate;
+  },
+
+  // Unit the stock is counted in: the declared one, else the dosage unit when it is one (5 ml, 2 puffs), else tablets
+  getPackageUnit(medication: { dosage_unit?: string; package_unit?: PackageUnit | null }): PackageUnit {
+    if (medication.package_unit) return medication.package_unit;
+    const unit = PACKAGE_UNITS.find(packageUnit => packageUnit === medication.dosage_unit);
+    return unit || 'tablets';
+  },
+
+  // Package units one dose on a date uses up. A declared units_per_dose is for the medication's own dosage
+  // and scales with taper steps (2 tablets at 40 mg = 1 tablet at 20 mg). Otherwise a dose measured in the
+  // package unit uses that amount (2 tablets, 5 ml) and any other dose (500 mg) one unit.
+  getUnitsPerDose(medication: ScheduledMedication, dateString: string): number {
+    const regimen = this.getRegimenForDate(medication, dateString);
+    const amount = parseFloat(regimen.dosage);
+
+    const declared = medication.units_per_dose;
+    if (declared && declared > 0) {
+      const baseAmount = parseFloat(medication.dosage || '');
+      const sameUnit = regimen.dosage_unit === (medication.dosage_unit || regimen.dosage_unit);
+      return amount > 0 && baseAmount > 0 && sameUnit ? declared * amount / baseAmount : declared;
+    }
+
+    if (amount > 0 && regimen.dosage_unit === this.getPackageUnit(medication)) return amount;
+    return 1;
+  },
+
+  // Package units used per day on average around a date; 0 for as-needed medications
+  getDailyConsumption(medication: ScheduledMedication, dateString: string): number {
+    return this.getAverageDosesPerDay(medication, dateString) * this.getUnitsPerDose(medication, dateString);
+  },
+
+  getScheduleForMedication(medication: ScheduledMedication, dateString?: string): DoseSchedule {
+    const frequency = dateString
+      ? this.getRegimenForDate(medication, dateString).frequency
+      : medication.frequency;
+    const schedule = this.getSchedule(frequency, this.getStartTimeForMedication(medication));
+
+    // Rolling doses can't be placed in advance; plan the waking day from wake time
+    if (this.isRolling(medication, frequency)) {
+      const times = this.getRollingDayTimes(schedule.intervalHours, schedule.times.length);
+      return { ...schedule, times, dosesPerDay: times.length };
+    }
+    return schedule;
+  },
+
+  // Whether doses are timed from the last one taken (interval frequencies under a day only)
+  isRolling(medication: ScheduledMedication, frequency: string = medication.frequency): boolean {
+    if (medication.schedule_mode !== 'rolling') return false;
+    const schedule = this.getSchedule(frequency);
+    return schedule.kind === 'interval' && schedule.intervalHours < 24;
+  },
+
+  // Interval doses from wake time that fall before bedtime
+  getRollingDayTimes(intervalHours: number, maxCount: number): string[] {
+    const routine = currentRoutine;
+    const awakeMinutes = ((toMinutes(routine.bed) - toMinutes(routine.wake)) % 1440 + 1440) % 1440 || 1440;
+    const count = Math.max(1, Math.min(maxCount, Math.floor((awakeMinutes - 1) / (intervalHours * 60)) + 1));
+    return this.calculateTimesFromStart(routine.wake, intervalHours, count);
+  },
+
+  // Whether an instant falls between bedtime and wake time in the user's time zone
+  isInSleepWindow(date: Date): boolean {
+    const bed = toMinutes(currentRoutine.bed);
+    const wake = toMinutes(currentRoutine.wake);
+    const minutes = dateTimeService.getMinutesOfDay(date);
+
+    return bed > wake ? minutes >= bed || minutes < wake : minutes >= bed && minutes < wake;
+  },
+
+  // Next rolling dose: one interval after the dose just taken, held until wake time if it
+  // would fall overnight. The index restarts at 0 when it moves to another day.
+  getNextRollingDose(medication: ScheduledMedication, taken: DoseRef, takenAt: Date = new Date()): { at: Date; doseIndex: number } {
+    const takenDate = dateTimeService.getDateString(takenAt);
+    const { intervalHours } = this.getSchedule(this.getRegimenForDate(medication, takenDate).frequency);
+    let at = new Date(takenAt.getTime() + intervalHours * 60 * 60 * 1000);
+
+    if (this.isInSleepWindow(at)) {
+      const [wakeHour, wakeMinute] = currentRoutine.wake.split(':').map(Number);
+      let wakeDate = dateTimeService.getDateString(at);
+      if (dateTimeService.getMinutesOfDay(at) >= wakeHour * 60 + wakeMinute) {
+        wakeDate = dateTimeService.addDays(wakeDate, 1);
+      }
+      at = dateTimeService.getInstant(wakeDate, wakeHour, wakeMinute);
+    }
+
+    return {
+      at,
+      doseIndex: dateTimeService.getDateString(at) === takenDate ? taken.doseIndex + 1 : 0,
+    };
+  },
+
+  getCycle(medication: ScheduledMedication): MedicationCycle | null {
+    const onDays = medication.cycle_on_days || 0;
+    const offDays = medication.cycle_off_days || 0;
+    if (onDays <= 0 || offDays <= 0) return null;
+
+    return {
+      onDays,
+      offDays,
+      startDate: medication.start_date ? medication.start_date.split('T')[0] : dateTimeService.getDateString(),
+    };
+  },
+
+  // Whether a date falls in the "on" part of a cycle; days before the start count as on
+  isCycleOnDay(cycle: MedicationCycle | null, dateString: string): boolean {
+    if (!cycle) return true;
+
+    const elapsed = dateTimeService.getDaysBetween(cycle.startDate, dateString);
+    if (elapsed < 0) return true;
+
+    return elapsed % (cycle.onDays + cycle.offDays) < cycle.onDays;
+  },
+
+  // Short label for a cycle, e.g. "Every other day" or "21 on / 7 off"
+  describeCycle(medication: ScheduledMedication): string | null {
+    const cycle = this.getCycle(medication);
+    if (!cycle) return null;
+    if (cycle.onDays === 1 && cycle.offDays === 1) return 'Every other day';
+    return `${cycle.onDays} on / ${cycle.offDays} off`;
+  },
+
+  // Weekdays a medication is taken on (1 = Sunday ... 7 = Saturday), or null for every day.
+  // Weekly medications without a selection fall on the weekday of their start date.
+  getWeekdays(medication: ScheduledMedication, frequency: string = medication.frequency): number[] | null {
+    const selected = (medication.weekdays || []).filter(day => day >= 1 && day <= 7);
+    if (selected.length > 0) return [...new Set(selected)].sort((a, b) => a - b);
+
+    if (this.getSchedule(frequency).kind !== 'weekly') return null;
+    const startDate = medication.start_date ? medication.start_date.split('T')[0] : dateTimeService.getDateString();
+    return [this.getWeekday(startDate)];
+  },
+
+  // Short label for selected weekdays, e.g. "Mon, Wed, Fri"
+  describeWeekdays(medication: ScheduledMedication): string | null {
+    if (!medication.weekdays?.length) return null;
+    const weekdays = this.getWeekdays(medication);
+    return weekdays ? weekdays.map(day => WEEKDAY_LABELS[day - 1]).join(', ') : null;
+  },
+
+  // Share of days that are dosing days (1 without a cycle)
+  getCycleFraction(medication: ScheduledMedication): number {
+    const cycle = this.getCycle(medication);
+    return cycle ? cycle.onDays / (cycle.onDays + cycle.offDays) : 1;
+  },
+
+  // Average scheduled doses per day around a date, accounting for taper steps and cycles
+  getAverageDosesPerDay(medication: ScheduledMedication, dateString: string): number {
+    if (this.isCourseComplete(medication, dateString)) return 0;
+
+    const regimen = this.getRegimenForDate(medication, dateString);
+    const weekdays = this.getWeekdays(medication, regimen.frequency);
+    const schedule = this.getScheduleForMedication(medication, dateString);
+    const dosesPerDay = weekdays
+      ? schedule.times.length * weekdays.length / 7
+      : schedule.dosesPerDay;
+
+    return dosesPerDay * this.getCycleFraction(medication);
+  },
+
+  // Cycle dosing days from a date onwards, up to an optional end date, used to schedule one-off reminders
+  getUpcomingCycleDates(cycle: MedicationCycle | null, fromDate: string, days: number, endDate?: string | null): string[] {
+    const dates: string[] = [];
+    for (let i = 0; i < days; i++) {
+      const date = dateTimeService.addDays(fromDate, i);
+      if (endDate && date > endDate) break;
+      if (this.isCycleOnDay(cycle, date)) dates.push(date);
+    }
+    return dates;
+  },
+
+  // Dose slots due on a YYYY-MM-DD date. As-needed medications get a single untimed slot.
+  // Off days of a cycle, unselected weekdays and finished courses have no doses.
+  getDosesForDate(medication: ScheduledMedication, dateString: string): DoseRef[] {
+    if (this.isCourseComplete(medication, dateString)) return [];
+    if (!this.isCycleOnDay(this.getCycle(medication), dateString)) return [];
+
+    const schedule = this.getScheduleForMedication(medication, dateString);
+
+    if (schedule.kind === 'as_needed') {
+      return [{ doseIndex: 0, scheduledTime: null }];
+    }
+
+    const weekdays = this.getWeekdays(medication, schedule.frequency);
+    if (weekdays && !weekdays.includes(this.getWeekday(dateString))) {
+      return [];
+    }
+
+    // The next rolling dose shows when it's actually due; later ones follow at the interval
+    const nextDoseAt = medication.next_dose_at ? new Date(medication.next_dose_at) : null;
+    const nextIndex = medication.next_dose_index ?? 0;
+    if (this.isRolling(medication, schedule.frequency) && nextDoseAt && dateTimeService.getDateString(nextDoseAt) === dateString) {
+      const nextTime = dateTimeService.getTimeString(nextDoseAt);
+      const projected = this.calculateTimesFromStart(nextTime, schedule.intervalHours, Math.max(1, schedule.times.length - nextIndex))
+        .filter(time => time >= nextTime); // Drop doses that would wrap past midnight
+      const times = [...schedule.times.slice(0, nextIndex), ...projected];
+      return times.map((time, index) => ({ doseIndex: index, scheduledTime: time }));
+    }
+
+    return schedule.times.map((time, index) => ({ doseIndex: index, scheduledTime: time }));
+  },
+
+  // Weekday of a YYYY-MM-DD date using the notification convention (1 = Sunday)
+  getWeekday(dateString: string): number {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 1;
+  },
+
+  // Expected doses per day, used for adherence and streak targets
+  getExpectedDosesPerDay(frequency: string): number {
+    return this.getSchedule(frequency).dosesPerDay;
+  },
+
+  // Units consumed per day, used for refill and runout math
+  getDailyUsage(frequency: string, unitsPerDose: number = 1): number {
+    return this.getExpectedDosesPerDay(frequency) * unitsPerDose;
+  },
+
+  // As-needed (PRN) medications have no schedule; their doses are logged when taken
+  isAsNeeded(medication: { frequency: string }): boolean {
+    return this.getSchedule(medication.frequency).kind === 'as_needed';
+  },
+
+  isKnownFrequency(frequency: string): boolean {
+    return frequency in FREQUENCY_DEFINITIONS;
+  },
+
+  // Accept both HH:MM and HH:MM:SS (database reminder_time) formats
+  normalizeTime(time: string): string {
+    const [hour, minute] = time.split(':').map(Number);
+    return `${String(hour || 0).padStart(2, '0')}:${String(minute || 0).padStart(2, '0')}`;
+  },
+};
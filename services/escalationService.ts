@@ -0,0 +1,239 @@
+// services/escalationService.ts - Follow-up reminders for ignored doses, then missed-dose caregiver alerts
+// Follow-ups are one-off notifications for the next day of doses, topped up whenever reminders are
+// reconciled and cancelled as soon as the dose is logged or snoozed.
+import * as Notifications from 'expo-notifications';
+import { supabase, EscalationPolicy } from './supabaseClient';
+import { doseScheduleService, DoseRef, ScheduledMedication } from './doseScheduleService';
+import { dateTimeService } from './dateTimeService';
+import { notificationService, MedicationPriority } from './notificationService';
+import { caregiverService } from './caregiverService';
+
+// Without a policy, doses are marked missed an hour after they were due
+export const DEFAULT_MISSED_AFTER_MINUTES = 60;
+// Keep follow-ups for this far ahead (stays well under iOS's 64 pending limit)
+const ESCALATION_LOOKAHEAD_HOURS = 24;
+
+export type EscalationPreset = 'off' | 'relaxed' | 'standard' | 'urgent';
+
+export const ESCALATION_PRESETS: { value: EscalationPreset; label: string; renotify: number[]; missedAfter: number }[] = [
+  { value: 'off', label: 'Off', renotify: [], missedAfter: DEFAULT_MISSED_AFTER_MINUTES },
+  { value: 'relaxed', label: '+15, +30 min', renotify: [15, 30], missedAfter: 45 },
+  { value: 'standard', label: '+10, +20 min', renotify: [10, 20], missedAfter: 30 },
+  { value: 'urgent', label: '+5, +10, +15 min', renotify: [5, 10, 15], missedAfter: 20 },
+];
+
+type EscalatingMedication = ScheduledMedication & {
+  id: string;
+  medication_name: string;
+  dosage: string;
+  dosage_unit: string;
+  escalation?: EscalationPolicy | null;
+  priority?: MedicationPriority | null;
+};
+
+export const escalationService = {
+  // Policy for a preset; null when escalation is off
+  buildPolicy(preset: EscalationPreset, alertCaregivers: boolean): EscalationPolicy | null {
+    const option = ESCALATION_PRESETS.find(item => item.value === preset);
+    if (!option || option.renotify.length === 0) return null;
+    return {
+      renotify_minutes: option.renotify,
+      missed_after_minutes: option.missedAfter,
+      alert_caregivers: alertCaregivers,
+    };
+  },
+
+  // Valid follow-up delays only, in order and before the dose is marked missed
+  getPolicy(medication: { escalation?: EscalationPolicy | null }): EscalationPolicy | null {
+    const policy = medication.escalation;
+    if (!policy) return null;
+
+    const missedAfter = policy.missed_after_minutes > 0 ? policy.missed_after_minutes : DEFAULT_MISSED_AFTER_MINUTES;
+    return {
+      renotify_minutes: [...new Set(policy.renotify_minutes || [])]
+        .filter(minutes => minutes > 0 && minutes < missedAfter)
+        .sort((a, b) => a - b),
+      missed_after_minutes: missedAfter,
+      alert_caregivers: !!policy.alert_caregivers,
+    };
+  },
+
+  // Low-priority doses held through quiet hours get that wait on top
+  getMissedAfterMinutes(
+    medication: { escalation?: EscalationPolicy | null; priority?: MedicationPriority | null },
+    scheduledTime?: string | null
+  ): number {
+    const missedAfter = this.getPolicy(medication)?.missed_after_minutes ?? DEFAULT_MISSED_AFTER_MINUTES;
+    if (!scheduledTime) return missedAfter;
+
+    const [hour, minute] = scheduledTime.split(':').map(Number);
+    return missedAfter + notificationService.getQuietHoursDelay(hour * 60 + minute, medication.priority);
+  },
+
+  // e.g. "Re-reminds at +10, +20 min • Missed after 30 min • Caregivers alerted"
+  describePolicy(medication: { escalation?: EscalationPolicy | null }): string | null {
+    const policy = this.getPolicy(medication);
+    if (!policy) return null;
+    return [
+      policy.renotify_minutes.length > 0 ? `Re-reminds at ${policy.renotify_minutes.map(minutes => `+${minutes}`).join(', ')} min` : null,
+      `Missed after ${policy.missed_after_minutes} min`,
+      policy.alert_caregivers ? 'Caregivers alerted' : null,
+    ].filter(Boolean).join(' • ');
+  },
+
+  // Wording gets firmer with each step
+  buildFollowUp(
+    medication: EscalatingMedication,
+    dose: DoseRef,
+    doseDate: string,
+    step: number,
+    totalSteps: number,
+    at: Date
+  ): Notifications.NotificationRequestInput {
+    const regimen = doseScheduleService.getRegimenForDate(medication, doseDate);
+    const finalStep = step === totalSteps - 1;
+    const { soundEnabled, vibrationEnabled } = notificationService.getSettings();
+
+    return {
+      content: {
+        title: finalStep ? '🚨 Dose still not taken' : '⏰ Did you take your medication?',
+        body: finalStep
+          ? `${medication.medication_name} - ${regimen.dosage}${regimen.dosage_unit} was due at ${dose.scheduledTime}. Take it now or log it, or it will be marked missed.`
+          : `${medication.medication_name} - ${regimen.dosage}${regimen.dosage_unit} was due at ${dose.scheduledTime} and hasn't been logged yet.`,
+        data: {
+          medicationId: medication.id,
+          medicationName: medication.medication_name,
+          dosage: regimen.dosage,
+          dosageUnit: regimen.dosage_unit,
+          type: 'escalation',
+          scheduledTime: dose.scheduledTime,
+          reminderIndex: dose.doseIndex,
+          doseDate,
+          escalationStep: step + 1,
+        },
+        sound: soundEnabled ? 'default' : undefined,
+        badge: 1,
+        ...notificationService.getPriorityContent(medication.priority),
+        categoryIdentifier: 'MEDICATION_REMINDER',
+        vibrate: vibrationEnabled ? [0, 500, 250, 500] : undefined,
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        channelId: notificationService.getChannelId(medication.priority),
+        date: at,
+      },
+    };
+  },
+
+  // Replace every queued follow-up with ones for doses due in the next day that are neither logged nor snoozed
+  async syncEscalations(userId: string, medications: EscalatingMedication[]): Promise<number> {
+    try {
+      const queue = await notificationService.getScheduledNotifications();
+      for (const notification of queue.filter(item => item.content.data?.type === 'escalation')) {
+        await notificationService.cancelNotification(notification.identifier);
+      }
+
+      const escalating = medications.filter(med => this.getPolicy(med)?.renotify_minutes.length);
+      if (escalating.length === 0) return 0;
+
+      const today = dateTimeService.getDateString();
+      const tomorrow = dateTimeService.addDays(today, 1);
+      const { data: logs, error } = await supabase
+        .from('medication_logs')
+        .select('medication_id, log_date, dose_index')
+        .eq('user_id', userId)
+        .in('log_date', [today, tomorrow]);
+
+      if (error) throw error;
+
+      // Snoozed doses are re-reminded by their snooze instead
+      const { data: snoozes, error: snoozesError } = await supabase
+        .from('medication_snoozes')
+        .select('medication_id, log_date, dose_index')
+        .eq('user_id', userId)
+        .in('log_date', [today, tomorrow]);
+
+      if (snoozesError) throw snoozesError;
+
+      const handled = new Set([...(logs || []), ...(snoozes || [])].map(item => `${item.medication_id}:${item.log_date}:${item.dose_index ?? 0}`));
+      const now = Date.now();
+      const until = now + ESCALATION_LOOKAHEAD_HOURS * 60 * 60 * 1000;
+      const requests: Notifications.NotificationRequestInput[] = [];
+
+      for (const med of escalating) {
+        const steps = this.getPolicy(med)!.renotify_minutes;
+
+        for (const date of [today, tomorrow]) {
+          for (const dose of doseScheduleService.getDosesForDate(med, date)) {
+            if (dose.scheduledTime === null || handled.has(`${med.id}:${date}:${dose.doseIndex}`)) continue;
+
+            const [hour, minute] = dose.scheduledTime.split(':').map(Number);
+            const dueAt = dateTimeService.getInstant(date, hour, minute).getTime();
+
+            steps.forEach((minutes, step) => {
+              const at = dueAt + minutes * 60000;
+              // Low-priority doses aren't chased through quiet hours
+              const quiet = notificationService.getQuietHoursDelay(dateTimeService.getMinutesOfDay(new Date(at)), med.priority) > 0;
+              if (at > now && at <= until && !quiet) {
+                requests.push(this.buildFollowUp(med, dose, date, step, steps.length, new Date(at)));
+              }
+            });
+          }
+        }
+      }
+
+      await notificationService.scheduleRequests(requests);
+      console.log(`📢 ${requests.length} follow-up reminder(s) queued`);
+      return requests.length;
+    } catch (error) {
+      console.error('❌ Error syncing follow-up reminders:', error);
+      return 0;
+    }
+  },
+
+  // A dose logged by any route (app, notification action, auto-miss) stops its follow-ups
+  async cancelForDose(medicationId: string, logDate: string, doseIndex: number): Promise<void> {
+    try {
+      const queue = await notificationService.getScheduledNotifications();
+      const followUps = queue.filter(notification => {
+        const data = notification.content.data || {};
+        return data.type === 'escalation' &&
+          data.medicationId === medicationId &&
+          data.doseDate === logDate &&
+          data.reminderIndex === doseIndex;
+      });
+
+      for (const notification of followUps) {
+        await Notifications.cancelScheduledNotificationAsync(notification.identifier);
+      }
+      if (followUps.length > 0) {
+        console.log(`🔕 Cancelled ${followUps.length} follow-up(s) for logged dose`);
+      }
+    } catch (error) {
+      console.error('❌ Error cancelling follow-up reminders:', error);
+    }
+  },
+
+  // Last step of the chain, after the dose has been marked missed
+  async onDoseMarkedMissed(
+    userId: string,
+    medication: { id: string; medication_name: string; escalation?: EscalationPolicy | null },
+    dose: DoseRef,
+    doseDate: string = dateTimeService.getDateString()
+  ): Promise<void> {
+    if (!this.getPolicy(medication)?.alert_caregivers) return;
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('display_name')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    const patientName = profile?.display_name || 'Your patient';
+    await caregiverService.alertCaregivers(
+      userId,
+      medication.id,
+      `${patientName} missed ${medication.medication_name}${dose.scheduledTime ? ` (due ${dose.scheduledTime})` : ''} on ${doseDate}.`
+    );
+  },
+};
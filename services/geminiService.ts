@@ -1,5 +1,6 @@
 // services/geminiService.ts
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { prnService } from './prnService';
 
 const GEMINI_API_KEY = process.env.EXPO_PUBLIC_GEMINI_API_KEY || '';
 
@@ -82,6 +83,10 @@ Important guidelines:
       medicationContext.forEach((med: any) => {
         context += `- ${med.medication_name}: ${med.dosage}${med.dosage_unit}, ${med.frequency}\n`;
         if (med.notes) context += `  Notes: ${med.notes}\n`;
+        if (med.prn_usage) {
+          const limits = prnService.describeLimits(med);
+          context += `  As-needed use: ${prnService.describeUsage(med.prn_usage)}${limits ? ` (limits: ${limits})` : ''}\n`;
+        }
       });
       context += '\n';
     }
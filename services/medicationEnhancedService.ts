@@ -1,6 +1,14 @@
 // services/medicationEnhancedService.ts
 import { supabase } from './supabaseClient';
+import { StockLot } from '../constants/Types';
 import { Alert } from 'react-native';
+import { doseScheduleService, ScheduledMedication } from './doseScheduleService';
+import { dateTimeService } from './dateTimeService';
+import { stockLotService } from './stockLotService';
+import { refillService } from './refillService';
+
+// Columns the consumption math reads: schedule, taper steps, cycle and units per dose
+const STOCK_COLUMNS = 'frequency, dosage, dosage_unit, reminder_time, start_date, end_date, dose_phases, cycle_on_days, cycle_off_days, weekdays, schedule_mode, package_unit, units_per_dose';
 
 // =====================================
 // 2. MISSED DOSE AUTO ADJUSTMENT
@@ -38,9 +46,9 @@ export const missedDoseService = {
           break;
         default:
           // For other frequencies, suggest taking as soon as possible
-          const now = new Date();
-          newHour = now.getHours();
-          newMinute = now.getMinutes() + 30; // 30 minutes from now
+          const nowMinutes = dateTimeService.getMinutesOfDay();
+          newHour = Math.floor(nowMinutes / 60);
+          newMinute = (nowMinutes % 60) + 30; // 30 minutes from now
           if (newMinute >= 60) {
             newHour = (newHour + 1) % 24;
             newMinute = newMinute % 60;
@@ -75,9 +83,9 @@ export const missedDoseService = {
 
   // Suggest makeup dose time
   suggestMakeupDose(originalTime: string, frequency: string): string {
-    const now = new Date();
-    const currentHour = now.getHours();
-    const currentMinute = now.getMinutes();
+    const nowMinutes = dateTimeService.getMinutesOfDay();
+    const currentHour = Math.floor(nowMinutes / 60);
+    const currentMinute = nowMinutes % 60;
 
     // Suggest taking it ASAP if within safe window
     const makeupHour = currentHour;
@@ -96,117 +104,88 @@ export const inventoryService = {
     try {
       const { data: medication } = await supabase
         .from('medications')
-        .select('current_quantity, frequency')
+        .select(`current_quantity, ${STOCK_COLUMNS}`)
         .eq('id', medicationId)
         .single();
 
       if (!medication) return 0;
 
-      const currentQty = medication.current_quantity;
-      let dailyUsage = 1; // Default
-
-      // Calculate daily usage based on frequency
-      switch (medication.frequency) {
-        case 'Once daily': dailyUsage = 1; break;
-        case 'Twice daily': dailyUsage = 2; break;
-        case 'Three times daily': dailyUsage = 3; break;
-        case 'Four times daily': dailyUsage = 4; break;
-        case 'Every 4 hours': dailyUsage = 6; break;
-        case 'Every 6 hours': dailyUsage = 4; break;
-        case 'Every 8 hours': dailyUsage = 3; break;
-        case 'Every 12 hours': dailyUsage = 2; break;
-        default: dailyUsage = 1;
-      }
-
-      return Math.floor(currentQty / dailyUsage);
+      return this.getDaysOfStock(medication);
     } catch (error) {
       console.error('Error calculating days until empty:', error);
       return 0;
     }
   },
 
-  // Check and send refill alerts
-  async checkRefillAlerts(userId: string): Promise<void> {
-    try {
-      const { data: medications } = await supabase
-        .from('medications')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('is_active', true)
-        .gt('low_stock_threshold', 0);
+  // Whole days the current stock lasts at the actual consumption around a date (taper step, cycle
+  // off days, units per dose). As-needed medications have no predictable usage, so the stock is returned as-is.
+  getDaysOfStock(medication: ScheduledMedication & { current_quantity?: number | null }, dateString: string = dateTimeService.getDateString()): number {
+    const currentQty = medication.current_quantity || 0;
+    const dailyUsage = doseScheduleService.getDailyConsumption(medication, dateString);
 
-      if (!medications) return;
+    if (dailyUsage <= 0) return currentQty;
 
-      const lowStockMeds = medications.filter(med => 
-        med.current_quantity <= med.low_stock_threshold && med.current_quantity > 0
-      );
-
-      for (const med of lowStockMeds) {
-        const daysLeft = await this.getDaysUntilEmpty(med.id);
-        
-        if (daysLeft <= 7) {
-          Alert.alert(
-            '🔔 Refill Alert',
-            `${med.medication_name} is running low!\n\nCurrent: ${med.current_quantity} ${med.dosage_unit}\nDays left: ~${daysLeft}\n\nTime to refill!`,
-            [
-              { text: 'Remind Later', style: 'cancel' },
-              { text: 'Order Refill', onPress: () => this.initiateRefill(med) }
-            ]
-          );
-        }
-      }
-    } catch (error) {
-      console.error('Error checking refill alerts:', error);
-    }
+    return Math.floor(currentQty / dailyUsage);
   },
 
-  // Initiate refill process
+  // Ask the pharmacy for a refill of one full pack; its progress shows in the Cabinet tab
   async initiateRefill(medication: any): Promise<void> {
-    // This would integrate with pharmacy APIs in production
-    Alert.alert(
-      'Refill Request',
-      `Refill for ${medication.medication_name} will be processed.\n\nIn production, this would:\n• Contact your pharmacy\n• Check insurance coverage\n• Place refill order`,
-      [{ text: 'OK' }]
-    );
+    // A refill asks for a full pack, so the pack size has to be known
+    if (!(medication.total_quantity > 0)) {
+      Alert.alert(
+        'Pack Size Needed',
+        `Set how many come in a full pack of ${medication.medication_name} before requesting a refill.`,
+        [{ text: 'OK' }]
+      );
+      return;
+    }
 
-    // Log refill request
-    await supabase
-      .from('refill_requests')
-      .insert({
-        medication_id: medication.id,
-        user_id: medication.user_id,
-        requested_at: new Date().toISOString(),
-        status: 'pending',
-        quantity_requested: medication.total_quantity
-      });
+    try {
+      const refill = await refillService.requestRefill(medication.user_id, medication, medication.total_quantity);
+      Alert.alert(
+        'Refill Requested',
+        refill.pharmacy_name
+          ? `Refill for ${medication.medication_name} sent to ${refill.pharmacy_name}.\n\nTrack it in the Cabinet tab.`
+          : `Refill for ${medication.medication_name} saved. It will be sent to your pharmacy when it can be reached.`,
+        [{ text: 'OK' }]
+      );
+    } catch (error) {
+      console.error('Error requesting refill:', error);
+      Alert.alert('Error', 'Failed to request refill');
+    }
   },
 
-  // Auto-decrement pill count on "take" action
-  async decrementPillCount(medicationId: string): Promise<void> {
+  // Auto-decrement stock on "take" action by what the dose on logDate actually uses (2 tablets, 5 ml)
+  async decrementPillCount(medicationId: string, logDate: string = dateTimeService.getDateString()): Promise<void> {
     try {
       const { data: medication } = await supabase
         .from('medications')
-        .select('current_quantity, medication_name, low_stock_threshold')
+        .select(`current_quantity, medication_name, low_stock_threshold, ${STOCK_COLUMNS}`)
         .eq('id', medicationId)
         .single();
 
       if (!medication || medication.current_quantity <= 0) return;
 
-      const newQuantity = medication.current_quantity - 1;
-
-      await supabase
-        .from('medications')
-        .update({ 
-          current_quantity: newQuantity,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', medicationId);
+      const units = doseScheduleService.getUnitsPerDose(medication, logDate);
+      // Medications stocked in lots use the first-expiring pack; the lots keep current_quantity in step
+      const lotQuantity = await stockLotService.consume(medicationId, units, logDate);
+      const newQuantity = lotQuantity ?? Math.max(0, medication.current_quantity - units);
+
+      if (lotQuantity === null) {
+        await supabase
+          .from('medications')
+          .update({ 
+            current_quantity: newQuantity,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', medicationId);
+      }
 
       // Check if low stock
       if (newQuantity <= medication.low_stock_threshold) {
         Alert.alert(
           '⚠️ Low Stock',
-          `${medication.medication_name} is running low: ${newQuantity} remaining`,
+          `${medication.medication_name} is running low: ${newQuantity} ${doseScheduleService.getPackageUnit(medication)} remaining`,
           [{ text: 'OK' }]
         );
       }
@@ -316,19 +295,55 @@ export const safetyService = {
 // =====================================
 // 5. PROPER DISPOSAL OF EXPIRED MEDS
 // =====================================
+
+// Expired stock to dispose of: one lot, or a whole medication tracked as a single bottle
+export interface ExpiredStock {
+  medication_id: string;
+  medication_name: string;
+  expiry_date: string;
+  quantity: number;
+  lot: StockLot | null;
+}
+
 export const disposalService = {
-  // Check for expired medications
-  async checkExpiredMedications(userId: string): Promise<any[]> {
+  // Check for expired stock: each expired lot, or the medication itself when it isn't stocked in lots
+  async checkExpiredMedications(userId: string): Promise<ExpiredStock[]> {
     try {
-      const today = new Date().toISOString().split('T')[0];
+      const today = dateTimeService.getDateString();
 
-      const { data: expired } = await supabase
-        .from('medications')
-        .select('*')
-        .eq('user_id', userId)
-        .lt('expiry_date', today);
+      const [{ data: medications, error }, lotsByMedication] = await Promise.all([
+        supabase
+          .from('medications')
+          .select('id, medication_name, expiry_date, current_quantity')
+          .eq('user_id', userId),
+        stockLotService.getLotsForUser(userId),
+      ]);
+
+      if (error) throw error;
 
-      return expired || [];
+      return (medications || []).flatMap((med): ExpiredStock[] => {
+        const lots = lotsByMedication[med.id];
+        if (lots?.length) {
+          return lots
+            .filter(lot => stockLotService.isLotExpired(lot, today))
+            .map(lot => ({
+              medication_id: med.id,
+              medication_name: med.medication_name,
+              expiry_date: lot.expiry_date!,
+              quantity: lot.quantity,
+              lot,
+            }));
+        }
+
+        if (!med.expiry_date || med.expiry_date.split('T')[0] >= today) return [];
+        return [{
+          medication_id: med.id,
+          medication_name: med.medication_name,
+          expiry_date: med.expiry_date,
+          quantity: med.current_quantity || 0,
+          lot: null,
+        }];
+      });
     } catch (error) {
       console.error('Error checking expired medications:', error);
       return [];
@@ -379,9 +394,10 @@ This medication requires special handling:
     const expired = await this.checkExpiredMedications(userId);
 
     if (expired.length > 0) {
-      const expiredList = expired.map(med => 
-        `• ${med.medication_name} (Expired: ${new Date(med.expiry_date).toLocaleDateString()})`
-      ).join('\n');
+      const expiredList = expired.map(item => {
+        const lotLabel = item.lot?.lot_number ? `, lot ${item.lot.lot_number}` : '';
+        return `• ${item.medication_name}${lotLabel} (Expired: ${new Date(item.expiry_date).toLocaleDateString()})`;
+      }).join('\n');
 
       Alert.alert(
         '🚨 Expired Medications Detected',
@@ -0,0 +1,319 @@
+// services/medicationRepository.ts - Typed data access for medications and their logs.
+// Screens read and write medications through here rather than querying Supabase themselves.
+import { supabase } from './supabaseClient';
+import { Medication, MedicationLog } from '../constants/Types';
+import { DoseRef, PackageUnit, doseScheduleService } from './doseScheduleService';
+import { dateTimeService } from './dateTimeService';
+import { doseLogService, DoseLogStatus, DoseLogResult } from './doseLogService';
+import { offlineService } from './offlineService';
+import { caregiverService } from './caregiverService';
+import { inventoryService } from './medicationEnhancedService';
+
+// Cabinet rows: stock counts are filled in, 0 when not tracked
+export type StockedMedication = Medication & {
+  total_quantity: number;
+  current_quantity: number;
+  low_stock_threshold: number;
+};
+
+// Rows from the check_expired_medications function
+export interface ExpiredMedication {
+  id: string;
+  medication_name: string;
+  expiry_date: string;
+  days_expired: number;
+}
+
+// Rows from the get_low_stock_medications function, with days_until_empty at the actual consumption
+export interface LowStockMedication {
+  id: string;
+  medication_name: string;
+  current_quantity: number;
+  low_stock_threshold: number;
+  days_until_empty: number;
+  package_unit: PackageUnit;
+}
+
+export interface DrugInteraction {
+  medication1: string;
+  medication2: string;
+  severity: string;
+  description: string;
+}
+
+// What a caregiver sees of one patient: their medications and the day's logs keyed by dose
+export interface PatientView {
+  medications: Medication[];
+  logs: { [doseKey: string]: MedicationLog };
+}
+
+// Rows without an id or name break the screens, so they're dropped with a warning
+const isValidMedication = (med: any): med is Medication => {
+  if (!med || typeof med !== 'object') {
+    console.warn('⚠️ Invalid medication object:', med);
+    return false;
+  }
+
+  if (!med.id) {
+    console.warn('⚠️ Medication missing ID:', med);
+    return false;
+  }
+
+  if (!med.medication_name) {
+    console.warn('⚠️ Medication missing name:', med);
+    return false;
+  }
+
+  return true;
+};
+
+export const medicationRepository = {
+  // Every medication the user has, newest first
+  async listMedications(userId: string): Promise<Medication[]> {
+    const { data, error } = await supabase
+      .from('medications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).filter(isValidMedication);
+  },
+
+  // Active medications by reminder time. Each fetch is saved on the device and used when offline.
+  async listActiveMedications(userId: string): Promise<Medication[]> {
+    const { data, error } = await supabase
+      .from('medications')
+      .select('*')
+      .eq('is_active', true)
+      .eq('user_id', userId)
+      .order('reminder_time', { ascending: true });
+
+    if (error) {
+      if (!offlineService.isNetworkError(error)) throw error;
+
+      console.log('📴 Offline, using saved medications');
+      return (await offlineService.getSavedMedications(userId)).filter(isValidMedication);
+    }
+
+    await offlineService.saveMedications(userId, data || []);
+    return (data || []).filter(isValidMedication);
+  },
+
+  // Medications with stock tracking, newest first
+  async listStockedMedications(userId: string): Promise<StockedMedication[]> {
+    const medications = await this.listMedications(userId);
+    return medications
+      .filter(med => (med.total_quantity || 0) > 0 || (med.current_quantity || 0) > 0)
+      .map(med => ({
+        ...med,
+        total_quantity: med.total_quantity || 0,
+        current_quantity: med.current_quantity || 0,
+        low_stock_threshold: med.low_stock_threshold || 0,
+      }));
+  },
+
+  async createMedication(medication: Partial<Medication>): Promise<Medication> {
+    const { data, error } = await supabase
+      .from('medications')
+      .insert(medication)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async updateMedication(medicationId: string, changes: Partial<Medication>): Promise<void> {
+    const { error } = await supabase
+      .from('medications')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', medicationId);
+
+    if (error) throw error;
+  },
+
+  // Pausing keeps the medication; resuming only works while its course is still running
+  async setMedicationActive(medicationId: string, active: boolean): Promise<void> {
+    await this.updateMedication(medicationId, {
+      is_active: active,
+      status: active ? 'active' : 'paused',
+    });
+  },
+
+  async deleteMedication(medicationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('medications')
+      .delete()
+      .eq('id', medicationId);
+
+    if (error) throw error;
+  },
+
+  isExpired(medication: Pick<Medication, 'expiry_date'>, date: string = dateTimeService.getDateString()): boolean {
+    return !!medication.expiry_date && medication.expiry_date < date;
+  },
+
+  async getExpiredMedications(userId: string): Promise<ExpiredMedication[]> {
+    const { data, error } = await supabase
+      .rpc('check_expired_medications', { p_user_id: userId });
+
+    if (error) {
+      console.error('❌ Error loading expired medications:', error);
+      return [];
+    }
+    return data || [];
+  },
+
+  async getLowStockMedications(userId: string): Promise<LowStockMedication[]> {
+    const { data, error } = await supabase
+      .rpc('get_low_stock_medications', { p_user_id: userId });
+
+    if (error) {
+      console.error('❌ Error loading low stock medications:', error);
+      return [];
+    }
+    if (!data?.length) return [];
+
+    // The database assumes one unit per dose; recount with the schedule and units per dose
+    const { data: medications, error: medicationsError } = await supabase
+      .from('medications')
+      .select('*')
+      .in('id', data.map((row: LowStockMedication) => row.id));
+
+    if (medicationsError) console.error('❌ Error loading low stock schedules:', medicationsError);
+    const byId = new Map<string, Medication>((medications || []).map((med: Medication) => [med.id, med]));
+
+    return data.map((row: LowStockMedication) => {
+      const medication = byId.get(row.id);
+      if (!medication) return { ...row, package_unit: 'tablets' };
+      return {
+        ...row,
+        days_until_empty: inventoryService.getDaysOfStock({ ...medication, current_quantity: row.current_quantity }),
+        package_unit: doseScheduleService.getPackageUnit(medication),
+      };
+    });
+  },
+
+  async getDrugInteractions(userId: string): Promise<DrugInteraction[]> {
+    const { data, error } = await supabase
+      .rpc('check_user_drug_interactions', { p_user_id: userId });
+
+    if (error) {
+      console.error('❌ Error loading drug interactions:', error);
+      return [];
+    }
+    return data || [];
+  },
+
+  // Active medications that expire within the next few days, today included
+  async countExpiringMedications(userId: string, withinDays: number): Promise<number> {
+    const today = dateTimeService.getDateString();
+    const { count, error } = await supabase
+      .from('medications')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .gte('expiry_date', today)
+      .lte('expiry_date', dateTimeService.addDays(today, withinDays));
+
+    if (error) {
+      console.error('❌ Error counting expiring medications:', error);
+      return 0;
+    }
+    return count || 0;
+  },
+
+  // Record the disposal and stop the medication
+  async markDisposed(userId: string, medication: { id: string; medication_name: string }): Promise<void> {
+    const { error } = await supabase
+      .from('disposal_logs')
+      .insert({
+        medication_id: medication.id,
+        user_id: userId,
+        medication_name: medication.medication_name,
+        disposal_method: 'user_reported',
+        disposal_date: dateTimeService.getDateString(),
+        notes: 'Disposed via app tracking'
+      });
+
+    if (error) throw error;
+
+    await this.updateMedication(medication.id, {
+      is_active: false,
+      disposed_at: new Date().toISOString(),
+    });
+  },
+
+  // Logging goes through doseLogService for its conflict rules, offline queue and side effects
+  async logDose(
+    userId: string,
+    medicationId: string,
+    logDate: string,
+    dose: DoseRef,
+    status: DoseLogStatus
+  ): Promise<DoseLogResult> {
+    return doseLogService.logDose(userId, medicationId, logDate, dose, status);
+  },
+
+  // Several doses for one date at once, e.g. from a grouped reminder
+  async logDoses(
+    userId: string,
+    logDate: string,
+    doses: { medicationId: string; dose: DoseRef }[],
+    status: DoseLogStatus
+  ): Promise<DoseLogResult> {
+    return doseLogService.logDoses(userId, logDate, doses, status);
+  },
+
+  async getLogsForDate(userId: string, logDate: string): Promise<{ [doseKey: string]: MedicationLog }> {
+    return doseLogService.getDoseLogsForDate(userId, logDate);
+  },
+
+  // Logs between two dates inclusive, newest first, optionally for one medication
+  async getLogsForRange(
+    userId: string,
+    startDate: string,
+    endDate: string,
+    medicationId?: string
+  ): Promise<MedicationLog[]> {
+    let query = supabase
+      .from('medication_logs')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('log_date', startDate)
+      .lte('log_date', endDate)
+      .order('log_date', { ascending: false });
+
+    if (medicationId) {
+      query = query.eq('medication_id', medicationId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // A patient's medications and logs for a caregiver; null without an active connection
+  async getPatientView(
+    caregiverId: string,
+    patientId: string,
+    logDate: string = dateTimeService.getDateString()
+  ): Promise<PatientView | null> {
+    const hasAccess = await caregiverService.hasAccessToPatient(caregiverId, patientId);
+    if (!hasAccess) {
+      console.error('❌ No access to patient medications');
+      return null;
+    }
+
+    console.log('📋 Fetching patient medications...');
+    const [medications, logs] = await Promise.all([
+      this.listMedications(patientId),
+      this.getLogsForDate(patientId, logDate),
+    ]);
+
+    console.log(`✅ Found ${medications.length} medications for patient`);
+    return { medications, logs };
+  },
+};
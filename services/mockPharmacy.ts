@@ -0,0 +1,58 @@
+// services/mockPharmacy.ts - A local stand-in pharmacy. Orders move along by time since they were sent:
+// acknowledged after a few minutes, ready a couple of hours later with a dispensed lot good for a year.
+// The send time is kept in the reference, so orders survive an app restart.
+import { PharmacyAdapter, PharmacyRefillUpdate } from './pharmacyAdapter';
+import { dateTimeService } from './dateTimeService';
+
+export interface MockPharmacyOptions {
+  name?: string;
+  leadTimeDays?: number;
+  acknowledgeAfterMinutes?: number;
+  readyAfterMinutes?: number;
+  now?: () => Date;
+}
+
+const REFERENCE_PREFIX = 'MOCK-';
+
+export const createMockPharmacy = (options: MockPharmacyOptions = {}): PharmacyAdapter => {
+  const {
+    name = 'Local Pharmacy (demo)',
+    leadTimeDays = 3,
+    acknowledgeAfterMinutes = 5,
+    readyAfterMinutes = 120,
+    now = () => new Date(),
+  } = options;
+  const cancelled = new Set<string>();
+
+  return {
+    name,
+    leadTimeDays,
+
+    async submitRefill(order) {
+      return `${REFERENCE_PREFIX}${now().getTime()}-${order.refillId}`;
+    },
+
+    async getRefillStatus(reference): Promise<PharmacyRefillUpdate | null> {
+      const submittedAt = reference.startsWith(REFERENCE_PREFIX)
+        ? Number(reference.slice(REFERENCE_PREFIX.length).split('-')[0])
+        : NaN;
+      if (isNaN(submittedAt)) return null;
+      if (cancelled.has(reference)) return { status: 'cancelled' };
+
+      const minutes = (now().getTime() - submittedAt) / 60000;
+      if (minutes < acknowledgeAfterMinutes) return { status: 'requested' };
+      if (minutes < readyAfterMinutes) return { status: 'acknowledged' };
+
+      const readyDate = dateTimeService.getDateString(new Date(submittedAt + readyAfterMinutes * 60000));
+      return {
+        status: 'ready',
+        lot_number: `DEMO${String(submittedAt).slice(-6)}`,
+        expiry_date: dateTimeService.addDays(readyDate, 365),
+      };
+    },
+
+    async cancelRefill(reference) {
+      cancelled.add(reference);
+    },
+  };
+};
@@ -2,84 +2,129 @@
 import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import { Platform } from 'react-native';
+import { doseScheduleService, DoseSchedule, DoseRef, ScheduledMedication, MedicationCycle } from './doseScheduleService';
+import { dateTimeService } from './dateTimeService';
+
+// Days of one-off reminders kept scheduled for cyclic regimens and courses about to end (stays under iOS's 64 pending limit)
+const CYCLE_REMINDER_LOOKAHEAD_DAYS = 7;
+// Reminders firing within this many minutes of the first in a group are merged into one notification
+const GROUP_WINDOW_MINUTES = 30;
 
 Notifications.setNotificationHandler({
   handleNotification: async () => ({
     shouldShowAlert: true,
-    shouldPlaySound: true,
+    shouldPlaySound: notificationService.getSettings().soundEnabled,
     shouldSetBadge: true,
     shouldShowBanner: true,
     shouldShowList: true,
   }),
 });
 
+// The triggers medication reminders use
+export type ReminderTrigger = Notifications.DailyTriggerInput | Notifications.WeeklyTriggerInput | Notifications.DateTriggerInput;
+
+export type MedicationPriority = 'critical' | 'normal' | 'low';
+
+// Fields needed to build a medication's reminders
+export type RemindableMedication = ScheduledMedication & {
+  id: string;
+  medication_name: string;
+  dosage: string;
+  dosage_unit: string;
+  notes?: string | null;
+  priority?: MedicationPriority | null;
+};
+
+// Hours when only critical reminders should interrupt, in the user's time zone; may cross midnight
+export interface QuietHours {
+  start: string; // HH:MM
+  end: string; // HH:MM
+}
+
+export const DEFAULT_QUIET_HOURS: QuietHours = { start: '22:00', end: '07:00' };
+
+export const PRIORITY_OPTIONS: { value: MedicationPriority; label: string; description: string }[] = [
+  { value: 'critical', label: 'Critical', description: 'Always alerts, even during Do Not Disturb and quiet hours' },
+  { value: 'normal', label: 'Normal', description: 'Alerts on time but respects Do Not Disturb' },
+  { value: 'low', label: 'Low', description: 'Doses in quiet hours are held until they end' },
+];
+
+// One Android channel per priority; only critical reminders bypass Do Not Disturb.
+// Normal keeps the original channel ID so existing reminders stay valid.
+const PRIORITY_CHANNELS: Record<MedicationPriority, string> = {
+  critical: 'medication-critical',
+  normal: 'medication-reminders',
+  low: 'medication-low',
+};
+
+// Minutes to snooze for, or 'home' to wait until the user says they're home
+export type SnoozeOption = number | 'home';
+
+export const SNOOZE_OPTIONS: { value: SnoozeOption; label: string }[] = [
+  { value: 5, label: '5 min' },
+  { value: 15, label: '15 min' },
+  { value: 30, label: '30 min' },
+  { value: 60, label: '1 hour' },
+  { value: 'home', label: 'Until I get home' },
+];
+
+export const DEFAULT_SNOOZE_OPTION: SnoozeOption = 15;
+// Snoozes allowed per dose before it counts as missed
+export const DEFAULT_MAX_SNOOZES = 3;
+// There's no location access, so a "home" snooze comes back after this long if the user hasn't said they're home
+const HOME_SNOOZE_FALLBACK_MINUTES = 120;
+
+// One dose listed in a grouped reminder
+export interface GroupedDose {
+  medicationId: string;
+  medicationName: string;
+  dosage: string;
+  dosageUnit: string;
+  scheduledTime: string | null;
+  reminderIndex: number;
+  priority?: MedicationPriority | null; // The loudest dose sets the group's channel
+}
+
+// Notification preferences as stored on the user's profile; empty fields use the defaults
+export interface NotificationPreferences {
+  notifications_enabled?: boolean | null;
+  sound_enabled?: boolean | null;
+  vibration_enabled?: boolean | null;
+  snooze_option?: SnoozeOption | null;
+  max_snoozes?: number | null;
+}
+
 export interface NotificationSettings {
+  notificationsEnabled: boolean; // Off = no reminders are scheduled at all
   soundEnabled: boolean;
   vibrationEnabled: boolean;
-  snoozeMinutes: number;
-}
-
-// ✅ NEW: Frequency configuration
-interface FrequencyConfig {
-  interval: number; // hours between doses
-  timesPerDay: number;
+  snoozeOption: SnoozeOption;
+  maxSnoozes: number;
 }
 
 class NotificationService {
   private settings: NotificationSettings = {
+    notificationsEnabled: true,
     soundEnabled: true,
     vibrationEnabled: true,
-    snoozeMinutes: 10,
+    snoozeOption: DEFAULT_SNOOZE_OPTION,
+    maxSnoozes: DEFAULT_MAX_SNOOZES,
   };
+  private quietHours: QuietHours | null = null;
 
-  // ✅ NEW: Parse frequency to get schedule configuration
-  private getFrequencyConfig(frequency: string): FrequencyConfig {
-    const configs: { [key: string]: FrequencyConfig } = {
-      'Once daily': { interval: 24, timesPerDay: 1 },
-      'Twice daily': { interval: 12, timesPerDay: 2 },
-      'Three times daily': { interval: 8, timesPerDay: 3 },
-      'Four times daily': { interval: 6, timesPerDay: 4 },
-      'Every 4 hours': { interval: 4, timesPerDay: 6 },
-      'Every 6 hours': { interval: 6, timesPerDay: 4 },
-      'Every 8 hours': { interval: 8, timesPerDay: 3 },
-      'Every 12 hours': { interval: 12, timesPerDay: 2 },
-      'Before meals': { interval: 0, timesPerDay: 3 },
-      'After meals': { interval: 0, timesPerDay: 3 },
-      'Bedtime': { interval: 24, timesPerDay: 1 },
-      'As needed': { interval: 0, timesPerDay: 0 },
-      'Weekly': { interval: 168, timesPerDay: 0 },
-    };
-    return configs[frequency] || { interval: 24, timesPerDay: 1 };
-  }
-
-  // ✅ NEW: Calculate all notification times for the day
+  // ✅ Calculate all notification times for the day from the shared dose schedule
   private calculateNotificationTimes(
     startHour: number,
     startMinute: number,
     frequency: string
-  ): Array<{ hour: number; minute: number }> {
-    const config = this.getFrequencyConfig(frequency);
-    const times: Array<{ hour: number; minute: number }> = [];
-
-    if (config.timesPerDay === 0) {
-      // As needed or special cases - only one notification
-      return [{ hour: startHour, minute: startMinute }];
-    }
-
-    if (config.timesPerDay === 1) {
-      // Once daily
-      return [{ hour: startHour, minute: startMinute }];
-    }
-
-    // Calculate multiple times based on interval
-    for (let i = 0; i < config.timesPerDay; i++) {
-      const totalMinutes = startHour * 60 + startMinute + (i * config.interval * 60);
-      const hour = Math.floor(totalMinutes / 60) % 24;
-      const minute = totalMinutes % 60;
-      times.push({ hour, minute });
-    }
-
-    return times;
+  ): { schedule: DoseSchedule; times: { hour: number; minute: number }[] } {
+    const startTime = `${String(startHour).padStart(2, '0')}:${String(startMinute).padStart(2, '0')}`;
+    const schedule = doseScheduleService.getSchedule(frequency, startTime);
+    const times = schedule.times.map(time => {
+      const [hour, minute] = time.split(':').map(Number);
+      return { hour, minute };
+    });
+    return { schedule, times };
   }
 
   async requestPermissions(): Promise<boolean> {
@@ -112,20 +157,45 @@ class NotificationService {
     try {
       await Notifications.deleteNotificationChannelAsync('medication-reminders').catch(() => {});
       
-      await Notifications.setNotificationChannelAsync('medication-reminders', {
-        name: 'Medication Reminders',
+      const { soundEnabled, vibrationEnabled } = this.settings;
+
+      await Notifications.setNotificationChannelAsync(this.getChannelId('critical'), {
+        name: 'Critical Medication Reminders',
         importance: Notifications.AndroidImportance.MAX,
-        vibrationPattern: [0, 500, 250, 500],
-        sound: 'default',
-        lightColor: '#6366F1',
+        vibrationPattern: vibrationEnabled ? [0, 500, 250, 500] : null,
+        sound: soundEnabled ? 'default' : null,
+        lightColor: '#EF4444',
         lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
         bypassDnd: true,
         enableLights: true,
-        enableVibrate: true,
+        enableVibrate: vibrationEnabled,
+        showBadge: true,
+      });
+
+      await Notifications.setNotificationChannelAsync(this.getChannelId('normal'), {
+        name: 'Medication Reminders',
+        importance: Notifications.AndroidImportance.HIGH,
+        vibrationPattern: vibrationEnabled ? [0, 250, 250, 250] : null,
+        sound: soundEnabled ? 'default' : null,
+        lightColor: '#6366F1',
+        lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+        bypassDnd: false,
+        enableLights: true,
+        enableVibrate: vibrationEnabled,
         showBadge: true,
       });
 
-      console.log('✅ Android notification channel created');
+      await Notifications.setNotificationChannelAsync(this.getChannelId('low'), {
+        name: 'Low Priority Reminders',
+        importance: Notifications.AndroidImportance.DEFAULT,
+        sound: soundEnabled ? 'default' : null,
+        lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+        bypassDnd: false,
+        enableVibrate: false,
+        showBadge: true,
+      });
+
+      console.log('✅ Android notification channels created');
     } catch (error) {
       console.error('❌ Error setting up Android channel:', error);
     }
@@ -133,6 +203,97 @@ class NotificationService {
 
   updateSettings(settings: Partial<NotificationSettings>) {
     this.settings = { ...this.settings, ...settings };
+    // The snooze button's label shows the chosen duration
+    if ('snoozeOption' in settings) {
+      this.setupNotificationCategories();
+    }
+  }
+
+  getSettings(): NotificationSettings {
+    return { ...this.settings };
+  }
+
+  getSnoozeMinutes(option: SnoozeOption = this.settings.snoozeOption): number {
+    return option === 'home' ? HOME_SNOOZE_FALLBACK_MINUTES : option;
+  }
+
+  // e.g. "15 min" or "until you're home"
+  getSnoozeLabel(option: SnoozeOption = this.settings.snoozeOption): string {
+    if (option === 'home') return "until you're home";
+    return SNOOZE_OPTIONS.find(item => item.value === option)?.label || `${option} min`;
+  }
+
+  getQuietHours(): QuietHours | null {
+    return this.quietHours;
+  }
+
+  // Called once the profile is known; null or malformed values turn quiet hours off
+  setQuietHours(quietHours?: QuietHours | null): void {
+    const valid = (time?: string) => !!time && /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+    this.quietHours = quietHours && valid(quietHours.start) && valid(quietHours.end) && quietHours.start !== quietHours.end
+      ? { start: quietHours.start, end: quietHours.end }
+      : null;
+  }
+
+  // Called with the profile's preferences at startup and whenever they change.
+  // Android channels are rebuilt when sound or vibration changes.
+  applyPreferences(preferences?: NotificationPreferences | null): void {
+    const previous = this.settings;
+    const snoozeOption = preferences?.snooze_option;
+    const maxSnoozes = preferences?.max_snoozes;
+
+    this.updateSettings({
+      notificationsEnabled: preferences?.notifications_enabled ?? true,
+      soundEnabled: preferences?.sound_enabled ?? true,
+      vibrationEnabled: preferences?.vibration_enabled ?? true,
+      // Anything not offered falls back to the defaults
+      snoozeOption: SNOOZE_OPTIONS.some(option => option.value === snoozeOption) ? snoozeOption! : DEFAULT_SNOOZE_OPTION,
+      maxSnoozes: maxSnoozes && maxSnoozes > 0 ? Math.round(maxSnoozes) : DEFAULT_MAX_SNOOZES,
+    });
+
+    const channelsChanged = previous.soundEnabled !== this.settings.soundEnabled ||
+      previous.vibrationEnabled !== this.settings.vibrationEnabled;
+    if (channelsChanged && Platform.OS === 'android') {
+      this.setupAndroidChannel();
+    }
+  }
+
+  // Android fixes a channel's sound and vibration when it's created, so each combination gets its own
+  // channel. With both on, the original IDs are kept so existing reminders stay valid.
+  getChannelId(priority?: MedicationPriority | null): string {
+    const { soundEnabled, vibrationEnabled } = this.settings;
+    const variant = soundEnabled
+      ? (vibrationEnabled ? '' : '-no-vibration')
+      : (vibrationEnabled ? '-no-sound' : '-silent');
+    return `${PRIORITY_CHANNELS[priority || 'normal']}${variant}`;
+  }
+
+  // Content fields that set how loudly a reminder of this priority interrupts
+  getPriorityContent(priority?: MedicationPriority | null): Pick<Notifications.NotificationContentInput, 'priority' | 'interruptionLevel'> {
+    switch (priority) {
+      case 'critical':
+        return { priority: Notifications.AndroidNotificationPriority.MAX, interruptionLevel: 'timeSensitive' };
+      case 'low':
+        return { priority: Notifications.AndroidNotificationPriority.DEFAULT, interruptionLevel: 'passive' };
+      default:
+        return { priority: Notifications.AndroidNotificationPriority.HIGH, interruptionLevel: 'active' };
+    }
+  }
+
+  // Minutes a low-priority reminder at this time of day (user's time zone) waits for quiet hours to end
+  getQuietHoursDelay(minutesOfDay: number, priority?: MedicationPriority | null): number {
+    if (priority !== 'low' || !this.quietHours) return 0;
+
+    const toMinutes = (time: string) => {
+      const [hour, minute] = time.split(':').map(Number);
+      return hour * 60 + minute;
+    };
+    const start = toMinutes(this.quietHours.start);
+    const end = toMinutes(this.quietHours.end);
+    const minutes = ((minutesOfDay % 1440) + 1440) % 1440;
+    const inQuietHours = start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+
+    return inQuietHours ? (end - minutes + 1440) % 1440 : 0;
   }
 
   // ✅ UPDATED: Now accepts frequency parameter (8th parameter)
@@ -144,7 +305,11 @@ class NotificationService {
     hour: number,
     minute: number,
     notes?: string,
-    frequency?: string  // ✅ NEW: Added frequency parameter
+    frequency?: string,  // ✅ NEW: Added frequency parameter
+    cycle?: MedicationCycle | null, // Cyclic regimens only remind on dosing days
+    weekdays?: number[] | null, // Selected weekdays (1 = Sunday); every day when empty
+    endDate?: string | null, // Last day of the course; no reminders after it
+    priority?: MedicationPriority | null // Channel and quiet-hours handling
   ): Promise<string | null> {
     try {
       await this.cancelMedicationNotifications(medicationId);
@@ -153,66 +318,19 @@ class NotificationService {
         throw new Error('Invalid time');
       }
 
-      // ✅ Calculate all notification times based on frequency
-      const notificationTimes = this.calculateNotificationTimes(
-        hour,
-        minute,
-        frequency || 'Once daily'
+      const requests = this.buildMedicationReminders(
+        medicationId, medicationName, dosage, dosageUnit, hour, minute, notes, frequency, cycle, weekdays, endDate, priority
       );
 
-      console.log(`🔔 Scheduling ${notificationTimes.length} notification(s) for ${medicationName}`);
-      console.log('   Times:', notificationTimes.map(t => `${t.hour}:${String(t.minute).padStart(2, '0')}`).join(', '));
-
-      const notificationIds: string[] = [];
-
-      // ✅ Schedule notification for each time
-      for (let i = 0; i < notificationTimes.length; i++) {
-        const time = notificationTimes[i];
-
-        const content: Notifications.NotificationContentInput = {
-          title: '💊 Time for your medication',
-          body: `${medicationName} - ${dosage}${dosageUnit}${notes ? `\n${notes}` : ''}`,
-          data: {
-            medicationId,
-            medicationName,
-            dosage,
-            dosageUnit,
-            notes,
-            type: 'daily_reminder',
-            reminderIndex: i,
-            totalReminders: notificationTimes.length,
-          },
-          sound: this.settings.soundEnabled ? 'default' : undefined,
-          badge: 1,
-          priority: Notifications.AndroidNotificationPriority.MAX,
-          categoryIdentifier: 'MEDICATION_REMINDER',
-          vibrate: this.settings.vibrationEnabled ? [0, 250, 250, 250] : undefined,
-        };
-
-        const trigger: Notifications.NotificationTriggerInput = {
-          type: Notifications.SchedulableTriggerInputTypes.DAILY,
-          channelId: 'medication-reminders',
-          hour: time.hour,
-          minute: time.minute,
-        };
-
-        const notificationId = await Notifications.scheduleNotificationAsync({
-          content,
-          trigger,
-        });
-
-        if (notificationId) {
-          notificationIds.push(notificationId);
-          console.log(`   ✅ Scheduled notification ${i + 1}/${notificationTimes.length} at ${time.hour}:${String(time.minute).padStart(2, '0')}`);
-        }
-      }
+      console.log(`🔔 Scheduling ${requests.length} notification(s) for ${medicationName}`);
+      const notificationIds = await this.scheduleRequests(requests);
 
       // Verify notifications were scheduled
       await new Promise(resolve => setTimeout(resolve, 500));
       const all = await Notifications.getAllScheduledNotificationsAsync();
       const scheduled = all.filter(n => n.content.data?.medicationId === medicationId);
       
-      console.log(`✅ Total scheduled: ${scheduled.length}/${notificationTimes.length}`);
+      console.log(`✅ Total scheduled: ${scheduled.length}/${requests.length}`);
 
       // Return the first notification ID as reference
       return notificationIds[0] || null;
@@ -222,36 +340,422 @@ class NotificationService {
     }
   }
 
+  // Notification requests for a clock-scheduled medication, one per dose time and trigger
+  buildMedicationReminders(
+    medicationId: string,
+    medicationName: string,
+    dosage: string,
+    dosageUnit: string,
+    hour: number,
+    minute: number,
+    notes?: string,
+    frequency?: string,
+    cycle?: MedicationCycle | null,
+    weekdays?: number[] | null,
+    endDate?: string | null,
+    priority?: MedicationPriority | null
+  ): Notifications.NotificationRequestInput[] {
+    // ✅ Calculate all notification times based on frequency
+    const { schedule, times: notificationTimes } = this.calculateNotificationTimes(
+      hour,
+      minute,
+      frequency || 'Once daily'
+    );
+    const requests: Notifications.NotificationRequestInput[] = [];
+
+    for (let i = 0; i < notificationTimes.length; i++) {
+      const time = notificationTimes[i];
+
+      const content: Notifications.NotificationContentInput = {
+        title: '💊 Time for your medication',
+        body: `${medicationName} - ${dosage}${dosageUnit}${notes ? `\n${notes}` : ''}`,
+        data: {
+          medicationId,
+          medicationName,
+          dosage,
+          dosageUnit,
+          notes,
+          type: 'daily_reminder',
+          scheduledTime: schedule.times[i],
+          reminderIndex: i,
+          totalReminders: notificationTimes.length,
+          priority: priority || 'normal',
+        },
+        sound: this.settings.soundEnabled ? 'default' : undefined,
+        badge: 1,
+        ...this.getPriorityContent(priority),
+        categoryIdentifier: 'MEDICATION_REMINDER',
+        vibrate: this.settings.vibrationEnabled && priority !== 'low' ? [0, 250, 250, 250] : undefined,
+      };
+
+      for (const trigger of this.getReminderTriggers(schedule, time.hour, time.minute, cycle, weekdays, endDate, priority)) {
+        requests.push(this.withReminderKey(content, trigger));
+      }
+    }
+
+    return requests;
+  }
+
+  // Identifies a reminder by what it shows and when it fires. Stored in the notification's
+  // data so the reconciler can match the OS queue against the expected schedule.
+  getReminderKey(data: Record<string, any>, trigger: ReminderTrigger): string {
+    const [hour, minute] = 'hour' in trigger ? [trigger.hour, trigger.minute] : [0, 0];
+    const when = trigger.type === Notifications.SchedulableTriggerInputTypes.DATE
+      ? `date@${new Date(trigger.date).toISOString()}`
+      : trigger.type === Notifications.SchedulableTriggerInputTypes.WEEKLY
+        ? `weekly${trigger.weekday}@${hour}:${minute}`
+        : `daily@${hour}:${minute}`;
+
+    return [
+      data.medicationId,
+      when,
+      trigger.channelId || '',
+      data.scheduledTime,
+      data.reminderIndex,
+      data.medicationName,
+      `${data.dosage}${data.dosageUnit}`,
+      data.notes || '',
+    ].join('|');
+  }
+
+  withReminderKey(content: Notifications.NotificationContentInput, trigger: ReminderTrigger): Notifications.NotificationRequestInput {
+    const data = content.data || {};
+    return {
+      content: { ...content, data: { ...data, reminderKey: this.getReminderKey(data, trigger) } },
+      trigger,
+    };
+  }
+
+  // Merge daily reminders that fire within GROUP_WINDOW_MINUTES of each other on the same days
+  // into one notification at the earliest time, e.g. "Morning meds (5)". Only triggers of the same
+  // kind are merged, so a Monday-only dose never joins an every-day group.
+  groupReminders(requests: Notifications.NotificationRequestInput[]): Notifications.NotificationRequestInput[] {
+    const grouped: Notifications.NotificationRequestInput[] = [];
+    const slots = new Map<string, { request: Notifications.NotificationRequestInput; minutes: number }[]>();
+
+    for (const request of requests) {
+      if (request.content.data?.type !== 'daily_reminder') {
+        grouped.push(request);
+        continue;
+      }
+
+      const trigger = request.trigger as ReminderTrigger;
+      let slot: string;
+      let minutes: number;
+      if (trigger.type === Notifications.SchedulableTriggerInputTypes.DATE) {
+        const date = new Date(trigger.date);
+        slot = `date@${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+        minutes = date.getHours() * 60 + date.getMinutes();
+      } else {
+        slot = trigger.type === Notifications.SchedulableTriggerInputTypes.WEEKLY ? `weekly${trigger.weekday}` : 'daily';
+        minutes = trigger.hour * 60 + trigger.minute;
+      }
+      slots.set(slot, [...(slots.get(slot) || []), { request, minutes }]);
+    }
+
+    for (const entries of slots.values()) {
+      entries.sort((a, b) => a.minutes - b.minutes);
+
+      let group: typeof entries = [];
+      const flush = () => {
+        if (group.length > 1) {
+          grouped.push(this.buildGroupReminder(group.map(entry => entry.request)));
+        } else if (group.length === 1) {
+          grouped.push(group[0].request);
+        }
+        group = [];
+      };
+
+      for (const entry of entries) {
+        if (group.length > 0 && entry.minutes - group[0].minutes > GROUP_WINDOW_MINUTES) flush();
+        group.push(entry);
+      }
+      flush();
+    }
+
+    return grouped;
+  }
+
+  // One notification for several doses, on the loudest channel among them
+  private buildGroupReminder(members: Notifications.NotificationRequestInput[]): Notifications.NotificationRequestInput {
+    const doses: GroupedDose[] = members.map(({ content }) => ({
+      medicationId: content.data?.medicationId as string,
+      medicationName: content.data?.medicationName as string,
+      dosage: content.data?.dosage as string,
+      dosageUnit: content.data?.dosageUnit as string,
+      scheduledTime: (content.data?.scheduledTime as string | undefined) || null,
+      reminderIndex: (content.data?.reminderIndex as number | undefined) ?? 0,
+      priority: (content.data?.priority as MedicationPriority | undefined) || 'normal',
+    }));
+    const priority = this.getGroupPriority(doses);
+    const groupTitle = this.getGroupTitle(doses[0].scheduledTime, doses.length);
+
+    return {
+      content: {
+        title: `💊 ${groupTitle}`,
+        body: doses.map(dose => `• ${dose.medicationName} - ${dose.dosage}${dose.dosageUnit}`).join('\n'),
+        data: {
+          type: 'group_reminder',
+          groupTitle,
+          doses,
+          // Members' keys already cover their times and contents
+          reminderKey: ['group', ...members.map(member => member.content.data?.reminderKey as string).sort()].join('||'),
+        },
+        sound: this.settings.soundEnabled ? 'default' : undefined,
+        badge: 1,
+        ...this.getPriorityContent(priority),
+        categoryIdentifier: 'MEDICATION_GROUP',
+        vibrate: this.settings.vibrationEnabled && priority !== 'low' ? [0, 250, 250, 250] : undefined,
+      },
+      trigger: { ...(members[0].trigger as ReminderTrigger), channelId: this.getChannelId(priority) },
+    };
+  }
+
+  // The loudest priority among a group's doses
+  getGroupPriority(doses: GroupedDose[]): MedicationPriority {
+    return (['critical', 'normal', 'low'] as MedicationPriority[])
+      .find(level => doses.some(dose => (dose.priority || 'normal') === level)) || 'normal';
+  }
+
+  // e.g. "Morning meds (5)", from the first dose's time in the user's time zone
+  private getGroupTitle(scheduledTime: string | null, count: number): string {
+    const hour = scheduledTime ? Number(scheduledTime.split(':')[0]) : 8;
+    const period = hour >= 5 && hour < 12
+      ? 'Morning'
+      : hour >= 12 && hour < 17
+        ? 'Afternoon'
+        : hour >= 17 && hour < 21
+          ? 'Evening'
+          : 'Bedtime';
+    return `${period} meds (${count})`;
+  }
+
+  // Whether a queued notification is for this medication, alone or in a group
+  private includesMedication(data: Record<string, any> | undefined, medicationId: string): boolean {
+    if (!data) return false;
+    if (data.medicationId === medicationId) return true;
+    return Array.isArray(data.doses) && data.doses.some((dose: GroupedDose) => dose.medicationId === medicationId);
+  }
+
+  // Schedule requests one by one, returning the IDs the OS assigned.
+  // Nothing is scheduled while the user has notifications turned off.
+  async scheduleRequests(requests: Notifications.NotificationRequestInput[]): Promise<string[]> {
+    const notificationIds: string[] = [];
+    if (!this.settings.notificationsEnabled) {
+      if (requests.length > 0) console.log(`🔕 Notifications off, ${requests.length} reminder(s) not scheduled`);
+      return notificationIds;
+    }
+
+    for (const request of requests) {
+      const notificationId = await Notifications.scheduleNotificationAsync(request);
+      if (notificationId) {
+        notificationIds.push(notificationId);
+      }
+    }
+    return notificationIds;
+  }
+
+  // Triggers for one reminder time. Times are in the user's time zone and are converted to
+  // the device clock. Cyclic regimens get one-off reminders on the dosing days ahead, which
+  // are topped up whenever reminders are re-synced; so do courses ending within that window,
+  // so nothing repeats past the end date. Selected weekdays get one weekly reminder each.
+  // Low-priority reminders inside quiet hours move to when they end, so they arrive together.
+  getReminderTriggers(
+    schedule: DoseSchedule,
+    hour: number,
+    minute: number,
+    cycle?: MedicationCycle | null,
+    weekdays?: number[] | null,
+    endDate?: string | null,
+    priority?: MedicationPriority | null
+  ): ReminderTrigger[] {
+    const channelId = this.getChannelId(priority);
+    // Minutes past 59 roll over into the next hour or day below
+    const delayedMinute = minute + this.getQuietHoursDelay(hour * 60 + minute, priority);
+    const today = dateTimeService.getDateString();
+    // Weekly medications scheduled without a day start on today's weekday
+    const days = weekdays?.length
+      ? weekdays
+      : schedule.kind === 'weekly'
+        ? [doseScheduleService.getWeekday(today)]
+        : null;
+
+    const endsSoon = !!endDate && dateTimeService.getDaysBetween(today, endDate) < CYCLE_REMINDER_LOOKAHEAD_DAYS;
+
+    if (cycle || endsSoon) {
+      const now = Date.now();
+      return doseScheduleService
+        .getUpcomingCycleDates(cycle || null, today, CYCLE_REMINDER_LOOKAHEAD_DAYS, endDate)
+        .filter(date => !days || days.includes(doseScheduleService.getWeekday(date)))
+        .map(date => dateTimeService.getInstant(date, hour, delayedMinute))
+        .filter(instant => instant.getTime() > now)
+        .map(instant => ({
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          channelId,
+          date: instant,
+        }));
+    }
+
+    const deviceTime = dateTimeService.toDeviceTime(hour, delayedMinute);
+
+    if (days) {
+      return days.map(weekday => ({
+        type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+        channelId,
+        weekday: dateTimeService.shiftWeekday(weekday, deviceTime.dayOffset),
+        hour: deviceTime.hour,
+        minute: deviceTime.minute,
+      }));
+    }
+
+    return [{
+      type: Notifications.SchedulableTriggerInputTypes.DAILY,
+      channelId,
+      hour: deviceTime.hour,
+      minute: deviceTime.minute,
+    }];
+  }
+
+  // Re-create reminders for a set of medications, e.g. after the user's time zone changes.
+  // Uses today's taper step, and clears reminders for courses that have finished.
+  async rescheduleMedicationReminders(medications: RemindableMedication[]): Promise<void> {
+    for (const med of medications) {
+      try {
+        await this.cancelMedicationNotifications(med.id);
+        await this.scheduleRequests(this.getExpectedReminders(med));
+      } catch (error) {
+        console.error(`❌ Error rescheduling ${med.medication_name}:`, error);
+      }
+    }
+  }
+
+  // Every reminder an active medication should have queued right now
+  getExpectedReminders(med: RemindableMedication): Notifications.NotificationRequestInput[] {
+    const today = dateTimeService.getDateString();
+    if (doseScheduleService.isCourseComplete(med, today)) return [];
+
+    const regimen = doseScheduleService.getRegimenForDate(med, today);
+    if (doseScheduleService.isRolling(med, regimen.frequency)) {
+      const request = this.buildRollingReminder({ ...med, dosage: regimen.dosage, dosage_unit: regimen.dosage_unit });
+      return request ? [request] : [];
+    }
+
+    const [hour, minute] = med.reminder_time.split(':').map(Number);
+    return this.buildMedicationReminders(
+      med.id,
+      med.medication_name,
+      regimen.dosage,
+      regimen.dosage_unit,
+      hour,
+      minute,
+      med.notes || undefined,
+      regimen.frequency,
+      doseScheduleService.getCycle(med),
+      doseScheduleService.getWeekdays(med, regimen.frequency),
+      doseScheduleService.getCourseEndDate(med),
+      med.priority
+    );
+  }
+
+  // Rolling medications have a single reminder for their next dose, replaced each time a dose is taken.
+  async scheduleRollingReminder(medication: RemindableMedication): Promise<string | null> {
+    try {
+      await this.cancelMedicationNotifications(medication.id);
+
+      const request = this.buildRollingReminder(medication);
+      if (!request) return null;
+
+      const [notificationId] = await this.scheduleRequests([request]);
+      if (!notificationId) return null;
+      console.log(`🔁 Next dose of ${medication.medication_name} reminded at ${dateTimeService.getTimeString(new Date((request.trigger as Notifications.DateTriggerInput).date))}`);
+      return notificationId;
+    } catch (error) {
+      console.error('❌ Error scheduling rolling reminder:', error);
+      return null;
+    }
+  }
+
+  // Nothing is due while the next dose is already overdue or falls after the course ends
+  buildRollingReminder(medication: RemindableMedication): Notifications.NotificationRequestInput | null {
+    if (!medication.next_dose_at) return null;
+
+    const dueAt = new Date(medication.next_dose_at);
+    // The dose after a course's last day is never due
+    if (doseScheduleService.isCourseComplete(medication, dateTimeService.getDateString(dueAt))) return null;
+
+    let remindAt = new Date(dueAt.getTime() - (medication.advance_reminder_minutes || 0) * 60000);
+    if (remindAt.getTime() <= Date.now()) return null;
+    remindAt = new Date(remindAt.getTime() + this.getQuietHoursDelay(dateTimeService.getMinutesOfDay(remindAt), medication.priority) * 60000);
+
+    return this.withReminderKey({
+      title: '💊 Time for your next dose',
+      body: `${medication.medication_name} - ${medication.dosage}${medication.dosage_unit}${medication.notes ? `\n${medication.notes}` : ''}`,
+      data: {
+        medicationId: medication.id,
+        medicationName: medication.medication_name,
+        dosage: medication.dosage,
+        dosageUnit: medication.dosage_unit,
+        notes: medication.notes,
+        type: 'rolling_reminder',
+        scheduledTime: dateTimeService.getTimeString(dueAt),
+        reminderIndex: medication.next_dose_index ?? 0,
+        doseDate: dateTimeService.getDateString(dueAt),
+        priority: medication.priority || 'normal',
+      },
+      sound: this.settings.soundEnabled ? 'default' : undefined,
+      badge: 1,
+      ...this.getPriorityContent(medication.priority),
+      categoryIdentifier: 'MEDICATION_REMINDER',
+      vibrate: this.settings.vibrationEnabled && medication.priority !== 'low' ? [0, 250, 250, 250] : undefined,
+    }, {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      channelId: this.getChannelId(medication.priority),
+      date: remindAt,
+    });
+  }
+
+  // Snoozes count up per dose so the caller can stop at the user's maximum
   async snoozeNotification(
     medicationId: string,
     medicationName: string,
     dosage: string,
-    dosageUnit: string
+    dosageUnit: string,
+    dose?: DoseRef,
+    snoozeCount: number = 1,
+    doseDate?: string,
+    priority?: MedicationPriority | null // Comes back on the medication's channel
   ): Promise<void> {
     try {
-      console.log(`⏰ Snoozing ${medicationName} for ${this.settings.snoozeMinutes} minutes`);
+      const untilHome = this.settings.snoozeOption === 'home';
+      console.log(`⏰ Snoozing ${medicationName} ${this.getSnoozeLabel()}`);
 
       const content: Notifications.NotificationContentInput = {
-        title: '⏰ Snoozed Reminder',
+        title: untilHome ? '🏠 Home yet?' : '⏰ Snoozed Reminder',
         body: `${medicationName} - ${dosage}${dosageUnit}\nRemember to take your medication!`,
         data: { 
           medicationId, 
           medicationName,
           dosage,
           dosageUnit,
-          type: 'snoozed' 
+          type: 'snoozed',
+          snoozeCount,
+          untilHome,
+          // Keep the dose slot and its day so a snoozed reminder logs the same dose
+          ...(dose ? { reminderIndex: dose.doseIndex, scheduledTime: dose.scheduledTime } : {}),
+          ...(doseDate ? { doseDate } : {}),
+          priority: priority || 'normal',
         },
         sound: this.settings.soundEnabled ? 'default' : undefined,
         badge: 1,
-        priority: Notifications.AndroidNotificationPriority.MAX,
+        ...this.getPriorityContent(priority),
         categoryIdentifier: 'MEDICATION_REMINDER',
-        vibrate: this.settings.vibrationEnabled ? [0, 250, 250, 250] : undefined,
+        vibrate: this.settings.vibrationEnabled && priority !== 'low' ? [0, 250, 250, 250] : undefined,
       };
 
       const trigger: Notifications.NotificationTriggerInput = {
         type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
-        channelId: 'medication-reminders',
-        seconds: this.settings.snoozeMinutes * 60,
+        channelId: this.getChannelId(priority),
+        seconds: this.getSnoozeMinutes() * 60,
       };
 
       await Notifications.scheduleNotificationAsync({
@@ -259,12 +763,79 @@ class NotificationService {
         trigger,
       });
 
-      console.log(`✅ Snoozed for ${this.settings.snoozeMinutes} minutes`);
+      console.log(`✅ Snoozed ${this.getSnoozeLabel()} (snooze ${snoozeCount}/${this.settings.maxSnoozes})`);
     } catch (error) {
       console.error('❌ Error snoozing notification:', error);
     }
   }
 
+  // Bring a whole group back later, still with its group actions
+  async snoozeGroup(groupTitle: string, doses: GroupedDose[], snoozeCount: number = 1, doseDate?: string): Promise<void> {
+    try {
+      const untilHome = this.settings.snoozeOption === 'home';
+      const priority = this.getGroupPriority(doses);
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: untilHome ? `🏠 Home yet? ${groupTitle}` : `⏰ ${groupTitle}`,
+          body: doses.map(dose => `• ${dose.medicationName} - ${dose.dosage}${dose.dosageUnit}`).join('\n'),
+          data: { type: 'snoozed_group', groupTitle, doses, snoozeCount, untilHome, ...(doseDate ? { doseDate } : {}) },
+          sound: this.settings.soundEnabled ? 'default' : undefined,
+          badge: 1,
+          ...this.getPriorityContent(priority),
+          categoryIdentifier: 'MEDICATION_GROUP',
+          vibrate: this.settings.vibrationEnabled && priority !== 'low' ? [0, 250, 250, 250] : undefined,
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+          channelId: this.getChannelId(priority),
+          seconds: this.getSnoozeMinutes() * 60,
+        },
+      });
+
+      console.log(`✅ ${groupTitle} snoozed ${this.getSnoozeLabel()}`);
+    } catch (error) {
+      console.error('❌ Error snoozing grouped reminder:', error);
+    }
+  }
+
+  // Reminders snoozed until the user got home, still waiting on their fallback time
+  async getHomeSnoozes(): Promise<Notifications.NotificationRequest[]> {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    return scheduled.filter(n => n.content.data?.untilHome === true);
+  }
+
+  // The user is home: show every "home" snooze now instead of at its fallback time
+  async releaseHomeSnoozes(): Promise<number> {
+    try {
+      const waiting = await this.getHomeSnoozes();
+      for (const notification of waiting) {
+        const data = notification.content.data || {};
+        const priority: MedicationPriority | null = data.type === 'snoozed_group'
+          ? this.getGroupPriority((data.doses as GroupedDose[]) || [])
+          : (data.priority as MedicationPriority | undefined) || null;
+
+        await Notifications.cancelScheduledNotificationAsync(notification.identifier);
+        await Notifications.scheduleNotificationAsync({
+          content: {
+            title: '🏠 Welcome home',
+            body: notification.content.body,
+            data: { ...data, untilHome: false },
+            sound: this.settings.soundEnabled ? 'default' : undefined,
+            ...this.getPriorityContent(priority),
+            categoryIdentifier: notification.content.categoryIdentifier || 'MEDICATION_REMINDER',
+          },
+          trigger: { channelId: this.getChannelId(priority) },
+        });
+      }
+
+      console.log(`🏠 Released ${waiting.length} home snooze(s)`);
+      return waiting.length;
+    } catch (error) {
+      console.error('❌ Error releasing home snoozes:', error);
+      return 0;
+    }
+  }
+
   async cancelNotification(notificationId: string): Promise<void> {
     try {
       await Notifications.cancelScheduledNotificationAsync(notificationId);
@@ -277,7 +848,11 @@ class NotificationService {
   async cancelMedicationNotifications(medicationId: string): Promise<void> {
     try {
       const scheduled = await Notifications.getAllScheduledNotificationsAsync();
-      const toCancel = scheduled.filter(n => n.content.data?.medicationId === medicationId);
+      // Groups go too; reconciling rebuilds them for the other medications. Refill reminders
+      // stay: they follow the stock, and runoutForecastService replaces them when that changes.
+      const toCancel = scheduled.filter(n =>
+        n.content.data?.type !== 'runout_reminder' && this.includesMedication(n.content.data, medicationId)
+      );
 
       console.log(`🗑️ Cancelling ${toCancel.length} notifications for medication ${medicationId}`);
 
@@ -308,7 +883,7 @@ class NotificationService {
   async getMedicationNotifications(medicationId: string): Promise<Array<{ hour: number; minute: number }>> {
     try {
       const scheduled = await Notifications.getAllScheduledNotificationsAsync();
-      const medicationNotifs = scheduled.filter(n => n.content.data?.medicationId === medicationId);
+      const medicationNotifs = scheduled.filter(n => this.includesMedication(n.content.data, medicationId));
 
       const times = medicationNotifs.map(n => {
         const trigger = n.trigger as any;
@@ -342,7 +917,7 @@ class NotificationService {
         },
         {
           identifier: 'SNOOZE',
-          buttonTitle: '⏰ Snooze 10min',
+          buttonTitle: `⏰ Snooze ${this.getSnoozeLabel()}`,
           options: { 
             opensAppToForeground: false,
             isAuthenticationRequired: false,
@@ -359,25 +934,68 @@ class NotificationService {
         },
       ]);
 
+      await Notifications.setNotificationCategoryAsync('MEDICATION_GROUP', [
+        {
+          identifier: 'TAKE_ALL',
+          buttonTitle: '✅ Take All',
+          options: {
+            opensAppToForeground: false,
+            isAuthenticationRequired: false,
+          },
+        },
+        {
+          identifier: 'SNOOZE_ALL',
+          buttonTitle: `⏰ Snooze All ${this.getSnoozeLabel()}`,
+          options: {
+            opensAppToForeground: false,
+            isAuthenticationRequired: false,
+          },
+        },
+        {
+          identifier: 'OPEN_CHECKLIST',
+          buttonTitle: '📋 Checklist',
+          options: {
+            opensAppToForeground: true,
+            isAuthenticationRequired: false,
+          },
+        },
+      ]);
+
       console.log('✅ Notification categories set up');
     } catch (error) {
       console.error('❌ Error setting up categories:', error);
     }
   }
 
+  // Handlers get the day a dose was due when the notification carries one (follow-ups, snoozes,
+  // rolling reminders); for the daily repeating reminders it's undefined and means today
   setupNotificationResponseHandler(
-    onTakeNow: (medicationId: string) => Promise<void>,
-    onSnooze: (medicationId: string) => Promise<void>,
-    onSkip: (medicationId: string) => Promise<void>
+    onTakeNow: (medicationId: string, dose?: DoseRef, doseDate?: string) => Promise<void>,
+    onSnooze: (medicationId: string, dose: DoseRef | undefined, snoozeCount: number, doseDate?: string) => Promise<void>,
+    onSkip: (medicationId: string, dose?: DoseRef, doseDate?: string) => Promise<void>,
+    onTakeAll?: (doses: GroupedDose[], doseDate?: string) => Promise<void>,
+    onOpenChecklist?: (doses: GroupedDose[]) => void,
+    onSnoozeAll?: (groupTitle: string, doses: GroupedDose[], snoozeCount: number, doseDate?: string) => Promise<void>
   ): void {
     Notifications.addNotificationResponseReceivedListener(async (response) => {
       try {
+        const type = response.notification.request.content.data?.type;
+        if (type === 'group_reminder' || type === 'snoozed_group') {
+          await this.handleGroupResponse(response, onTakeAll, onOpenChecklist, onSnoozeAll);
+          return;
+        }
+
         const medicationId = response.notification.request.content.data?.medicationId as string;
         const medicationName = response.notification.request.content.data?.medicationName as string;
-        const dosage = response.notification.request.content.data?.dosage as string;
-        const dosageUnit = response.notification.request.content.data?.dosageUnit as string;
+        // Times this dose has already been snoozed
+        const snoozeCount = (response.notification.request.content.data?.snoozeCount as number | undefined) ?? 0;
         const reminderIndex = response.notification.request.content.data?.reminderIndex as number;
         const totalReminders = response.notification.request.content.data?.totalReminders as number;
+        const scheduledTime = response.notification.request.content.data?.scheduledTime as string | undefined;
+        const dose: DoseRef | undefined = typeof reminderIndex === 'number'
+          ? { doseIndex: reminderIndex, scheduledTime: scheduledTime || null }
+          : undefined;
+        const doseDate = response.notification.request.content.data?.doseDate as string | undefined;
 
         if (!medicationId) {
           console.warn('⚠️ No medication ID in notification data');
@@ -392,7 +1010,7 @@ class NotificationService {
 
         switch (response.actionIdentifier) {
           case 'TAKE_NOW':
-            await onTakeNow(medicationId);
+            await onTakeNow(medicationId, dose, doseDate);
             await Notifications.scheduleNotificationAsync({
               content: {
                 title: '✅ Medication Taken',
@@ -403,21 +1021,13 @@ class NotificationService {
             });
             break;
 
+          // Snoozes once, or marks the dose missed past the maximum
           case 'SNOOZE':
-            await onSnooze(medicationId);
-            await this.snoozeNotification(medicationId, medicationName, dosage, dosageUnit);
-            await Notifications.scheduleNotificationAsync({
-              content: {
-                title: '⏰ Reminder Snoozed',
-                body: `${medicationName}${reminderInfo} reminder in ${this.settings.snoozeMinutes} minutes`,
-                sound: 'default',
-              },
-              trigger: null,
-            });
+            await onSnooze(medicationId, dose, snoozeCount, doseDate);
             break;
 
           case 'SKIP':
-            await onSkip(medicationId);
+            await onSkip(medicationId, dose, doseDate);
             await Notifications.scheduleNotificationAsync({
               content: {
                 title: '⭕️ Medication Skipped',
@@ -440,11 +1050,52 @@ class NotificationService {
     console.log('✅ Notification response handler set up');
   }
 
+  private async handleGroupResponse(
+    response: Notifications.NotificationResponse,
+    onTakeAll?: (doses: GroupedDose[], doseDate?: string) => Promise<void>,
+    onOpenChecklist?: (doses: GroupedDose[]) => void,
+    onSnoozeAll?: (groupTitle: string, doses: GroupedDose[], snoozeCount: number, doseDate?: string) => Promise<void>
+  ): Promise<void> {
+    const groupTitle = response.notification.request.content.data?.groupTitle as string;
+    const doses = (response.notification.request.content.data?.doses as GroupedDose[] | undefined) || [];
+    const snoozeCount = (response.notification.request.content.data?.snoozeCount as number | undefined) ?? 0;
+    const doseDate = response.notification.request.content.data?.doseDate as string | undefined;
+
+    console.log('📱 Group notification action:', response.actionIdentifier, 'for', groupTitle);
+
+    switch (response.actionIdentifier) {
+      case 'TAKE_ALL':
+        await onTakeAll?.(doses, doseDate);
+        await Notifications.scheduleNotificationAsync({
+          content: {
+            title: '✅ Medications Taken',
+            body: `${doses.length} dose${doses.length === 1 ? '' : 's'} logged successfully!`,
+            sound: 'default',
+          },
+          trigger: null,
+        });
+        break;
+
+      case 'SNOOZE_ALL':
+        if (onSnoozeAll) {
+          await onSnoozeAll(groupTitle, doses, snoozeCount, doseDate);
+        } else {
+          await this.snoozeGroup(groupTitle, doses, snoozeCount + 1, doseDate || dateTimeService.getDateString());
+        }
+        break;
+
+      // Tapping the notification itself opens the checklist too
+      default:
+        onOpenChecklist?.(doses);
+        break;
+    }
+  }
+
   async sendTestNotification(medicationName: string): Promise<void> {
     try {
       const trigger: Notifications.NotificationTriggerInput = {
         type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
-        channelId: 'medication-reminders',
+        channelId: this.getChannelId(),
         seconds: 2,
       };
 
@@ -452,11 +1103,11 @@ class NotificationService {
         content: {
           title: '💊 Test Medication Reminder',
           body: `${medicationName} - This is a test notification`,
-          sound: 'default',
+          sound: this.settings.soundEnabled ? 'default' : undefined,
           badge: 1,
           priority: Notifications.AndroidNotificationPriority.MAX,
           categoryIdentifier: 'MEDICATION_REMINDER',
-          vibrate: [0, 250, 250, 250],
+          vibrate: this.settings.vibrationEnabled ? [0, 250, 250, 250] : undefined,
         },
         trigger,
       });
@@ -0,0 +1,136 @@
+// services/offlineService.ts - Offline-first storage: local copies of medications and dose logs,
+// and the queue of writes made without a connection, replayed once requests go through again.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DatabaseMedication, DatabaseMedicationLog } from './supabaseClient';
+import { DoseRef } from './doseScheduleService';
+
+const MEDICATIONS_KEY = 'offline_medications';
+const LOGS_KEY = 'offline_dose_log_days';
+const QUEUE_KEY = 'offline_mutation_queue';
+// Days of logs kept: today, and yesterday for the as-needed 24-hour limits
+const LOG_DAYS_KEPT = 2;
+
+// A dose logged while offline, waiting to be written
+export interface PendingDoseLog {
+  userId: string;
+  medicationId: string;
+  logDate: string;
+  dose: DoseRef;
+  status: DatabaseMedicationLog['status'];
+  loggedAt: string; // When the user acted; used to settle conflicts with other devices
+}
+
+export interface OfflineMutation {
+  id: string;
+  type: 'log_dose';
+  payload: PendingDoseLog;
+  createdAt: string;
+  attempts: number; // Failed replays that weren't connection errors
+}
+
+const getDoseSlot = (log: PendingDoseLog): string => {
+  return `${log.userId}:${log.medicationId}:${log.logDate}:${log.dose.doseIndex}`;
+};
+
+export const offlineService = {
+  // Supabase reports a dropped connection as a fetch failure rather than an HTTP status
+  isNetworkError(error: any): boolean {
+    const message = `${error?.message || ''} ${error?.details || ''} ${error || ''}`;
+    return /network request failed|failed to fetch|fetch failed|network ?error|timed? ?out|offline/i.test(message);
+  },
+
+  // Copy of the user's active medications, read by medicationRepository when offline
+  async saveMedications(userId: string, medications: DatabaseMedication[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(`${MEDICATIONS_KEY}:${userId}`, JSON.stringify(medications));
+    } catch (error) {
+      console.error('❌ Error saving medications offline:', error);
+    }
+  },
+
+  async getSavedMedications(userId: string): Promise<DatabaseMedication[]> {
+    const saved = await AsyncStorage.getItem(`${MEDICATIONS_KEY}:${userId}`);
+    return saved ? JSON.parse(saved) : [];
+  },
+
+  async getSavedLogs(userId: string): Promise<{ [logDate: string]: DatabaseMedicationLog[] }> {
+    const saved = await AsyncStorage.getItem(`${LOGS_KEY}:${userId}`);
+    return saved ? JSON.parse(saved) : {};
+  },
+
+  async saveLogs(userId: string, logDate: string, logs: DatabaseMedicationLog[]): Promise<void> {
+    try {
+      // Only the latest days are kept; older days are only needed online
+      const days = { ...(await this.getSavedLogs(userId)), [logDate]: logs };
+      const kept = Object.keys(days).sort().slice(-LOG_DAYS_KEPT);
+      await AsyncStorage.setItem(`${LOGS_KEY}:${userId}`, JSON.stringify(
+        Object.fromEntries(kept.map(date => [date, days[date]]))
+      ));
+    } catch (error) {
+      console.error('❌ Error saving logs offline:', error);
+    }
+  },
+
+  // Saved logs for a date with queued ones laid over them
+  async getLogs(userId: string, logDate: string): Promise<DatabaseMedicationLog[]> {
+    const saved = await this.getSavedLogs(userId);
+    return this.withPendingLogs(userId, logDate, saved[logDate] || []);
+  },
+
+  // Queued logs replace any log for the same dose, so the screen shows what the user did
+  async withPendingLogs(userId: string, logDate: string, logs: DatabaseMedicationLog[]): Promise<DatabaseMedicationLog[]> {
+    const pending = (await this.getQueue())
+      .map(mutation => mutation.payload)
+      .filter(log => log.userId === userId && log.logDate === logDate);
+    if (pending.length === 0) return logs;
+
+    const isPending = (log: DatabaseMedicationLog) =>
+      pending.some(item => item.medicationId === log.medication_id && item.dose.doseIndex === (log.dose_index ?? 0));
+
+    return [
+      ...logs.filter(log => !isPending(log)),
+      ...pending.map(item => ({
+        id: `pending:${getDoseSlot(item)}`,
+        medication_id: item.medicationId,
+        user_id: item.userId,
+        log_date: item.logDate,
+        dose_index: item.dose.doseIndex,
+        scheduled_time: item.dose.scheduledTime,
+        status: item.status,
+        logged_at: item.loggedAt,
+      })),
+    ];
+  },
+
+  async getQueue(): Promise<OfflineMutation[]> {
+    try {
+      const saved = await AsyncStorage.getItem(QUEUE_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('❌ Error reading offline queue:', error);
+      return [];
+    }
+  },
+
+  async saveQueue(queue: OfflineMutation[]): Promise<void> {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  },
+
+  // A newer log for the same dose replaces a queued one; only the latest intent is sent
+  async enqueueDoseLog(log: PendingDoseLog): Promise<void> {
+    const queue = (await this.getQueue()).filter(mutation => getDoseSlot(mutation.payload) !== getDoseSlot(log));
+    queue.push({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      type: 'log_dose',
+      payload: log,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    });
+    await this.saveQueue(queue);
+    console.log(`📴 Dose log queued (${queue.length} waiting to sync)`);
+  },
+
+  async getPendingCount(): Promise<number> {
+    return (await this.getQueue()).length;
+  },
+};
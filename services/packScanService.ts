@@ -0,0 +1,165 @@
+// services/packScanService.ts - Read the codes on a medicine pack: EAN/UPC barcodes and GS1 DataMatrix
+// GS1 codes carry application identifiers (AIs): 01 GTIN, 17 expiry (YYMMDD), 10 lot and 21 serial.
+// GTINs are looked up in constants/PackCatalog.ts to name the medicine.
+import { Medication } from '../constants/Types';
+import { PACK_CATALOG, PackProduct } from '../constants/PackCatalog';
+
+// What a pack scan found; any field can be missing
+export interface PackScan {
+  raw: string;
+  gtin: string | null; // 14 digits, check digit verified
+  expiryDate: string | null; // YYYY-MM-DD
+  lotNumber: string | null;
+  serialNumber: string | null;
+  product: PackProduct | null; // From the local catalog
+}
+
+// Separates variable-length fields (FNC1 as the scanner reports it)
+const GS = '\x1d';
+// e.g. ]d2 for GS1 DataMatrix, ]C1 for GS1-128, added by some scanners
+const SYMBOLOGY_PREFIX = /^\][A-Za-z]\d/;
+
+// AIs with a fixed length; everything after the AI up to that length is the value
+const FIXED_LENGTH_AIS: { [ai: string]: number } = {
+  '00': 18, '01': 14, '02': 14, '11': 6, '12': 6, '13': 6, '15': 6, '16': 6, '17': 6, '20': 2,
+};
+
+// Variable-length AIs found on medicine packs, with their maximum length; they run to a GS or the end
+const VARIABLE_LENGTH_AIS: { [ai: string]: number } = {
+  '10': 20, '21': 20, '22': 20, '30': 8, '37': 8, '240': 30, '241': 30,
+  '710': 20, '711': 20, '712': 20, '713': 20, '714': 20, '715': 20,
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// UPC-E is UPC-A with zeros left out; put them back (number system, six digits, check digit)
+const expandUpcE = (code: string): string => {
+  const digits = code.slice(1, 7);
+  const last = digits[5];
+  let body: string;
+  if ('012'.includes(last)) body = digits.slice(0, 2) + last + '0000' + digits.slice(2, 5);
+  else if (last === '3') body = digits.slice(0, 3) + '00000' + digits.slice(3, 5);
+  else if (last === '4') body = digits.slice(0, 4) + '00000' + digits[4];
+  else body = digits.slice(0, 5) + '0000' + last;
+  return code[0] + body + code[7];
+};
+
+export const packScanService = {
+  // Mod-10 check digit used by every GTIN length (8, 12, 13 and 14 digits)
+  isValidGtin(code: string): boolean {
+    if (!/^(\d{8}|\d{12,14})$/.test(code)) return false;
+    const digits = code.split('').map(Number);
+    const check = digits.pop()!;
+    const sum = digits.reverse().reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+    return (10 - (sum % 10)) % 10 === check;
+  },
+
+  // EAN-8, UPC-A and EAN-13 as a 14-digit GTIN; null when the check digit is wrong
+  toGtin14(code: string): string | null {
+    return this.isValidGtin(code) ? code.padStart(14, '0') : null;
+  },
+
+  // YYMMDD to a date; day 00 means the end of the month
+  parseExpiry(value: string): string | null {
+    if (!/^\d{6}$/.test(value)) return null;
+    const year = 2000 + Number(value.slice(0, 2));
+    const month = Number(value.slice(2, 4));
+    const day = Number(value.slice(4, 6));
+    if (month < 1 || month > 12) return null;
+
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    if (day > lastDay) return null;
+    return `${year}-${pad(month)}-${pad(day || lastDay)}`;
+  },
+
+  // Split a GS1 element string into its fields, keyed by AI. Takes the raw form with GS separators
+  // and the printed form, "(01)…(17)…". Reading stops at an AI it doesn't know the length of.
+  parseElementString(data: string): { [ai: string]: string } | null {
+    const text = data.trim().replace(SYMBOLOGY_PREFIX, '');
+    const fields: { [ai: string]: string } = {};
+
+    if (text.startsWith('(')) {
+      const pattern = /\((\d{2,4})\)([^(]*)/g;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(text))) {
+        fields[match[1]] = match[2].split(GS).join('').trim();
+      }
+      return Object.keys(fields).length > 0 ? fields : null;
+    }
+
+    let position = 0;
+    while (position < text.length) {
+      if (text[position] === GS) {
+        position++;
+        continue;
+      }
+
+      const twoDigits = text.slice(position, position + 2);
+      const fixedLength = FIXED_LENGTH_AIS[twoDigits];
+      if (fixedLength) {
+        const value = text.slice(position + 2, position + 2 + fixedLength);
+        if (value.length !== fixedLength) return null;
+        fields[twoDigits] = value;
+        position += 2 + fixedLength;
+        continue;
+      }
+
+      const threeDigits = text.slice(position, position + 3);
+      const ai = VARIABLE_LENGTH_AIS[twoDigits] ? twoDigits : VARIABLE_LENGTH_AIS[threeDigits] ? threeDigits : null;
+      if (!ai) break;
+
+      const start = position + ai.length;
+      const separator = text.indexOf(GS, start);
+      const end = Math.min(separator === -1 ? text.length : separator, start + VARIABLE_LENGTH_AIS[ai]);
+      fields[ai] = text.slice(start, end);
+      position = end;
+    }
+
+    return Object.keys(fields).length > 0 ? fields : null;
+  },
+
+  lookup(gtin: string | null): PackProduct | null {
+    return (gtin && PACK_CATALOG[gtin]) || null;
+  },
+
+  // Read a scanned code. The barcode type from the camera is only needed to expand UPC-E.
+  // Only digits at a GTIN length are a plain barcode; a GS1 code can be all digits too,
+  // e.g. a numeric lot at the end needs no separator.
+  parse(data: string, barcodeType: string = ''): PackScan {
+    const raw = data.trim();
+    const scan: PackScan = { raw, gtin: null, expiryDate: null, lotNumber: null, serialNumber: null, product: null };
+
+    if (/^(\d{8}|\d{12,14})$/.test(raw)) {
+      const code = /upc_?e/i.test(barcodeType) && raw.length === 8 ? expandUpcE(raw) : raw;
+      scan.gtin = this.toGtin14(code);
+    } else {
+      const fields = this.parseElementString(raw);
+      if (fields) {
+        scan.gtin = fields['01'] ? this.toGtin14(fields['01']) : null;
+        scan.expiryDate = fields['17'] ? this.parseExpiry(fields['17']) : null;
+        scan.lotNumber = fields['10'] || null;
+        scan.serialNumber = fields['21'] || null;
+      }
+    }
+
+    scan.product = this.lookup(scan.gtin);
+    return scan;
+  },
+
+  // Whether the scan found anything to fill in
+  hasPackData(scan: PackScan): boolean {
+    return !!(scan.gtin || scan.expiryDate || scan.lotNumber);
+  },
+
+  // The medication a scanned pack restocks: one saved with the same GTIN, else one with the
+  // catalog name (the same strength first)
+  findMedication<T extends Medication>(scan: PackScan, medications: T[]): T | null {
+    const byGtin = scan.gtin ? medications.find(med => med.gtin === scan.gtin) : undefined;
+    if (byGtin) return byGtin;
+    if (!scan.product) return null;
+
+    const name = scan.product.medication_name.toLowerCase();
+    const sameName = medications.filter(med => med.medication_name.trim().toLowerCase() === name);
+    return sameName.find(med => med.dosage === scan.product!.dosage) || sameName[0] || null;
+  },
+};
@@ -0,0 +1,43 @@
+// services/pharmacyAdapter.ts - The pharmacy refill requests are sent to. Swap in a real integration with
+// setPharmacyAdapter; until then requests go to the local stand-in from services/mockPharmacy.ts.
+import { RefillStatus } from '../constants/Types';
+import { createMockPharmacy } from './mockPharmacy';
+
+// What the pharmacy is asked to fill
+export interface PharmacyRefillOrder {
+  refillId: string;
+  medicationId: string;
+  medicationName: string;
+  quantity: number;
+  requestedAt: string;
+}
+
+// Where the pharmacy has got to with an order; lot details come with 'ready'
+export interface PharmacyRefillUpdate {
+  status: Exclude<RefillStatus, 'picked_up'>;
+  lot_number?: string | null;
+  expiry_date?: string | null;
+}
+
+export interface PharmacyAdapter {
+  name: string;
+  // Days the pharmacy needs to have a refill ready; refill reminders go out this long before runout
+  leadTimeDays: number;
+  // Returns the pharmacy's reference for the order
+  submitRefill(order: PharmacyRefillOrder): Promise<string>;
+  // null when the pharmacy doesn't know the reference
+  getRefillStatus(reference: string): Promise<PharmacyRefillUpdate | null>;
+  cancelRefill(reference: string): Promise<void>;
+}
+
+let pharmacyAdapter: PharmacyAdapter | null = null;
+
+export const getPharmacyAdapter = (): PharmacyAdapter => {
+  if (!pharmacyAdapter) pharmacyAdapter = createMockPharmacy();
+  return pharmacyAdapter;
+};
+
+// Pass null to go back to the local stand-in
+export const setPharmacyAdapter = (adapter: PharmacyAdapter | null): void => {
+  pharmacyAdapter = adapter;
+};
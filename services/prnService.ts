@@ -0,0 +1,219 @@
+// services/prnService.ts - As-needed (PRN) doses: logging, interval and daily limits, usage trends
+import { supabase } from './supabaseClient';
+import { doseScheduleService } from './doseScheduleService';
+import { doseLogService, DoseLogResult } from './doseLogService';
+import { dateTimeService } from './dateTimeService';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const TREND_DAYS = 7;
+
+// The medication fields needed to check a PRN dose
+export interface PrnMedication {
+  id: string;
+  medication_name: string;
+  prn_min_interval_hours?: number | null;
+  prn_max_daily_doses?: number | null;
+}
+
+export interface PrnDoseCheck {
+  dosesInLast24h: number;
+  lastTakenAt: Date | null;
+  nextAllowedAt: Date | null; // Earliest time a dose stays within both limits; null when allowed now
+  warnings: string[]; // Limits a dose taken now would break
+}
+
+export interface PrnUsage {
+  medicationId: string;
+  medicationName: string;
+  dailyCounts: { date: string; doses: number }[]; // Last 7 days, oldest first
+  dosesThisWeek: number;
+  dosesLastWeek: number;
+  daysAtLimit: number; // Days this week the daily maximum was reached
+  maxDailyDoses: number | null;
+  lastTakenAt: string | null;
+}
+
+const formatClock = (date: Date): string => {
+  const [hour, minute] = dateTimeService.getTimeString(date).split(':').map(Number);
+  const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+  return `${displayHour}:${String(minute).padStart(2, '0')} ${hour >= 12 ? 'PM' : 'AM'}`;
+};
+
+const formatHoursAgo = (date: Date, now: Date = new Date()): string => {
+  const minutes = Math.max(0, Math.round((now.getTime() - date.getTime()) / 60000));
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`;
+};
+
+export const prnService = {
+  formatHoursAgo,
+
+  // e.g. "At least 4h apart • Max 3 per 24h"; null when no limits are set
+  describeLimits(medication: PrnMedication): string | null {
+    const limits = [
+      medication.prn_min_interval_hours ? `At least ${medication.prn_min_interval_hours}h apart` : null,
+      medication.prn_max_daily_doses ? `Max ${medication.prn_max_daily_doses} per 24h` : null,
+    ].filter(Boolean);
+    return limits.length > 0 ? limits.join(' • ') : null;
+  },
+
+  // Times of doses taken in the last `hours`, newest first. Read through doseLogService like
+  // logDose, so doses still queued offline count toward the limits. Throws when the logs can't
+  // be read: no doses found isn't the same as none taken.
+  async getRecentDoses(userId: string, medicationId: string, hours: number = 24): Promise<Date[]> {
+    const since = Date.now() - hours * HOUR_MS;
+    const today = dateTimeService.getDateString();
+    const days = Math.ceil(hours / 24);
+
+    const doses: Date[] = [];
+    for (let i = days; i >= 0; i--) {
+      const logs = await doseLogService.getDoseLogsForDate(userId, dateTimeService.addDays(today, -i));
+      Object.values(logs)
+        .filter(log => log.medication_id === medicationId && log.status === 'taken' && log.logged_at)
+        .map(log => new Date(log.logged_at))
+        .filter(taken => taken.getTime() >= since)
+        .forEach(taken => doses.push(taken));
+    }
+
+    return doses.sort((a, b) => b.getTime() - a.getTime());
+  },
+
+  // Check a dose taken now against the minimum interval and the 24-hour maximum
+  checkDose(medication: PrnMedication, recentDoses: Date[], now: Date = new Date()): PrnDoseCheck {
+    const inWindow = recentDoses
+      .filter(taken => now.getTime() - taken.getTime() < DAY_MS)
+      .sort((a, b) => b.getTime() - a.getTime());
+    const lastTakenAt = inWindow[0] || null;
+    const minInterval = medication.prn_min_interval_hours || 0;
+    const maxDoses = medication.prn_max_daily_doses || 0;
+
+    const warnings: string[] = [];
+    let nextAllowed = 0;
+
+    if (lastTakenAt && minInterval > 0) {
+      const intervalEnds = lastTakenAt.getTime() + minInterval * HOUR_MS;
+      if (intervalEnds > now.getTime()) {
+        warnings.push(
+          `Your last dose was ${formatHoursAgo(lastTakenAt, now)}. ` +
+          `${medication.medication_name} should be taken at least ${minInterval} hours apart.`
+        );
+        nextAllowed = Math.max(nextAllowed, intervalEnds);
+      }
+    }
+
+    if (maxDoses > 0 && inWindow.length >= maxDoses) {
+      warnings.push(
+        `You've already taken ${inWindow.length} dose${inWindow.length === 1 ? '' : 's'} in the last 24 hours ` +
+        `(maximum ${maxDoses}).`
+      );
+      // The oldest dose counting toward the limit has to drop out of the window
+      nextAllowed = Math.max(nextAllowed, inWindow[maxDoses - 1].getTime() + DAY_MS);
+    }
+
+    return {
+      dosesInLast24h: inWindow.length,
+      lastTakenAt,
+      nextAllowedAt: nextAllowed > 0 ? new Date(nextAllowed) : null,
+      warnings,
+    };
+  },
+
+  // Short status line for the dose card, e.g. "2 of 3 in 24h • Next dose after 4:30 PM"
+  describeCheck(medication: PrnMedication, check: PrnDoseCheck): string {
+    const parts = [
+      medication.prn_max_daily_doses
+        ? `${check.dosesInLast24h} of ${medication.prn_max_daily_doses} in 24h`
+        : `${check.dosesInLast24h} in 24h`,
+      check.lastTakenAt ? `Last ${formatHoursAgo(check.lastTakenAt)}` : null,
+      check.nextAllowedAt ? `Next dose after ${formatClock(check.nextAllowedAt)}` : null,
+    ].filter(Boolean);
+    return parts.join(' • ');
+  },
+
+  // Record a dose taken now as the next dose slot of the day. Logs still queued offline take up
+  // their slots too, and without a connection the dose is queued like any other.
+  async logDose(userId: string, medicationId: string): Promise<DoseLogResult> {
+    const today = dateTimeService.getDateString();
+
+    const logs = Object.values(await doseLogService.getDoseLogsForDate(userId, today))
+      .filter(log => log.medication_id === medicationId);
+    const doseIndex = logs.reduce((next, log) => Math.max(next, (log.dose_index ?? 0) + 1), 0);
+
+    const result = await doseLogService.logDose(userId, medicationId, today, { doseIndex, scheduledTime: null }, 'taken');
+    console.log(`💊 As-needed dose logged (${doseIndex + 1} today)`);
+    return result;
+  },
+
+  // Doses per day of each active as-needed medication, this week against the week before
+  async getUsageTrends(userId: string): Promise<PrnUsage[]> {
+    try {
+      const { data: medications, error } = await supabase
+        .from('medications')
+        .select('id, medication_name, frequency, prn_max_daily_doses')
+        .eq('user_id', userId)
+        .eq('is_active', true);
+
+      if (error) throw error;
+
+      const prnMeds = (medications || []).filter(med => doseScheduleService.isAsNeeded(med));
+      if (prnMeds.length === 0) return [];
+
+      const today = dateTimeService.getDateString();
+      const { data: logs, error: logsError } = await supabase
+        .from('medication_logs')
+        .select('medication_id, log_date, logged_at')
+        .eq('user_id', userId)
+        .eq('status', 'taken')
+        .in('medication_id', prnMeds.map(med => med.id))
+        .gte('log_date', dateTimeService.addDays(today, -(TREND_DAYS * 2 - 1)));
+
+      if (logsError) throw logsError;
+
+      return prnMeds.map(med => {
+        const medLogs = (logs || []).filter(log => log.medication_id === med.id);
+        const countOn = (date: string) => medLogs.filter(log => log.log_date === date).length;
+
+        const dailyCounts = Array.from({ length: TREND_DAYS }, (_, i) => {
+          const date = dateTimeService.addDays(today, i - (TREND_DAYS - 1));
+          return { date, doses: countOn(date) };
+        });
+        const dosesThisWeek = dailyCounts.reduce((sum, day) => sum + day.doses, 0);
+        const lastTakenAt = medLogs.reduce<string | null>(
+          (latest, log) => (!latest || log.logged_at > latest ? log.logged_at : latest),
+          null
+        );
+
+        return {
+          medicationId: med.id,
+          medicationName: med.medication_name,
+          dailyCounts,
+          dosesThisWeek,
+          dosesLastWeek: medLogs.length - dosesThisWeek,
+          daysAtLimit: med.prn_max_daily_doses
+            ? dailyCounts.filter(day => day.doses >= med.prn_max_daily_doses).length
+            : 0,
+          maxDailyDoses: med.prn_max_daily_doses ?? null,
+          lastTakenAt,
+        };
+      });
+    } catch (error) {
+      console.error('Error getting PRN usage trends:', error);
+      return [];
+    }
+  },
+
+  // One-line summary for the AI companion and insights
+  describeUsage(usage: PrnUsage): string {
+    const trend = usage.dosesThisWeek > usage.dosesLastWeek
+      ? 'up from'
+      : usage.dosesThisWeek < usage.dosesLastWeek ? 'down from' : 'same as';
+    const parts = [
+      `${usage.dosesThisWeek} doses in the last 7 days (${trend} ${usage.dosesLastWeek} the week before)`,
+      usage.daysAtLimit > 0 ? `hit the daily maximum on ${usage.daysAtLimit} day${usage.daysAtLimit === 1 ? '' : 's'}` : null,
+      usage.lastTakenAt ? `last taken ${formatHoursAgo(new Date(usage.lastTakenAt))}` : null,
+    ].filter(Boolean);
+    return parts.join(', ');
+  },
+};
@@ -1,5 +1,8 @@
 // services/profileService.ts - Updated with AI companion support
 import { supabase } from './supabaseClient';
+import { dateTimeService } from './dateTimeService';
+import { DailyRoutine } from './doseScheduleService';
+import { QuietHours, SnoozeOption, NotificationPreferences } from './notificationService';
 
 export interface UserProfile {
   id: string;
@@ -10,6 +13,14 @@ export interface UserProfile {
   role_selected_at?: string;
   connection_code?: string;
   ai_companion_enabled?: boolean; // Added AI companion field
+  timezone?: string | null; // IANA zone (e.g. 'Asia/Manila') for day boundaries and reminders
+  daily_routine?: Partial<DailyRoutine> | null; // Wake, meal and bed times; defaults fill any gaps
+  quiet_hours?: QuietHours | null; // Low-priority reminders wait until these end; off when empty
+  notifications_enabled?: boolean | null; // Reminders on/off; on when empty
+  sound_enabled?: boolean | null;
+  vibration_enabled?: boolean | null;
+  snooze_option?: SnoozeOption | null; // Minutes, or 'home'; the default when empty
+  max_snoozes?: number | null; // Snoozes per dose before it counts as missed
   created_at: string;
   updated_at: string;
 }
@@ -41,6 +52,23 @@ export const profileService = {
     }
   },
 
+  // Just the notification preferences, for when notifications are handled before the profile loads
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences | null> {
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('notifications_enabled, sound_enabled, vibration_enabled, snooze_option, max_snoozes')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error getting notification preferences:', error);
+      return null;
+    }
+  },
+
   // Create profile for user
   async createProfile(userId: string): Promise<UserProfile | null> {
     try {
@@ -52,6 +80,7 @@ export const profileService = {
           user_id: userId,
           display_name: randomUsername,
           ai_companion_enabled: true, // Default to enabled
+          timezone: dateTimeService.getDeviceTimeZone(),
         })
         .select()
         .single();
@@ -65,7 +94,7 @@ export const profileService = {
   },
 
   // Update profile
-  async updateProfile(updates: Partial<Pick<UserProfile, 'display_name' | 'avatar_url' | 'role' | 'ai_companion_enabled'>>): Promise<UserProfile | null> {
+  async updateProfile(updates: Partial<Pick<UserProfile, 'display_name' | 'avatar_url' | 'role' | 'ai_companion_enabled' | 'timezone' | 'daily_routine' | 'quiet_hours' | 'notifications_enabled' | 'sound_enabled' | 'vibration_enabled' | 'snooze_option' | 'max_snoozes'>>): Promise<UserProfile | null> {
     try {
       const { data: { session } } = await supabase.auth.getSession();
       if (!session?.user?.id) return null;
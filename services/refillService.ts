@@ -0,0 +1,227 @@
+// services/refillService.ts - Refill requests from asking the pharmacy through to pickup, when the new pack joins the stock lots
+import { supabase } from './supabaseClient';
+import { RefillRequest, RefillStatus } from '../constants/Types';
+import { getPharmacyAdapter } from './pharmacyAdapter';
+import { stockLotService } from './stockLotService';
+
+export const OPEN_REFILL_STATUSES: RefillStatus[] = ['requested', 'acknowledged', 'ready'];
+
+export const REFILL_STATUS_LABELS: { [status in RefillStatus]: string } = {
+  requested: 'Requested',
+  acknowledged: 'Being prepared',
+  ready: 'Ready for pickup',
+  picked_up: 'Picked up',
+  cancelled: 'Cancelled',
+};
+
+// Steps a refill can move to from each status; picked up and cancelled are final
+const TRANSITIONS: { [status in RefillStatus]: RefillStatus[] } = {
+  requested: ['acknowledged', 'ready', 'picked_up', 'cancelled'],
+  acknowledged: ['ready', 'picked_up', 'cancelled'],
+  ready: ['picked_up', 'cancelled'],
+  picked_up: [],
+  cancelled: [],
+};
+
+const TIMESTAMP_COLUMNS: { [status in RefillStatus]?: keyof RefillRequest } = {
+  acknowledged: 'acknowledged_at',
+  ready: 'ready_at',
+  picked_up: 'picked_up_at',
+  cancelled: 'cancelled_at',
+};
+
+// A refill has to ask for some of the package unit; null, 0 and NaN are a missing pack size
+const isValidQuantity = (quantity: number | null | undefined): quantity is number =>
+  typeof quantity === 'number' && Number.isFinite(quantity) && quantity > 0;
+
+// Rows from before the lifecycle say 'pending'
+const normalizeRefill = (row: any): RefillRequest => ({
+  ...row,
+  status: row.status === 'pending' ? 'requested' : row.status,
+});
+
+export const refillService = {
+  canTransition(from: RefillStatus, to: RefillStatus): boolean {
+    return TRANSITIONS[from].includes(to);
+  },
+
+  isOpen(refill: RefillRequest): boolean {
+    return OPEN_REFILL_STATUSES.includes(refill.status);
+  },
+
+  // Record the request and send it to the pharmacy. If the pharmacy can't be reached the request
+  // stays 'requested' without a reference and syncWithPharmacy sends it later.
+  async requestRefill(
+    userId: string,
+    medication: { id: string; medication_name: string },
+    quantity: number
+  ): Promise<RefillRequest> {
+    if (!isValidQuantity(quantity)) {
+      throw new Error(`A refill of ${medication.medication_name} needs a quantity above 0, not ${quantity}`);
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('refill_requests')
+      .insert({
+        medication_id: medication.id,
+        user_id: userId,
+        quantity_requested: quantity,
+        status: 'requested',
+        requested_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return this.submitToPharmacy(normalizeRefill(data), medication.medication_name);
+  },
+
+  async submitToPharmacy(refill: RefillRequest, medicationName: string): Promise<RefillRequest> {
+    const pharmacy = getPharmacyAdapter();
+    try {
+      const reference = await pharmacy.submitRefill({
+        refillId: refill.id,
+        medicationId: refill.medication_id,
+        medicationName,
+        quantity: refill.quantity_requested,
+        requestedAt: refill.requested_at,
+      });
+
+      const changes = { pharmacy_name: pharmacy.name, pharmacy_reference: reference, updated_at: new Date().toISOString() };
+      const { error } = await supabase
+        .from('refill_requests')
+        .update(changes)
+        .eq('id', refill.id);
+
+      if (error) throw error;
+      console.log(`💊 Refill ${refill.id} sent to ${pharmacy.name}`);
+      return { ...refill, ...changes };
+    } catch (error) {
+      console.error('❌ Error sending refill to pharmacy:', error);
+      return refill;
+    }
+  },
+
+  // Open refills, newest first
+  async getOpenRefills(userId: string): Promise<RefillRequest[]> {
+    const { data, error } = await supabase
+      .from('refill_requests')
+      .select('*')
+      .eq('user_id', userId)
+      .in('status', [...OPEN_REFILL_STATUSES, 'pending'])
+      .order('requested_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(normalizeRefill);
+  },
+
+  // Move a refill along its lifecycle, stamping when it got there. Throws on a step the lifecycle doesn't allow.
+  async updateStatus(
+    refill: RefillRequest,
+    status: RefillStatus,
+    changes: Partial<RefillRequest> = {}
+  ): Promise<RefillRequest> {
+    if (!this.canTransition(refill.status, status)) {
+      throw new Error(`Refill ${refill.id} can't go from ${refill.status} to ${status}`);
+    }
+
+    const now = new Date().toISOString();
+    const timestampColumn = TIMESTAMP_COLUMNS[status];
+    const update: Partial<RefillRequest> = {
+      ...changes,
+      status,
+      updated_at: now,
+      ...(timestampColumn ? { [timestampColumn]: now } : {}),
+    };
+
+    const { error } = await supabase
+      .from('refill_requests')
+      .update(update)
+      .eq('id', refill.id);
+
+    if (error) throw error;
+    return { ...refill, ...update };
+  },
+
+  // Ask the pharmacy where each open refill has got to and record any progress. Sends requests
+  // that never reached it. Returns the refills still open afterwards.
+  async syncWithPharmacy(userId: string, medicationNames: { [medicationId: string]: string } = {}): Promise<RefillRequest[]> {
+    const pharmacy = getPharmacyAdapter();
+    const refills = await this.getOpenRefills(userId);
+
+    const synced: RefillRequest[] = [];
+    for (const refill of refills) {
+      if (!refill.pharmacy_reference) {
+        synced.push(await this.submitToPharmacy(refill, medicationNames[refill.medication_id] || 'Medication'));
+        continue;
+      }
+
+      try {
+        const update = await pharmacy.getRefillStatus(refill.pharmacy_reference);
+        if (!update || update.status === refill.status || !this.canTransition(refill.status, update.status)) {
+          synced.push(refill);
+          continue;
+        }
+
+        const { status, ...details } = update;
+        synced.push(await this.updateStatus(refill, status, details));
+      } catch (error) {
+        console.error('❌ Error syncing refill with pharmacy:', error);
+        synced.push(refill);
+      }
+    }
+
+    return synced.filter(refill => this.isOpen(refill));
+  },
+
+  async cancelRefill(refill: RefillRequest): Promise<RefillRequest> {
+    if (refill.pharmacy_reference) {
+      try {
+        await getPharmacyAdapter().cancelRefill(refill.pharmacy_reference);
+      } catch (error) {
+        console.error('❌ Error cancelling refill with pharmacy:', error);
+      }
+    }
+    return this.updateStatus(refill, 'cancelled');
+  },
+
+  // The status changes first so a second tap can't add the same pack twice. If the pack can't be
+  // added the refill goes back to its previous status, so picking it up can be tried again. The pack
+  // joins the medication's stock as a lot with the lot number and expiry the pharmacy dispensed.
+  async markPickedUp(refill: RefillRequest): Promise<RefillRequest> {
+    if (!isValidQuantity(refill.quantity_requested)) {
+      throw new Error(`Refill ${refill.id} has no quantity to add to stock`);
+    }
+
+    const pickedUp = await this.updateStatus(refill, 'picked_up');
+
+    try {
+      const { data: medication, error } = await supabase
+        .from('medications')
+        .select('id, current_quantity, expiry_date')
+        .eq('id', refill.medication_id)
+        .single();
+
+      if (error) throw error;
+
+      await stockLotService.addLot(refill.user_id, medication, {
+        quantity: refill.quantity_requested,
+        expiry_date: refill.expiry_date,
+        lot_number: refill.lot_number,
+      });
+    } catch (error) {
+      const { error: rollbackError } = await supabase
+        .from('refill_requests')
+        .update({ status: refill.status, picked_up_at: null, updated_at: new Date().toISOString() })
+        .eq('id', refill.id);
+
+      if (rollbackError) console.error('❌ Error reopening refill after a failed pickup:', rollbackError);
+      throw error;
+    }
+
+    return pickedUp;
+  },
+};
@@ -0,0 +1,116 @@
+// services/reminderReconciliationService.ts - Keep the OS notification queue in step with the dose schedule
+// Reminders can go stale when medications are edited on another device or the app is reinstalled,
+// so compare what should be queued with what is, and fix the difference.
+import { supabase } from './supabaseClient';
+import { notificationService, RemindableMedication } from './notificationService';
+import { escalationService } from './escalationService';
+
+// Reminder types rebuilt from the schedule; snoozes are one-off and left to fire
+const SCHEDULED_TYPES = ['daily_reminder', 'smart_reminder', 'rolling_reminder', 'group_reminder'];
+
+export interface ReconcileReport {
+  medications: number; // Active medications checked
+  added: number;
+  removed: number;
+  kept: number;
+  followUps: number; // Follow-up reminders queued for unlogged doses
+  changes: string[]; // e.g. "Amoxicillin: 2 added, 1 removed"
+}
+
+export const reminderReconciliationService = {
+  // Compare every active medication's expected reminders, grouped where doses are due
+  // together, with the queue and add or remove until they match. Pass the active medications when the caller already has them.
+  async reconcile(userId: string, medications?: RemindableMedication[]): Promise<ReconcileReport | null> {
+    try {
+      let activeMeds = medications;
+      if (!activeMeds) {
+        const { data, error } = await supabase
+          .from('medications')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('is_active', true);
+
+        if (error) throw error;
+        activeMeds = data || [];
+      }
+
+      const queue = await notificationService.getScheduledNotifications();
+      const activeIds = new Set(activeMeds.map(med => med.id));
+      const report: ReconcileReport = { medications: activeMeds.length, added: 0, removed: 0, kept: 0, followUps: 0, changes: [] };
+
+      // Anything left for a deleted, paused or completed medication goes, snoozes included
+      const orphaned = queue.filter(notification => {
+        const medicationId = notification.content.data?.medicationId as string | undefined;
+        return medicationId && !activeIds.has(medicationId);
+      });
+      for (const notification of orphaned) {
+        await notificationService.cancelNotification(notification.identifier);
+      }
+      if (orphaned.length > 0) {
+        report.removed += orphaned.length;
+        report.changes.push(`${orphaned.length} reminder${orphaned.length === 1 ? '' : 's'} for inactive medications removed`);
+      }
+
+      // Doses due together share one reminder, so the queue is matched as a whole.
+      // With notifications turned off, nothing should be queued.
+      const expectedRequests = notificationService.getSettings().notificationsEnabled
+        ? notificationService.groupReminders(activeMeds.flatMap(med => notificationService.getExpectedReminders(med)))
+        : [];
+      const expected = new Map(expectedRequests.map(request => [request.content.data?.reminderKey as string, request]));
+      const queued = queue.filter(notification =>
+        !orphaned.includes(notification) &&
+        SCHEDULED_TYPES.includes(notification.content.data?.type as string)
+      );
+
+      // Keep one queued copy of each expected reminder; duplicates, untagged and outdated ones go
+      const matched = new Set<string>();
+      const removed: Record<string, any>[] = [];
+      for (const notification of queued) {
+        const key = notification.content.data?.reminderKey as string | undefined;
+        if (key && expected.has(key) && !matched.has(key)) {
+          matched.add(key);
+          continue;
+        }
+        await notificationService.cancelNotification(notification.identifier);
+        removed.push(notification.content.data || {});
+      }
+
+      const missing = [...expected.entries()].filter(([key]) => !matched.has(key)).map(([, request]) => request);
+      await notificationService.scheduleRequests(missing);
+
+      report.kept += matched.size;
+      report.removed += removed.length;
+      report.added += missing.length;
+
+      // e.g. "Amoxicillin: 2 added, 1 removed" or "Morning meds (3): 1 added, 0 removed"
+      const counts = new Map<string, { added: number; removed: number }>();
+      const count = (data: Record<string, any>, field: 'added' | 'removed') => {
+        const label = (data.groupTitle || data.medicationName || 'Untagged reminder') as string;
+        const entry = counts.get(label) || { added: 0, removed: 0 };
+        entry[field]++;
+        counts.set(label, entry);
+      };
+      missing.forEach(request => count(request.content.data || {}, 'added'));
+      removed.forEach(data => count(data, 'removed'));
+      counts.forEach((entry, label) => report.changes.push(`${label}: ${entry.added} added, ${entry.removed} removed`));
+
+      // Follow-ups depend on which doses are logged, so they're rebuilt rather than matched
+      report.followUps = await escalationService.syncEscalations(userId, activeMeds);
+
+      console.log(`🔄 Reminders reconciled: ${report.added} added, ${report.removed} removed, ${report.kept} unchanged`);
+      report.changes.forEach(change => console.log(`   • ${change}`));
+      return report;
+    } catch (error) {
+      console.error('❌ Error reconciling reminders:', error);
+      return null;
+    }
+  },
+
+  // e.g. "All 6 reminders for 3 medications are up to date"
+  describeReport(report: ReconcileReport): string {
+    if (report.changes.length === 0) {
+      return `All ${report.kept} reminder${report.kept === 1 ? '' : 's'} for ${report.medications} medication${report.medications === 1 ? '' : 's'} are up to date.`;
+    }
+    return `Fixed ${report.added + report.removed} reminder${report.added + report.removed === 1 ? '' : 's'}:\n\n${report.changes.join('\n')}`;
+  },
+};
@@ -0,0 +1,63 @@
+// services/rollingScheduleService.ts - Interval-from-last-dose scheduling
+// Each dose taken sets when the next one is due; nights between bedtime and wake time are skipped.
+import { supabase } from './supabaseClient';
+import { doseScheduleService, DoseRef } from './doseScheduleService';
+import { dateTimeService } from './dateTimeService';
+import { notificationService } from './notificationService';
+
+export const rollingScheduleService = {
+  // A missed rolling dose would otherwise leave no reminder at all, so carry on from when it was due
+  async onDoseMissed(medicationId: string, dose: DoseRef): Promise<void> {
+    const { data: medication } = await supabase
+      .from('medications')
+      .select('next_dose_at, next_dose_index')
+      .eq('id', medicationId)
+      .single();
+
+    if (!medication?.next_dose_at || medication.next_dose_index !== dose.doseIndex) return;
+    await this.onDoseTaken(medicationId, dose, new Date(medication.next_dose_at));
+  },
+
+  // Called whenever a dose is newly logged as taken; clock-scheduled medications are ignored
+  async onDoseTaken(medicationId: string, dose: DoseRef, takenAt: Date = new Date()): Promise<void> {
+    try {
+      const { data: medication, error } = await supabase
+        .from('medications')
+        .select('*')
+        .eq('id', medicationId)
+        .single();
+
+      if (error) throw error;
+      if (!medication || !medication.is_active) return;
+
+      const regimen = doseScheduleService.getRegimenForDate(medication, dateTimeService.getDateString(takenAt));
+      if (!doseScheduleService.isRolling(medication, regimen.frequency)) return;
+
+      // A late log for an earlier dose must not pull the next reminder backwards
+      const next = doseScheduleService.getNextRollingDose(medication, dose, takenAt);
+      if (medication.next_dose_at && new Date(medication.next_dose_at).getTime() > next.at.getTime()) return;
+
+      const { data: updated, error: updateError } = await supabase
+        .from('medications')
+        .update({
+          next_dose_at: next.at.toISOString(),
+          next_dose_index: next.doseIndex,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', medicationId)
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+
+      await notificationService.scheduleRollingReminder({
+        ...updated,
+        dosage: regimen.dosage,
+        dosage_unit: regimen.dosage_unit,
+      });
+      console.log(`🔁 ${medication.medication_name}: next dose due ${dateTimeService.getDateString(next.at)} ${dateTimeService.getTimeString(next.at)}`);
+    } catch (error) {
+      console.error('Error scheduling next rolling dose:', error);
+    }
+  },
+};
@@ -0,0 +1,46 @@
+// services/routineService.ts - The user's daily routine (wake, meals, bed) and the reminders anchored to it
+import { supabase } from './supabaseClient';
+import { doseScheduleService, RoutineEvent } from './doseScheduleService';
+import { notificationService } from './notificationService';
+import { reminderReconciliationService } from './reminderReconciliationService';
+
+export const ROUTINE_EVENTS: { event: RoutineEvent; label: string; icon: string }[] = [
+  { event: 'wake', label: 'Wake up', icon: 'sunny-outline' },
+  { event: 'breakfast', label: 'Breakfast', icon: 'cafe-outline' },
+  { event: 'lunch', label: 'Lunch', icon: 'restaurant-outline' },
+  { event: 'dinner', label: 'Dinner', icon: 'pizza-outline' },
+  { event: 'bed', label: 'Bedtime', icon: 'moon-outline' },
+];
+
+export const routineService = {
+  // Rebuild reminders for every active medication timed by meals or sleep
+  async rescheduleAnchoredMedications(userId: string): Promise<number> {
+    try {
+      const { data: medications, error } = await supabase
+        .from('medications')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_active', true);
+
+      if (error) throw error;
+
+      const anchored = (medications || []).filter(med => doseScheduleService.isRoutineAnchored(med));
+      await notificationService.rescheduleMedicationReminders(anchored);
+      // Moved times may now fall in a different group
+      await reminderReconciliationService.reconcile(userId, medications || []);
+
+      console.log(`🍽️ Rescheduled ${anchored.length} routine-anchored medication(s)`);
+      return anchored.length;
+    } catch (error) {
+      console.error('Error rescheduling routine-anchored medications:', error);
+      return 0;
+    }
+  },
+
+  // e.g. "7:00 AM"
+  formatTime(time: string): string {
+    const [hour, minute] = time.split(':').map(Number);
+    const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+    return `${displayHour}:${String(minute).padStart(2, '0')} ${hour >= 12 ? 'PM' : 'AM'}`;
+  },
+};
@@ -0,0 +1,216 @@
+// services/runoutForecastService.ts - When each medication's stock runs out, and one refill reminder that far ahead
+// Forecasts walk the schedule day by day (taper steps, cycles, course ends) scaled by how much of it the
+// user actually took lately, so skipped doses push the runout date back and as-needed use is counted.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { supabase } from './supabaseClient';
+import { Medication, RefillRequest } from '../constants/Types';
+import { doseScheduleService, PackageUnit } from './doseScheduleService';
+import { dateTimeService } from './dateTimeService';
+import { notificationService } from './notificationService';
+import { medicationRepository } from './medicationRepository';
+import { refillService } from './refillService';
+import { getPharmacyAdapter } from './pharmacyAdapter';
+
+// Recent days compared against the schedule; fewer than the minimum and the schedule is used as-is
+const HISTORY_DAYS = 14;
+const MIN_HISTORY_DAYS = 7;
+// Stock lasting longer than this has no runout date
+const MAX_FORECAST_DAYS = 365;
+// Refill reminders go out at 9:00 on the refill-by day
+const REMINDER_HOUR = 9;
+// Runout date each medication's last refill reminder was for
+const REMINDERS_SENT_KEY = 'runout_reminders_sent';
+
+export interface RunoutForecast {
+  medicationId: string;
+  medicationName: string;
+  packageUnit: PackageUnit;
+  currentQuantity: number;
+  totalQuantity: number; // A full pack, what a refill asks for
+  dailyConsumption: number; // Average package units a day over the next month
+  basis: 'history' | 'schedule'; // Whether recent doses taken shaped the forecast
+  runoutDate: string | null; // First day the stock can't cover; null when it lasts past the forecast window
+  daysLeft: number | null;
+  refillByDate: string | null; // Runout date less the pharmacy's lead time
+}
+
+// A dose the user took, for the history comparison
+export interface TakenDose {
+  medication_id: string;
+  log_date: string;
+}
+
+// Package units the schedule uses on a date; as-needed doses aren't scheduled, so they count nothing
+const getScheduledUnits = (medication: Medication, dateString: string): number => {
+  const doses = doseScheduleService.getDosesForDate(medication, dateString).filter(dose => dose.scheduledTime !== null);
+  return doses.length === 0 ? 0 : doses.length * doseScheduleService.getUnitsPerDose(medication, dateString);
+};
+
+export const runoutForecastService = {
+  // Forecast one medication from its stock, schedule and the doses taken in the last HISTORY_DAYS
+  // days before today. With enough history a scheduled medication's use is scaled by the share of
+  // its schedule actually taken, and an as-needed one uses its recent daily average.
+  forecast(
+    medication: Medication,
+    takenDoses: TakenDose[],
+    leadTimeDays: number,
+    today: string = dateTimeService.getDateString()
+  ): RunoutForecast {
+    const currentQuantity = medication.current_quantity || 0;
+    const startDate = (medication.start_date || medication.created_at || today).split('T')[0];
+    const historyDays = Math.min(HISTORY_DAYS, dateTimeService.getDaysBetween(startDate, today));
+
+    let takenUnits = 0;
+    let scheduledUnits = 0;
+    if (historyDays >= MIN_HISTORY_DAYS) {
+      const historyStart = dateTimeService.addDays(today, -historyDays);
+      for (const dose of takenDoses) {
+        if (dose.medication_id === medication.id && dose.log_date >= historyStart && dose.log_date < today) {
+          takenUnits += doseScheduleService.getUnitsPerDose(medication, dose.log_date);
+        }
+      }
+      for (let i = 0; i < historyDays; i++) {
+        scheduledUnits += getScheduledUnits(medication, dateTimeService.addDays(historyStart, i));
+      }
+    }
+
+    // Nothing taken at all usually means nothing logged, so the schedule stands
+    const useHistory = takenUnits > 0;
+    const adherence = useHistory && scheduledUnits > 0 ? takenUnits / scheduledUnits : 1;
+    const asNeededDaily = useHistory && scheduledUnits === 0 ? takenUnits / historyDays : 0;
+    const unitsOn = (date: string) => getScheduledUnits(medication, date) * adherence + asNeededDaily;
+
+    let remaining = currentQuantity;
+    let runoutDate: string | null = null;
+    let monthUnits = 0;
+    for (let i = 0; i < MAX_FORECAST_DAYS; i++) {
+      if (i >= 30 && runoutDate !== null) break;
+      const date = dateTimeService.addDays(today, i);
+      const units = unitsOn(date);
+      if (i < 30) monthUnits += units;
+      if (runoutDate === null && units > 0 && remaining < units) runoutDate = date;
+      remaining -= units;
+    }
+
+    const daysLeft = runoutDate ? dateTimeService.getDaysBetween(today, runoutDate) : null;
+    return {
+      medicationId: medication.id,
+      medicationName: medication.medication_name,
+      packageUnit: doseScheduleService.getPackageUnit(medication),
+      currentQuantity,
+      totalQuantity: medication.total_quantity || 0,
+      dailyConsumption: monthUnits / 30,
+      basis: useHistory ? 'history' : 'schedule',
+      runoutDate,
+      daysLeft,
+      refillByDate: runoutDate ? dateTimeService.addDays(runoutDate, -leadTimeDays) : null,
+    };
+  },
+
+  // Forecasts for every active medication with stock tracked, soonest runout first
+  async getForecasts(userId: string): Promise<RunoutForecast[]> {
+    const today = dateTimeService.getDateString();
+    const [medications, { data: takenDoses, error }] = await Promise.all([
+      medicationRepository.listStockedMedications(userId),
+      supabase
+        .from('medication_logs')
+        .select('medication_id, log_date')
+        .eq('user_id', userId)
+        .eq('status', 'taken')
+        .gte('log_date', dateTimeService.addDays(today, -HISTORY_DAYS))
+        .lt('log_date', today),
+    ]);
+
+    if (error) throw error;
+
+    const leadTimeDays = getPharmacyAdapter().leadTimeDays;
+    return medications
+      .filter(med => med.is_active)
+      .map(med => this.forecast(med, takenDoses || [], leadTimeDays, today))
+      .sort((a, b) => (a.runoutDate || '9999-12-31').localeCompare(b.runoutDate || '9999-12-31'));
+  },
+
+  buildReminder(forecast: RunoutForecast, at: Date): Notifications.NotificationRequestInput {
+    const { soundEnabled } = notificationService.getSettings();
+    const runout = new Date(`${forecast.runoutDate}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+    return {
+      content: {
+        title: '💊 Time to order a refill',
+        body: `${forecast.medicationName} runs out around ${runout}. Request a refill now so it's ready in time.`,
+        data: {
+          type: 'runout_reminder',
+          medicationId: forecast.medicationId,
+          medicationName: forecast.medicationName,
+          runoutDate: forecast.runoutDate,
+        },
+        sound: soundEnabled ? 'default' : undefined,
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        channelId: notificationService.getChannelId(),
+        date: at,
+      },
+    };
+  },
+
+  // Keep one refill reminder per medication, due on its refill-by day (or straight away once that
+  // has passed). Nothing is sent for medications already being refilled, and a reminder that has
+  // gone out isn't repeated for the same runout. Returns the forecasts it worked from.
+  async scheduleRunoutReminders(userId: string): Promise<RunoutForecast[]> {
+    try {
+      const [forecasts, openRefills, queue, sentJson] = await Promise.all([
+        this.getForecasts(userId),
+        refillService.getOpenRefills(userId),
+        notificationService.getScheduledNotifications(),
+        AsyncStorage.getItem(REMINDERS_SENT_KEY),
+      ]);
+      const sent: { [medicationId: string]: string } = sentJson ? JSON.parse(sentJson) : {};
+      const refilling = new Set(openRefills.map((refill: RefillRequest) => refill.medication_id));
+      const leadTimeDays = getPharmacyAdapter().leadTimeDays;
+      const now = Date.now();
+      let scheduled = 0;
+
+      for (const forecast of forecasts) {
+        const queued = queue.find(item =>
+          item.content.data?.type === 'runout_reminder' && item.content.data?.medicationId === forecast.medicationId
+        );
+        const due = !!forecast.runoutDate && !refilling.has(forecast.medicationId);
+
+        if (queued) {
+          if (due && queued.content.data?.runoutDate === forecast.runoutDate) continue;
+          await notificationService.cancelNotification(queued.identifier);
+        }
+        if (!due) continue;
+
+        // A runout a few days either side of the one already reminded about is the same one
+        const lastSent = sent[forecast.medicationId];
+        if (!queued && lastSent && Math.abs(dateTimeService.getDaysBetween(lastSent, forecast.runoutDate!)) <= leadTimeDays) continue;
+
+        const refillBy = dateTimeService.getInstant(forecast.refillByDate!, REMINDER_HOUR, 0).getTime();
+        const at = new Date(Math.max(refillBy, now + 60000));
+        const ids = await notificationService.scheduleRequests([this.buildReminder(forecast, at)]);
+        if (ids.length > 0) {
+          sent[forecast.medicationId] = forecast.runoutDate!;
+          scheduled++;
+        }
+      }
+
+      // Medications deleted or no longer tracked keep no reminder
+      const forecastIds = new Set(forecasts.map(forecast => forecast.medicationId));
+      for (const item of queue) {
+        if (item.content.data?.type === 'runout_reminder' && !forecastIds.has(item.content.data?.medicationId as string)) {
+          await notificationService.cancelNotification(item.identifier);
+        }
+      }
+
+      await AsyncStorage.setItem(REMINDERS_SENT_KEY, JSON.stringify(sent));
+      if (scheduled > 0) console.log(`📦 ${scheduled} refill reminder(s) scheduled`);
+      return forecasts;
+    } catch (error) {
+      console.error('❌ Error scheduling refill reminders:', error);
+      return [];
+    }
+  },
+};
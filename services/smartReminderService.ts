@@ -1,111 +1,14 @@
 // services/smartReminderService.ts - UPDATED for new frequency system
 import * as Notifications from 'expo-notifications';
 import { supabase } from './supabaseClient';
-
-interface FrequencySchedule {
-  times: string[]; // Array of times in HH:MM format
-  timesPerDay: number;
-  interval: number; // hours between doses
-}
+import { doseScheduleService, DoseSchedule, MedicationCycle } from './doseScheduleService';
+import { dateTimeService } from './dateTimeService';
+import { notificationService, MedicationPriority } from './notificationService';
 
 export const smartReminderService = {
-  // ✅ UPDATED: Changed to match new frequency options
-  getScheduleForFrequency(frequency: string, startTime?: string): FrequencySchedule {
-    const schedules: { [key: string]: FrequencySchedule } = {
-      // ✅ NEW: Updated frequency options
-      'Every 4 hours': {
-        times: this.calculateTimesFromStart(startTime || '08:00', 4, 6),
-        timesPerDay: 6,
-        interval: 4
-      },
-      'Every 6 hours': {
-        times: this.calculateTimesFromStart(startTime || '08:00', 6, 4),
-        timesPerDay: 4,
-        interval: 6
-      },
-      'Every 8 hours': {
-        times: this.calculateTimesFromStart(startTime || '08:00', 8, 3),
-        timesPerDay: 3,
-        interval: 8
-      },
-      'Every 12 hours': {
-        times: this.calculateTimesFromStart(startTime || '08:00', 12, 2),
-        timesPerDay: 2,
-        interval: 12
-      },
-      // Keep legacy options for backward compatibility
-      'Once daily': {
-        times: [startTime || '08:00'],
-        timesPerDay: 1,
-        interval: 24
-      },
-      'Twice daily': {
-        times: this.calculateTimesFromStart(startTime || '08:00', 12, 2),
-        timesPerDay: 2,
-        interval: 12
-      },
-      'Three times daily': {
-        times: this.calculateTimesFromStart(startTime || '08:00', 8, 3),
-        timesPerDay: 3,
-        interval: 8
-      },
-      'Four times daily': {
-        times: this.calculateTimesFromStart(startTime || '08:00', 6, 4),
-        timesPerDay: 4,
-        interval: 6
-      },
-      'Before meals': {
-        times: ['07:30', '12:00', '18:00'],
-        timesPerDay: 3,
-        interval: 0
-      },
-      'After meals': {
-        times: ['08:30', '13:00', '19:00'],
-        timesPerDay: 3,
-        interval: 0
-      },
-      'Bedtime': {
-        times: ['22:00'],
-        timesPerDay: 1,
-        interval: 24
-      },
-      'As needed': {
-        times: [],
-        timesPerDay: 0,
-        interval: 0
-      },
-      'Weekly': {
-        times: [startTime || '08:00'],
-        timesPerDay: 0,
-        interval: 168
-      },
-      'Custom': {
-        times: [startTime || '08:00'],
-        timesPerDay: 1,
-        interval: 0
-      }
-    };
-
-    return schedules[frequency] || {
-      times: [startTime || '08:00'],
-      timesPerDay: 1,
-      interval: 24
-    };
-  },
-
-  // ✅ NEW: Calculate reminder times based on start time and interval
-  calculateTimesFromStart(startTime: string, intervalHours: number, count: number): string[] {
-    const times: string[] = [];
-    const [startHour, startMinute] = startTime.split(':').map(Number);
-    
-    for (let i = 0; i < count; i++) {
-      const totalMinutes = (startHour * 60 + startMinute) + (i * intervalHours * 60);
-      const hour = Math.floor(totalMinutes / 60) % 24;
-      const minute = totalMinutes % 60;
-      times.push(`${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`);
-    }
-    
-    return times;
+  // ✅ Schedules now come from the shared dose schedule engine
+  getScheduleForFrequency(frequency: string, startTime?: string): DoseSchedule {
+    return doseScheduleService.getSchedule(frequency, startTime);
   },
 
   // ✅ Calculate reminder time with advance notification
@@ -135,12 +38,17 @@ export const smartReminderService = {
     frequency: string,
     advanceMinutes: number,
     notes?: string,
-    startTime?: string // ✅ NEW: Accept start time parameter
+    startTime?: string, // ✅ NEW: Accept start time parameter
+    cycle?: MedicationCycle | null, // Cyclic regimens only remind on dosing days
+    weekdays?: number[] | null, // Selected weekdays (1 = Sunday); every day when empty
+    endDate?: string | null, // Last day of the course; no reminders after it
+    priority?: MedicationPriority | null // Channel and quiet-hours handling
   ): Promise<string[]> {
     try {
       // ✅ Get schedule with start time
       const schedule = this.getScheduleForFrequency(frequency, startTime);
       const notificationIds: string[] = [];
+      const { soundEnabled, vibrationEnabled } = notificationService.getSettings();
 
       console.log(`📅 Smart scheduling for ${medicationName}`);
       console.log(`   Frequency: ${frequency}`);
@@ -167,45 +75,18 @@ export const smartReminderService = {
             reminderIndex: i,
             totalReminders: schedule.times.length,
           },
-          sound: 'default',
+          sound: soundEnabled ? 'default' : undefined,
           badge: 1,
-          priority: Notifications.AndroidNotificationPriority.MAX,
+          ...notificationService.getPriorityContent(priority),
           categoryIdentifier: 'MEDICATION_REMINDER',
-          vibrate: [0, 250, 250, 250],
+          vibrate: vibrationEnabled && priority !== 'low' ? [0, 250, 250, 250] : undefined,
         };
 
-        // Handle weekly frequency differently
-        if (frequency === 'Weekly') {
-          const trigger: Notifications.NotificationTriggerInput = {
-            type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
-            channelId: 'medication-reminders',
-            weekday: 2, // Monday (1 = Sunday, 2 = Monday, etc.)
-            hour,
-            minute,
-          };
-
-          const notificationId = await Notifications.scheduleNotificationAsync({
-            content,
-            trigger,
-          });
-
-          notificationIds.push(notificationId);
-        } else if (frequency !== 'As needed') {
-          // Daily frequency
-          const trigger: Notifications.NotificationTriggerInput = {
-            type: Notifications.SchedulableTriggerInputTypes.DAILY,
-            channelId: 'medication-reminders',
-            hour,
-            minute,
-          };
-
-          const notificationId = await Notifications.scheduleNotificationAsync({
-            content,
-            trigger,
-          });
-
-          notificationIds.push(notificationId);
-        }
+        // Goes through the shared scheduler so turning notifications off is respected
+        const triggers = notificationService.getReminderTriggers(schedule, hour, minute, cycle, weekdays, endDate, priority);
+        notificationIds.push(...await notificationService.scheduleRequests(
+          triggers.map(trigger => notificationService.withReminderKey(content, trigger))
+        ));
 
         console.log(`   ✅ Scheduled: ${scheduledTime} (reminder at ${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')})`);
       }
@@ -246,8 +127,7 @@ export const smartReminderService = {
     
     if (schedule.times.length === 0) return 'As needed';
 
-    const now = new Date();
-    const currentMinutes = now.getHours() * 60 + now.getMinutes();
+    const currentMinutes = dateTimeService.getMinutesOfDay();
 
     // Find next scheduled time
     for (const time of schedule.times) {
@@ -309,22 +189,6 @@ export const smartReminderService = {
 
   // ✅ NEW: Validate frequency string
   isValidFrequency(frequency: string): boolean {
-    const validFrequencies = [
-      'Every 4 hours',
-      'Every 6 hours',
-      'Every 8 hours',
-      'Every 12 hours',
-      'Once daily',
-      'Twice daily',
-      'Three times daily',
-      'Four times daily',
-      'Before meals',
-      'After meals',
-      'Bedtime',
-      'As needed',
-      'Weekly',
-      'Custom'
-    ];
-    return validFrequencies.includes(frequency);
+    return doseScheduleService.isKnownFrequency(frequency);
   }
 };
\ No newline at end of file
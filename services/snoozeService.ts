@@ -0,0 +1,273 @@
+// services/snoozeService.ts - Snoozing reminders up to the user's limit, and how often each medication gets snoozed
+import * as Notifications from 'expo-notifications';
+import { Alert } from 'react-native';
+import { supabase, EscalationPolicy } from './supabaseClient';
+import { DoseRef } from './doseScheduleService';
+import { dateTimeService } from './dateTimeService';
+import { doseLogService } from './doseLogService';
+import { escalationService } from './escalationService';
+import { notificationService, GroupedDose } from './notificationService';
+import { profileService } from './profileService';
+
+const STATS_DAYS = 30;
+
+export interface SnoozeStats {
+  medicationId: string;
+  medicationName: string;
+  snoozes: number; // Over the last 30 days
+  dosesSnoozed: number;
+  missedAfterSnoozing: number; // Doses that hit the snooze limit
+  homeSnoozes: number; // Snoozed until the user got home
+}
+
+// e.g. " • 1 snooze left"
+const describeRemaining = (used: number, max: number): string => {
+  const left = max - used;
+  return left > 0 ? ` • ${left} snooze${left === 1 ? '' : 's'} left` : ' • last snooze';
+};
+
+const notify = async (title: string, body: string): Promise<void> => {
+  await Notifications.scheduleNotificationAsync({
+    content: { title, body, sound: 'default' },
+    trigger: null,
+  });
+};
+
+export const snoozeService = {
+  // Snooze actions can run before the profile has loaded, so read the preferences directly
+  async loadPreferences(userId: string): Promise<void> {
+    notificationService.applyPreferences(await profileService.getNotificationPreferences(userId));
+  },
+
+  // Snooze a dose once more, or once it has been snoozed the maximum number of times,
+  // mark it missed instead. doseDate is the day the dose was due (today when not given) and
+  // stays with the snoozed reminder. Returns what happened.
+  async snoozeDose(
+    userId: string,
+    medicationId: string,
+    dose: DoseRef,
+    snoozeCount: number,
+    doseDate: string = dateTimeService.getDateString()
+  ): Promise<'snoozed' | 'missed' | null> {
+    try {
+      await this.loadPreferences(userId);
+      const { data: medication, error } = await supabase
+        .from('medications')
+        .select('id, medication_name, dosage, dosage_unit, escalation, priority')
+        .eq('id', medicationId)
+        .single();
+
+      if (error) throw error;
+
+      const { maxSnoozes } = notificationService.getSettings();
+
+      if (snoozeCount >= maxSnoozes) {
+        await this.markMissed(userId, medication, dose, doseDate, snoozeCount);
+        await notify('❌ Dose Marked Missed', `${medication.medication_name} was snoozed ${snoozeCount} times and is now marked as missed`);
+        return 'missed';
+      }
+
+      await notificationService.snoozeNotification(
+        medication.id,
+        medication.medication_name,
+        medication.dosage,
+        medication.dosage_unit,
+        dose,
+        snoozeCount + 1,
+        doseDate,
+        medication.priority
+      );
+      await this.recordSnooze(userId, medication.id, doseDate, dose, snoozeCount + 1);
+      // The snoozed reminder takes over from the follow-ups
+      await escalationService.cancelForDose(medication.id, doseDate, dose.doseIndex);
+      await notify('⏰ Reminder Snoozed', `${medication.medication_name} reminder ${notificationService.getSnoozeLabel()}${describeRemaining(snoozeCount + 1, maxSnoozes)}`);
+      return 'snoozed';
+    } catch (error) {
+      console.error('❌ Error snoozing dose:', error);
+      return null;
+    }
+  },
+
+  // Snooze a grouped reminder; past the limit, every dose in it is marked missed
+  async snoozeGroup(
+    userId: string,
+    groupTitle: string,
+    doses: GroupedDose[],
+    snoozeCount: number,
+    doseDate: string = dateTimeService.getDateString()
+  ): Promise<'snoozed' | 'missed' | null> {
+    try {
+      await this.loadPreferences(userId);
+      const { maxSnoozes } = notificationService.getSettings();
+
+      if (snoozeCount >= maxSnoozes) {
+        const { data: medications, error } = await supabase
+          .from('medications')
+          .select('id, medication_name, escalation')
+          .in('id', doses.map(dose => dose.medicationId));
+
+        if (error) throw error;
+
+        for (const dose of doses) {
+          const medication = (medications || []).find(med => med.id === dose.medicationId);
+          if (!medication) continue;
+          await this.markMissed(userId, medication, { doseIndex: dose.reminderIndex, scheduledTime: dose.scheduledTime }, doseDate, snoozeCount);
+        }
+        await notify('❌ Doses Marked Missed', `${groupTitle} was snoozed ${snoozeCount} times and is now marked as missed`);
+        return 'missed';
+      }
+
+      await notificationService.snoozeGroup(groupTitle, doses, snoozeCount + 1, doseDate);
+      for (const dose of doses) {
+        await this.recordSnooze(userId, dose.medicationId, doseDate, { doseIndex: dose.reminderIndex, scheduledTime: dose.scheduledTime }, snoozeCount + 1);
+        await escalationService.cancelForDose(dose.medicationId, doseDate, dose.reminderIndex);
+      }
+      await notify('⏰ Reminders Snoozed', `${groupTitle} ${notificationService.getSnoozeLabel()}${describeRemaining(snoozeCount + 1, maxSnoozes)}`);
+      return 'snoozed';
+    } catch (error) {
+      console.error('❌ Error snoozing grouped reminder:', error);
+      return null;
+    }
+  },
+
+  async markMissed(
+    userId: string,
+    medication: { id: string; medication_name: string; escalation?: EscalationPolicy | null },
+    dose: DoseRef,
+    logDate: string,
+    snoozeCount: number
+  ): Promise<void> {
+    await doseLogService.logDose(userId, medication.id, logDate, dose, 'missed');
+    await this.recordSnooze(userId, medication.id, logDate, dose, snoozeCount, true);
+    await escalationService.onDoseMarkedMissed(userId, medication, dose, logDate);
+    console.log(`❌ ${medication.medication_name} marked missed after ${snoozeCount} snoozes`);
+  },
+
+  // One row per snooze; the row for a dose that hit the limit is flagged
+  async recordSnooze(
+    userId: string,
+    medicationId: string,
+    logDate: string,
+    dose: DoseRef,
+    snoozeNumber: number,
+    limitReached: boolean = false
+  ): Promise<void> {
+    const option = notificationService.getSettings().snoozeOption;
+    const { error } = await supabase
+      .from('medication_snoozes')
+      .insert({
+        user_id: userId,
+        medication_id: medicationId,
+        log_date: logDate,
+        dose_index: dose.doseIndex,
+        snooze_number: snoozeNumber,
+        snooze_minutes: limitReached || option === 'home' ? null : option,
+        until_home: !limitReached && option === 'home',
+        limit_reached: limitReached,
+        snoozed_at: new Date().toISOString(),
+      });
+
+    if (error) {
+      console.error('❌ Error recording snooze:', error);
+    }
+  },
+
+  // When each snoozed dose on a date comes back, by dose key: its latest snooze plus the snooze
+  // length (the fallback time for "until I get home"). Throws when the snoozes can't be read.
+  async getSnoozedUntil(userId: string, logDate: string): Promise<{ [doseKey: string]: Date }> {
+    const { data: snoozes, error } = await supabase
+      .from('medication_snoozes')
+      .select('medication_id, dose_index, snooze_minutes, until_home, snoozed_at')
+      .eq('user_id', userId)
+      .eq('log_date', logDate)
+      .eq('limit_reached', false);
+
+    if (error) throw error;
+
+    const snoozedUntil: { [doseKey: string]: Date } = {};
+    for (const snooze of snoozes || []) {
+      const minutes = snooze.until_home ? notificationService.getSnoozeMinutes('home') : snooze.snooze_minutes || 0;
+      const endsAt = new Date(new Date(snooze.snoozed_at).getTime() + minutes * 60000);
+      const key = doseLogService.getDoseKey(snooze.medication_id, snooze.dose_index ?? 0);
+      if (!snoozedUntil[key] || endsAt > snoozedUntil[key]) snoozedUntil[key] = endsAt;
+    }
+    return snoozedUntil;
+  },
+
+  // Reminders snoozed "until I get home" wait for the user to say so when they next open the app
+  async promptIfWaitingForHome(): Promise<void> {
+    const waiting = await notificationService.getHomeSnoozes();
+    if (waiting.length === 0) return;
+
+    const names = waiting.map(notification => notification.content.data?.groupTitle || notification.content.data?.medicationName);
+    Alert.alert(
+      '🏠 Are You Home?',
+      `You snoozed ${names.join(', ')} until you got home.`,
+      [
+        { text: 'Not Yet', style: 'cancel' },
+        { text: "I'm Home", onPress: () => notificationService.releaseHomeSnoozes() },
+      ]
+    );
+  },
+
+  // Snoozes per medication over the last 30 days, most snoozed first
+  async getSnoozeStats(userId: string): Promise<SnoozeStats[]> {
+    try {
+      const since = dateTimeService.addDays(dateTimeService.getDateString(), -(STATS_DAYS - 1));
+      const { data: snoozes, error } = await supabase
+        .from('medication_snoozes')
+        .select('medication_id, log_date, dose_index, until_home, limit_reached')
+        .eq('user_id', userId)
+        .gte('log_date', since);
+
+      if (error) throw error;
+      if (!snoozes || snoozes.length === 0) return [];
+
+      const { data: medications, error: medsError } = await supabase
+        .from('medications')
+        .select('id, medication_name')
+        .in('id', [...new Set(snoozes.map(snooze => snooze.medication_id))]);
+
+      if (medsError) throw medsError;
+
+      const stats = new Map<string, SnoozeStats & { doses: Set<string> }>();
+      for (const snooze of snoozes) {
+        const entry = stats.get(snooze.medication_id) || {
+          medicationId: snooze.medication_id,
+          medicationName: (medications || []).find(med => med.id === snooze.medication_id)?.medication_name || 'Unknown',
+          snoozes: 0,
+          dosesSnoozed: 0,
+          missedAfterSnoozing: 0,
+          homeSnoozes: 0,
+          doses: new Set<string>(),
+        };
+
+        if (snooze.limit_reached) {
+          entry.missedAfterSnoozing++;
+        } else {
+          entry.snoozes++;
+          if (snooze.until_home) entry.homeSnoozes++;
+          entry.doses.add(`${snooze.log_date}:${snooze.dose_index ?? 0}`);
+        }
+        stats.set(snooze.medication_id, entry);
+      }
+
+      return [...stats.values()]
+        .map(({ doses, ...entry }) => ({ ...entry, dosesSnoozed: doses.size }))
+        .sort((a, b) => b.snoozes - a.snoozes);
+    } catch (error) {
+      console.error('Error getting snooze stats:', error);
+      return [];
+    }
+  },
+
+  // e.g. "12 snoozes across 8 doses (1.5 per dose), 2 missed at the limit"
+  describeStats(stats: SnoozeStats): string {
+    const perDose = stats.dosesSnoozed > 0 ? (stats.snoozes / stats.dosesSnoozed).toFixed(1) : '0';
+    return [
+      `${stats.snoozes} snooze${stats.snoozes === 1 ? '' : 's'} across ${stats.dosesSnoozed} dose${stats.dosesSnoozed === 1 ? '' : 's'} (${perDose} per dose)`,
+      stats.homeSnoozes > 0 ? `${stats.homeSnoozes} until home` : null,
+      stats.missedAfterSnoozing > 0 ? `${stats.missedAfterSnoozing} missed at the limit` : null,
+    ].filter(Boolean).join(', ');
+  },
+};
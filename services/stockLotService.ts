@@ -0,0 +1,202 @@
+// services/stockLotService.ts - Stock lots: several packs of one medication, each with its own expiry, used first-expiring-first-out
+import { supabase } from './supabaseClient';
+import { StockLot } from '../constants/Types';
+import { dateTimeService } from './dateTimeService';
+
+// A new pack; its quantity is in the medication's package unit
+export interface NewStockLot {
+  quantity: number;
+  expiry_date?: string | null;
+  lot_number?: string | null;
+  opened_at?: string | null;
+}
+
+// How much of one lot a dose uses
+export interface LotDraw {
+  lotId: string;
+  quantity: number;
+}
+
+const isLotExpired = (lot: StockLot, dateString: string = dateTimeService.getDateString()): boolean => {
+  return !!lot.expiry_date && lot.expiry_date.split('T')[0] < dateString;
+};
+
+// First expiring first, lots without an expiry last; on the same date an opened pack before a sealed one, then oldest added
+const compareLots = (a: StockLot, b: StockLot): number => {
+  const aExpiry = a.expiry_date ? a.expiry_date.split('T')[0] : '9999-12-31';
+  const bExpiry = b.expiry_date ? b.expiry_date.split('T')[0] : '9999-12-31';
+  if (aExpiry !== bExpiry) return aExpiry < bExpiry ? -1 : 1;
+  if (!!a.opened_at !== !!b.opened_at) return a.opened_at ? -1 : 1;
+  return (a.created_at || '').localeCompare(b.created_at || '');
+};
+
+export const stockLotService = {
+  isLotExpired,
+
+  sortLots(lots: StockLot[]): StockLot[] {
+    return [...lots].sort(compareLots);
+  },
+
+  // Which lots a dose comes out of: unexpired lots first-expiring-first-out, expired ones only once those run out.
+  // Draws stop when the lots are empty, so they can add up to less than the amount.
+  planDraws(lots: StockLot[], amount: number, dateString: string = dateTimeService.getDateString()): LotDraw[] {
+    const sorted = this.sortLots(lots.filter(lot => lot.quantity > 0));
+    const ordered = [
+      ...sorted.filter(lot => !isLotExpired(lot, dateString)),
+      ...sorted.filter(lot => isLotExpired(lot, dateString)),
+    ];
+
+    const draws: LotDraw[] = [];
+    let remaining = amount;
+    for (const lot of ordered) {
+      if (remaining <= 0) break;
+      const quantity = Math.min(lot.quantity, remaining);
+      draws.push({ lotId: lot.id, quantity });
+      remaining -= quantity;
+    }
+    return draws;
+  },
+
+  // A medication's lots that still hold stock, in the order they're used
+  async getLots(medicationId: string): Promise<StockLot[]> {
+    const { data, error } = await supabase
+      .from('medication_lots')
+      .select('*')
+      .eq('medication_id', medicationId)
+      .is('disposed_at', null)
+      .gt('quantity', 0);
+
+    if (error) throw error;
+    return this.sortLots(data || []);
+  },
+
+  // Every lot with stock for a user, keyed by medication id; medications without lots are missing
+  async getLotsForUser(userId: string): Promise<{ [medicationId: string]: StockLot[] }> {
+    const { data, error } = await supabase
+      .from('medication_lots')
+      .select('*')
+      .eq('user_id', userId)
+      .is('disposed_at', null)
+      .gt('quantity', 0);
+
+    if (error) throw error;
+
+    const byMedication: { [medicationId: string]: StockLot[] } = {};
+    for (const lot of this.sortLots(data || [])) {
+      (byMedication[lot.medication_id] = byMedication[lot.medication_id] || []).push(lot);
+    }
+    return byMedication;
+  },
+
+  // Add a pack. The first lot of a medication tracked as one bottle also records that bottle as a lot,
+  // so the existing count and expiry carry over.
+  async addLot(
+    userId: string,
+    medication: { id: string; current_quantity?: number | null; expiry_date?: string | null },
+    lot: NewStockLot
+  ): Promise<number> {
+    const existing = await this.getLots(medication.id);
+    const now = new Date().toISOString();
+
+    const rows = [];
+    if (existing.length === 0 && (medication.current_quantity || 0) > 0) {
+      rows.push({
+        medication_id: medication.id,
+        user_id: userId,
+        quantity: medication.current_quantity,
+        expiry_date: medication.expiry_date || null,
+        lot_number: null,
+        opened_at: null,
+        created_at: now,
+      });
+    }
+    rows.push({
+      medication_id: medication.id,
+      user_id: userId,
+      quantity: lot.quantity,
+      expiry_date: lot.expiry_date || null,
+      lot_number: lot.lot_number?.trim() || null,
+      opened_at: lot.opened_at || null,
+      created_at: now,
+    });
+
+    const { error } = await supabase.from('medication_lots').insert(rows);
+    if (error) throw error;
+
+    return this.syncMedication(medication.id);
+  },
+
+  // Take an amount out of a medication's lots. Returns the new stock, or null when the medication
+  // has no lots and is still tracked by its own count.
+  async consume(medicationId: string, amount: number, dateString: string = dateTimeService.getDateString()): Promise<number | null> {
+    const lots = await this.getLots(medicationId);
+    if (lots.length === 0) return null;
+
+    const now = new Date().toISOString();
+    for (const draw of this.planDraws(lots, amount, dateString)) {
+      const lot = lots.find(item => item.id === draw.lotId)!;
+      const { error } = await supabase
+        .from('medication_lots')
+        .update({ quantity: lot.quantity - draw.quantity, opened_at: lot.opened_at || now })
+        .eq('id', lot.id);
+
+      if (error) throw error;
+    }
+
+    return this.syncMedication(medicationId);
+  },
+
+  // Lower the stock to a counted amount, taking the difference out the way doses would
+  async setCount(medicationId: string, count: number): Promise<number | null> {
+    const lots = await this.getLots(medicationId);
+    if (lots.length === 0) return null;
+
+    const total = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    if (count >= total) return total;
+    return this.consume(medicationId, total - count);
+  },
+
+  async disposeLot(lot: StockLot): Promise<number> {
+    const { error } = await supabase
+      .from('medication_lots')
+      .update({ disposed_at: new Date().toISOString() })
+      .eq('id', lot.id);
+
+    if (error) throw error;
+    return this.syncMedication(lot.medication_id);
+  },
+
+  // Keep the medication's own count and expiry in step with its lots, so screens that know nothing of lots
+  // still see the right numbers: the stock is their sum and the expiry the first one due among lots still
+  // good. Expired leftovers are flagged per lot; only once every lot has expired is the medication expired.
+  async syncMedication(medicationId: string): Promise<number> {
+    const lots = await this.getLots(medicationId);
+    const currentQuantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const freshLots = lots.filter(lot => !isLotExpired(lot));
+    const datedLots = lots.filter(lot => lot.expiry_date);
+    const expiryDate = freshLots.length > 0
+      ? freshLots.find(lot => lot.expiry_date)?.expiry_date || null
+      : datedLots[datedLots.length - 1]?.expiry_date || null;
+
+    const { data: medication, error: readError } = await supabase
+      .from('medications')
+      .select('total_quantity')
+      .eq('id', medicationId)
+      .single();
+
+    if (readError) throw readError;
+
+    const { error } = await supabase
+      .from('medications')
+      .update({
+        current_quantity: currentQuantity,
+        total_quantity: Math.max(medication?.total_quantity || 0, currentQuantity),
+        expiry_date: expiryDate,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', medicationId);
+
+    if (error) throw error;
+    return currentQuantity;
+  },
+};
@@ -1,22 +1,47 @@
 import 'react-native-url-polyfill/auto';
 import 'react-native-get-random-values';
 import 'web-streams-polyfill/polyfill';
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
 const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || '';
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  console.error('⚠️ Missing Supabase credentials in environment variables');
-}
+// What services query through. The app uses Supabase; tests swap in
+// createInMemoryDataClient() from __tests__/support/inMemoryDataClient.ts with setDataClient.
+export type DataClient = SupabaseClient;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    storage: AsyncStorage, 
-    autoRefreshToken: true,
-    persistSession: true,
-    detectSessionInUrl: false,
+let dataClient: DataClient | null = null;
+
+// Created on first use, so code running against another client never needs credentials
+const getDataClient = (): DataClient => {
+  if (!dataClient) {
+    if (!supabaseUrl || !supabaseAnonKey) {
+      console.error('⚠️ Missing Supabase credentials in environment variables');
+    }
+
+    dataClient = createClient(supabaseUrl, supabaseAnonKey, {
+      auth: {
+        storage: AsyncStorage, 
+        autoRefreshToken: true,
+        persistSession: true,
+        detectSessionInUrl: false,
+      },
+    });
+  }
+  return dataClient;
+};
+
+export const setDataClient = (client: DataClient | null): void => {
+  dataClient = client;
+};
+
+// Every call is forwarded to the current client
+export const supabase = new Proxy({} as DataClient, {
+  get(_, property) {
+    const client = getDataClient();
+    const value = Reflect.get(client, property, client);
+    return typeof value === 'function' ? value.bind(client) : value;
   },
 });
 
@@ -30,35 +55,13 @@ export const getCurrentUser = async () => {
   return session?.user || null;
 };
 
-export interface DatabaseMedication {
-  id: string;
-  user_id: string;
-  medication_name: string;
-  dosage: string;
-  dosage_unit: string;
-  frequency: string;
-  start_date: string;
-  end_date?: string;
-  expiry_date?: string;
-  reminder_time: string;
-  notes?: string;
-  image?: string;
-  custom_interval?: number;
-  custom_interval_unit?: string;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-}
-
-export interface DatabaseMedicationLog {
-  id: string;
-  medication_id: string;
-  user_id: string;
-  log_date: string;
-  status: 'taken' | 'missed' | 'skipped';
-  notes?: string;
-  logged_at: string;
-}
+// Row types live in constants/Types.ts so screens and services share one definition
+export type {
+  DosePhase,
+  EscalationPolicy,
+  Medication as DatabaseMedication,
+  MedicationLog as DatabaseMedicationLog,
+} from '../constants/Types';
 
 export const formatDate = (date: string): string => {
   return new Date(date).toLocaleDateString('en-US', {
@@ -0,0 +1,226 @@
+// services/travelService.ts - Travel mode: keep reminders on home time or shift them to local time
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Alert } from 'react-native';
+import { supabase } from './supabaseClient';
+import { dateTimeService } from './dateTimeService';
+import { doseScheduleService } from './doseScheduleService';
+import { notificationService } from './notificationService';
+import { reminderReconciliationService } from './reminderReconciliationService';
+
+export type TravelStrategy = 'keep_home' | 'shift_gradually';
+
+// One recorded travel choice; doses stay logged against the home schedule
+export interface TravelPlan {
+  id: string;
+  user_id: string;
+  home_timezone: string;
+  destination_timezone: string;
+  strategy: TravelStrategy;
+  shift_minutes_per_day: number;
+  started_at: string;
+  ended_at?: string | null;
+  created_at: string;
+}
+
+export const DEFAULT_SHIFT_MINUTES_PER_DAY = 60;
+
+// Device offset, schedule shift, taper steps, cycle or course day and routine the current notifications were built for
+const REMINDER_SIGNATURE_KEY = 'travel_reminder_signature';
+// Device zones the user already declined to set up travel mode for
+const DISMISSED_ZONE_KEY = 'travel_dismissed_zone';
+
+export const travelService = {
+  async getActivePlan(userId: string): Promise<TravelPlan | null> {
+    try {
+      const { data, error } = await supabase
+        .from('travel_plans')
+        .select('*')
+        .eq('user_id', userId)
+        .is('ended_at', null)
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error loading travel plan:', error);
+      return null;
+    }
+  },
+
+  // Minutes the home schedule is moved toward destination time, e.g. -420 when
+  // flying from Manila to London. Keep-home plans never move.
+  getScheduleShift(plan: TravelPlan | null, date: Date = new Date()): number {
+    if (!plan || plan.strategy === 'keep_home') return 0;
+
+    let difference = dateTimeService.getOffsetMinutes(date, plan.destination_timezone)
+      - dateTimeService.getOffsetMinutes(date, plan.home_timezone);
+    // Take the shorter way around the clock
+    if (difference > 720) difference -= 1440;
+    if (difference <= -720) difference += 1440;
+
+    // Start moving the day after departure, one step per day
+    const daysTravelled = dateTimeService.getDaysBetween(
+      dateTimeService.getDateString(new Date(plan.started_at)),
+      dateTimeService.getDateString(date)
+    );
+    const applied = Math.min(Math.abs(difference), Math.max(0, daysTravelled) * plan.shift_minutes_per_day);
+
+    return Math.sign(difference) * applied;
+  },
+
+  async startTravel(userId: string, destinationTimeZone: string, strategy: TravelStrategy): Promise<TravelPlan | null> {
+    try {
+      await this.endTravel(userId, false);
+
+      const { data, error } = await supabase
+        .from('travel_plans')
+        .insert({
+          user_id: userId,
+          home_timezone: dateTimeService.getTimeZone(),
+          destination_timezone: destinationTimeZone,
+          strategy,
+          shift_minutes_per_day: DEFAULT_SHIFT_MINUTES_PER_DAY,
+          started_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      console.log(`✈️ Travel mode started (${strategy}) → ${destinationTimeZone}`);
+      await this.syncReminders(userId, true);
+      return data;
+    } catch (error) {
+      console.error('Error starting travel mode:', error);
+      return null;
+    }
+  },
+
+  async endTravel(userId: string, resync: boolean = true): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('travel_plans')
+        .update({ ended_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('ended_at', null);
+
+      if (error) throw error;
+
+      if (resync) {
+        console.log('🏠 Travel mode ended');
+        await this.syncReminders(userId, true);
+      }
+    } catch (error) {
+      console.error('Error ending travel mode:', error);
+    }
+  },
+
+  // Apply today's schedule shift and rebuild reminders when the device clock, shift, taper step, cycle day or routine
+  // changed; otherwise just reconcile the queue with the schedule
+  async syncReminders(userId: string, force: boolean = false): Promise<void> {
+    try {
+      const plan = await this.getActivePlan(userId);
+      const shift = this.getScheduleShift(plan);
+      dateTimeService.setScheduleShift(shift);
+
+      const { data: activeMeds, error } = await supabase
+        .from('medications')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_active', true);
+
+      if (error) throw error;
+
+      // Taper steps change the dose and frequency in the reminders too, and cyclic regimens
+      // and courses with an end date use one-off reminders that need topping up every day
+      const today = dateTimeService.getDateString();
+      const phaseKeys = (activeMeds || [])
+        .filter(med => med.dose_phases?.length)
+        .map(med => `${med.id}:${doseScheduleService.getPhaseIndexForDate(med, today)}`);
+      const cycleKey = (activeMeds || []).some(med =>
+        doseScheduleService.getCycle(med) || doseScheduleService.getCourseEndDate(med)
+      ) ? today : '';
+      // Meal- and sleep-anchored times follow the routine, which may have been edited on another device
+      const routineKey = (activeMeds || []).some(med => doseScheduleService.isRoutineAnchored(med))
+        ? JSON.stringify(doseScheduleService.getRoutine())
+        : '';
+
+      const signature = [-new Date().getTimezoneOffset(), dateTimeService.getTimeZone(), shift, cycleKey, routineKey, ...phaseKeys].join('|');
+      const previous = await AsyncStorage.getItem(REMINDER_SIGNATURE_KEY);
+      if (!force && previous === signature) {
+        // Nothing moved, but the queue may still be out of step (edits elsewhere, reinstalls)
+        await reminderReconciliationService.reconcile(userId, activeMeds || []);
+        return;
+      }
+
+      await notificationService.rescheduleMedicationReminders(activeMeds || []);
+      // Merges doses due together and tops up follow-ups
+      await reminderReconciliationService.reconcile(userId, activeMeds || []);
+      await AsyncStorage.setItem(REMINDER_SIGNATURE_KEY, signature);
+      console.log(`🔁 Reminders rebuilt for schedule shift of ${shift} minutes`);
+    } catch (error) {
+      console.error('Error syncing travel reminders:', error);
+    }
+  },
+
+  // Ask once per new device zone whether to start travel mode, and offer to end it back home
+  async promptIfTravelling(userId: string): Promise<void> {
+    const homeZone = dateTimeService.getTimeZone();
+    const deviceZone = dateTimeService.getDeviceTimeZone();
+    const plan = await this.getActivePlan(userId);
+
+    if (homeZone === deviceZone) {
+      if (plan) {
+        Alert.alert(
+          '🏠 Welcome Home',
+          'Your device is back on home time. End travel mode and restore your usual reminder times?',
+          [
+            { text: 'Not Now', style: 'cancel' },
+            { text: 'End Travel Mode', onPress: () => this.endTravel(userId) },
+          ]
+        );
+      }
+      return;
+    }
+
+    if (plan?.destination_timezone === deviceZone) return;
+
+    const dismissedZone = await AsyncStorage.getItem(DISMISSED_ZONE_KEY);
+    if (dismissedZone === deviceZone) return;
+
+    this.showTravelOptions(userId, deviceZone, () => {
+      AsyncStorage.setItem(DISMISSED_ZONE_KEY, deviceZone);
+    });
+  },
+
+  showTravelOptions(
+    userId: string,
+    destinationTimeZone: string,
+    onDismiss?: () => void,
+    onStarted?: (plan: TravelPlan | null) => void
+  ): void {
+    Alert.alert(
+      '✈️ Travelling?',
+      `This device is now set to ${destinationTimeZone}, but your schedule follows ${dateTimeService.getTimeZone()}.\n\n` +
+        'Keep home-time intervals for time-critical medications such as insulin or contraceptives, ' +
+        'or shift reminders to local time by about an hour a day.',
+      [
+        { text: 'Not Now', style: 'cancel', onPress: onDismiss },
+        {
+          text: 'Keep Home Time',
+          onPress: async () => onStarted?.(await this.startTravel(userId, destinationTimeZone, 'keep_home')),
+        },
+        {
+          text: 'Shift to Local Time',
+          onPress: async () => onStarted?.(await this.startTravel(userId, destinationTimeZone, 'shift_gradually')),
+        },
+      ]
+    );
+  },
+
+  getStrategyLabel(strategy: TravelStrategy): string {
+    return strategy === 'keep_home' ? 'Keeping home-time intervals' : 'Shifting gradually to local time';
+  },
+};